@@ -0,0 +1,105 @@
+import React from 'react';
+import { AccountOwner, AccountType, InvestmentAccount, ValidationIssue } from '../types';
+import { ACCOUNT_TYPES, ACCOUNT_TYPE_INFO, TAX_TREATMENT_LABELS, createAccount } from '../services/accounts';
+import { OWNER_LABELS } from '../services/household';
+import FieldIssues from './FieldIssues';
+import { Plus, Trash2, DollarSign, TrendingUp } from 'lucide-react';
+
+interface Props {
+  accounts: InvestmentAccount[];
+  showOwner?: boolean; // Household mode: let each account be assigned to a member
+  issues?: ValidationIssue[];
+  onChange: (accounts: InvestmentAccount[]) => void;
+}
+
+const TREATMENT_COLORS = {
+  taxable: 'text-blue-400',
+  tax_deferred: 'text-amber-400',
+  tax_free: 'text-emerald-400',
+};
+
+const AccountsEditor: React.FC<Props> = ({ accounts, showOwner = false, issues = [], onChange }) => {
+  const updateAccount = (id: string, changes: Partial<InvestmentAccount>) => {
+    onChange(accounts.map(a => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const removeAccount = (id: string) => {
+    onChange(accounts.filter(a => a.id !== id));
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg pl-7 pr-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+  return (
+    <div className="space-y-3">
+      {accounts.map(account => {
+        const info = ACCOUNT_TYPE_INFO[account.type];
+        return (
+          <div key={account.id} className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={account.type}
+                onChange={(e) => updateAccount(account.id, { type: e.target.value as AccountType })}
+                className={`bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs font-medium focus:ring-1 focus:ring-sky-500 outline-none ${TREATMENT_COLORS[info.treatment]}`}
+              >
+                {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <input
+                value={account.label}
+                placeholder="Nickname (optional)"
+                onChange={(e) => updateAccount(account.id, { label: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-slate-800 focus:border-sky-500 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none"
+              />
+              {showOwner && (
+                <select
+                  value={account.owner || 'primary'}
+                  onChange={(e) => updateAccount(account.id, { owner: e.target.value as AccountOwner })}
+                  className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-purple-400 focus:ring-1 focus:ring-sky-500 outline-none"
+                  title="Account owner"
+                >
+                  {(Object.keys(OWNER_LABELS) as AccountOwner[]).map(owner => <option key={owner} value={owner}>{OWNER_LABELS[owner]}</option>)}
+                </select>
+              )}
+              <button onClick={() => removeAccount(account.id)} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title="Remove account">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="relative">
+                <DollarSign className="absolute left-2.5 top-2 w-3 h-3 text-slate-500" />
+                <input
+                  type="number"
+                  value={account.balance}
+                  placeholder="Balance"
+                  onChange={(e) => updateAccount(account.id, { balance: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="relative">
+                <TrendingUp className="absolute left-2.5 top-2 w-3 h-3 text-slate-500" />
+                <input
+                  type="number"
+                  value={account.monthlyContribution}
+                  placeholder="Monthly contribution"
+                  onChange={(e) => updateAccount(account.id, { monthlyContribution: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <FieldIssues issues={issues.filter(i => i.field.startsWith(`accounts.${account.id}.`))} />
+            <p className="text-[10px] text-slate-500">
+              <span className={TREATMENT_COLORS[info.treatment]}>{TAX_TREATMENT_LABELS[info.treatment]}</span> · {info.description}
+            </p>
+          </div>
+        );
+      })}
+      <button
+        onClick={() => onChange([...accounts, createAccount()])}
+        className="w-full flex items-center justify-center gap-1.5 text-xs text-slate-400 hover:text-sky-400 border border-dashed border-slate-800 hover:border-sky-500/50 rounded-lg py-2 transition-colors"
+      >
+        <Plus className="w-3 h-3" /> Add account
+      </button>
+    </div>
+  );
+};
+
+export default AccountsEditor;
@@ -1,13 +1,14 @@
 import React, { useState, useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
-import { InvestmentPlan, ChatMessage, GroundingSource } from '../types';
+import { InvestmentPlan, ChatMessage, LLMChat, LLMProvider } from '../types';
 import { createAdvisorChat } from '../services/geminiService';
-import { Chat } from "@google/genai";
+import { LLM_ERROR_HELP, toLLMError } from '../services/llmErrors';
+import { readSecure, writeSecure } from '../services/vault';
 import { Send, X, MessageSquare, User, Bot, Loader2, Zap, Maximize2, Minimize2, ExternalLink } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
 interface Props {
   plan: InvestmentPlan;
-  apiKey: string;
+  provider: LLMProvider;
 }
 
 export interface AgentChatRef {
@@ -21,8 +22,8 @@ const QUICK_ACTIONS = [
     "What is the role of bonds in this portfolio?"
 ];
 
-const AgentChat = forwardRef<AgentChatRef, Props>(({ plan, apiKey }, ref) => {
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+const AgentChat = forwardRef<AgentChatRef, Props>(({ plan, provider }, ref) => {
+  const [chatSession, setChatSession] = useState<LLMChat | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isThinking, setIsThinking] = useState(false);
@@ -37,37 +38,37 @@ const AgentChat = forwardRef<AgentChatRef, Props>(({ plan, apiKey }, ref) => {
       }
   }));
 
-  // Load from local storage or init
+  // Load from the vault / local storage or init
   useEffect(() => {
-    const storedHistory = localStorage.getItem('steward_ai_chat_history');
-    if (storedHistory) {
-        try {
-            const parsed = JSON.parse(storedHistory);
-            setMessages(parsed);
-        } catch (e) {
-            console.error("Failed to parse chat history", e);
-            setMessages([{ role: 'model', text: "I have reviewed your legacy plan. The principles are sound and the strategy is aligned with your long-term goals. How may I provide clarity or guidance?" }]);
-        }
-    } else {
-        setMessages([{ role: 'model', text: "I have reviewed your legacy plan. The principles are sound and the strategy is aligned with your long-term goals. How may I provide clarity or guidance?" }]);
-    }
+    readSecure('chat_history').then(storedHistory => {
+      if (storedHistory) {
+          try {
+              const parsed = JSON.parse(storedHistory);
+              setMessages(parsed);
+              return;
+          } catch (e) {
+              console.error("Failed to parse chat history", e);
+          }
+      }
+      setMessages([{ role: 'model', text: "I have reviewed your legacy plan. The principles are sound and the strategy is aligned with your long-term goals. How may I provide clarity or guidance?" }]);
+    });
   }, []);
 
-  // Save to local storage
+  // Save according to the storage mode (encrypted in vault mode, memory only in session mode)
   useEffect(() => {
     if (messages.length > 0) {
-        localStorage.setItem('steward_ai_chat_history', JSON.stringify(messages));
+        writeSecure('chat_history', JSON.stringify(messages)).catch(e => console.error("Failed to save chat history", e));
     }
   }, [messages]);
 
   useEffect(() => {
-    if (plan && apiKey) {
+    if (plan && provider) {
       // Pass the *history* to the chat creation so context is preserved in the AI session too
-      const historyForAI = messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
-      const chat = createAdvisorChat(plan, apiKey, historyForAI);
+      const historyForAI = messages.map(m => ({ role: m.role, text: m.text }));
+      const chat = createAdvisorChat(plan, provider, historyForAI);
       setChatSession(chat);
     }
-  }, [plan, apiKey]); // Re-init if plan changes (re-generation) or key changes
+  }, [plan, provider]); // Re-init if plan changes (re-generation) or the provider changes
 
   useEffect(() => {
     scrollToBottom();
@@ -86,24 +87,14 @@ const AgentChat = forwardRef<AgentChatRef, Props>(({ plan, apiKey }, ref) => {
     setIsThinking(true);
 
     try {
-      const result = await chatSession.sendMessage({ message: userMsg });
-      const responseText = result.text;
-      
-      // Extract sources if any (from Google Search tool)
-      const sources: GroundingSource[] = [];
-      const chunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      if (chunks) {
-        chunks.forEach((chunk: any) => {
-            if (chunk.web?.uri && chunk.web?.title) {
-            sources.push({ title: chunk.web.title, url: chunk.web.uri });
-            }
-        });
-      }
+      // Sources are only present when the provider grounds answers with web search.
+      const { text: responseText, sources } = await chatSession.send(userMsg);
 
       setMessages(prev => [...prev, { role: 'model', text: responseText, sources }]);
     } catch (error) {
       console.error("Chat Error", error);
-      setMessages(prev => [...prev, { role: 'model', text: "Apologies, there was a data stream interruption. Please re-submit your query." }]);
+      const { title, remedy } = LLM_ERROR_HELP[toLLMError(error).kind];
+      setMessages(prev => [...prev, { role: 'model', text: `Apologies, I couldn't answer that. **${title}.** ${remedy}` }]);
     } finally {
       setIsThinking(false);
     }
@@ -1,45 +1,187 @@
 import React, { useState } from 'react';
-import { KeyRound, Shield, ExternalLink, Loader2 } from 'lucide-react';
+import { ProviderConfig, ProviderKind, StorageMode } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS } from '../services/llmProvider';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openAiProvider';
+import { KeyRound, Shield, ExternalLink, Loader2, Lock, HardDrive, Timer } from 'lucide-react';
+
+export interface StorageChoice {
+  mode: StorageMode;
+  passphrase?: string;
+  newVault?: boolean; // Create a fresh vault instead of unlocking the existing one
+}
 
 interface Props {
-  onSave: (apiKey: string) => void;
-  onVerify: (apiKey: string) => Promise<boolean>;
+  onSave: (config: ProviderConfig, storage: StorageChoice) => Promise<void>;
+  onVerify: (config: ProviderConfig) => Promise<boolean>;
+  onUnlock?: (passphrase: string) => Promise<void>; // Set when an encrypted vault is waiting to be unlocked
+  vaultExists: boolean;
+  onResetVault: () => void;
 }
 
-const ApiKeyModal: React.FC<Props> = ({ onSave, onVerify }) => {
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const STORAGE_OPTIONS: { mode: StorageMode; label: string; description: string; icon: React.ElementType }[] = [
+  { mode: 'vault', label: 'Encrypt with a passphrase', description: 'Key, saved profiles and chat are encrypted on this device. Locks after inactivity.', icon: Lock },
+  { mode: 'plain', label: 'Remember on this device', description: 'Stored unencrypted in this browser. Anyone with access to it can read them.', icon: HardDrive },
+  { mode: 'session', label: 'Session only', description: 'Nothing is written to disk. Everything is forgotten when you close the tab.', icon: Timer },
+];
+
+const PROVIDER_HINTS: Record<ProviderKind, string> = {
+  gemini: 'Google AI Studio key. Plans are grounded with Google Search.',
+  openai: 'OpenAI, or a local Ollama / llama.cpp server. No web search.',
+  fixture: 'Canned responses with no key and no network, for trying the app.',
+};
+
+const ApiKeyModal: React.FC<Props> = ({ onSave, onVerify, onUnlock, vaultExists, onResetVault }) => {
+  const [screen, setScreen] = useState<'unlock' | 'setup'>(onUnlock ? 'unlock' : 'setup');
+  const [providerKind, setProviderKind] = useState<ProviderKind>('gemini');
   const [key, setKey] = useState('');
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_OPENAI_BASE_URL);
+  const [model, setModel] = useState('');
+  const [mode, setMode] = useState<StorageMode>('vault');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [newVault, setNewVault] = useState(!vaultExists);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  const handleUnlock = async () => {
+    if (!onUnlock || !passphrase) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock the vault.');
+      setIsLoading(false);
+    }
+  };
+
+  const keyRequired = providerKind === 'gemini';
+  const canSave = !keyRequired || key.trim().length > 0;
+
   const handleSave = async () => {
-    if (!key.trim()) {
+    if (keyRequired && !key.trim()) {
         setError("API Key cannot be empty.");
         return;
     };
-    
+    if (providerKind === 'openai' && !baseUrl.trim()) {
+        setError("Server URL cannot be empty.");
+        return;
+    }
+    if (mode === 'vault' && newVault) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError("Passphrases don't match.");
+        return;
+      }
+    }
+
     setError(null);
     setIsLoading(true);
 
-    const isValid = await onVerify(key.trim());
+    const config: ProviderConfig = {
+      kind: providerKind,
+      apiKey: providerKind === 'fixture' ? '' : key.trim(),
+      ...(providerKind === 'openai' ? { baseUrl: baseUrl.trim() } : {}),
+      ...(providerKind !== 'fixture' && model.trim() ? { model: model.trim() } : {}),
+    };
+    const isValid = await onVerify(config);
 
     if (isValid) {
-        onSave(key.trim());
-        // The modal will be unmounted by the parent component, so no need to setIsLoading(false)
+        try {
+          await onSave(config, mode === 'vault' ? { mode, passphrase, newVault } : { mode });
+          // The modal will be unmounted by the parent component, so no need to setIsLoading(false)
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Could not save your key.');
+          setIsLoading(false);
+        }
     } else {
-        setError("Invalid API Key. Please check the key and try again.");
+        setError(providerKind === 'openai'
+          ? "Couldn't reach the server. Check the URL, model and key, and that the server allows requests from this page (CORS)."
+          : "Invalid API Key. Please check the key and try again.");
         setIsLoading(false);
     }
   };
-  
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      handleSave();
+      if (screen === 'unlock') handleUnlock();
+      else handleSave();
     }
   };
 
+  const handleResetVault = () => {
+    onResetVault();
+    setNewVault(true);
+    setScreen('setup');
+    setPassphrase('');
+    setError(null);
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-700 text-slate-200 text-sm rounded-lg px-4 py-3 focus:ring-1 focus:ring-sky-500 outline-none placeholder:text-slate-600 text-center";
+
+  if (screen === 'unlock') {
+    return (
+      <div className="fixed inset-0 bg-slate-950 bg-opacity-90 backdrop-blur-sm flex items-center justify-center z-50 animate-in fade-in">
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-w-md w-full p-8 m-4 text-center">
+          <div className="flex justify-center mb-6">
+              <div className="bg-sky-500/10 p-4 rounded-full border-2 border-sky-500/20">
+                  <Lock className="w-8 h-8 text-sky-400" />
+              </div>
+          </div>
+
+          <h2 className="text-2xl font-bold text-white mb-2">Unlock Steward AI</h2>
+          <p className="text-slate-400 mb-6">
+            Your API key, saved profiles and chat history are encrypted. Enter your passphrase to continue.
+          </p>
+
+          <div className="space-y-4">
+            <input
+              type="password"
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={handleKeyPress}
+              placeholder="Vault passphrase"
+              className={inputClass}
+              disabled={isLoading}
+            />
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+            <button
+              onClick={handleUnlock}
+              disabled={!passphrase || isLoading}
+              className="w-full py-3 bg-sky-500 hover:bg-sky-600 text-white font-bold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Unlocking...
+                </>
+              ) : (
+                "Unlock"
+              )}
+            </button>
+          </div>
+
+          <div className="mt-6 text-xs text-slate-500">
+            Forgot your passphrase?{' '}
+            <button onClick={handleResetVault} className="text-slate-400 hover:text-red-400 underline underline-offset-2 transition-colors">
+              Erase the vault and start over
+            </button>
+            <p className="mt-1 text-slate-600">Encrypted profiles and chat history cannot be recovered without it.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-slate-950 bg-opacity-90 backdrop-blur-sm flex items-center justify-center z-50 animate-in fade-in">
-      <div className="bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-w-md w-full p-8 m-4 text-center">
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-w-md w-full p-8 m-4 text-center max-h-screen overflow-y-auto">
         <div className="flex justify-center mb-6">
             <div className="bg-sky-500/10 p-4 rounded-full border-2 border-sky-500/20">
                 <KeyRound className="w-8 h-8 text-sky-400" />
@@ -48,29 +190,116 @@ const ApiKeyModal: React.FC<Props> = ({ onSave, onVerify }) => {
 
         <h2 className="text-2xl font-bold text-white mb-2">Welcome to Steward AI</h2>
         <p className="text-slate-400 mb-6">
-          To begin, please enter your Google AI API key. Your key is stored securely in your browser and is never shared.
+          To begin, choose an AI provider, enter its key and choose how this device should keep it.
         </p>
 
         <div className="space-y-4">
-          <input
-            type="password"
-            value={key}
-            onChange={(e) => setKey(e.target.value)}
-            onKeyDown={handleKeyPress}
-            placeholder="Enter your Google AI API key"
-            className="w-full bg-slate-950 border border-slate-700 text-slate-200 text-sm rounded-lg px-4 py-3 focus:ring-1 focus:ring-sky-500 outline-none placeholder:text-slate-600 text-center"
-            disabled={isLoading}
-          />
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setProviderKind(kind)}
+                disabled={isLoading}
+                className={`text-xs px-2 py-2 rounded-lg border transition-colors ${providerKind === kind ? 'bg-sky-500/10 border-sky-500/50 text-white' : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600'}`}
+              >
+                {PROVIDER_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 -mt-2">{PROVIDER_HINTS[providerKind]}</p>
+
+          {providerKind === 'openai' && (
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              onKeyDown={handleKeyPress}
+              placeholder="Server URL, e.g. http://localhost:11434/v1"
+              className={inputClass}
+              disabled={isLoading}
+            />
+          )}
+          {providerKind !== 'fixture' && (
+            <>
+              <input
+                type="password"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                onKeyDown={handleKeyPress}
+                placeholder={providerKind === 'gemini' ? 'Enter your Google AI API key' : 'API key (optional for local servers)'}
+                className={inputClass}
+                disabled={isLoading}
+              />
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                onKeyDown={handleKeyPress}
+                placeholder={`Model (default: ${DEFAULT_MODELS[providerKind]})`}
+                className={inputClass}
+                disabled={isLoading}
+              />
+            </>
+          )}
+
+          <div className="space-y-2 text-left">
+            {STORAGE_OPTIONS.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                disabled={isLoading}
+                className={`w-full flex items-start gap-3 p-3 rounded-lg border transition-all ${
+                  mode === option.mode ? 'bg-sky-500/10 border-sky-500/50' : 'bg-slate-950 border-slate-800 hover:border-slate-600'
+                }`}
+              >
+                <option.icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${mode === option.mode ? 'text-sky-400' : 'text-slate-500'}`} />
+                <span>
+                  <span className={`block text-sm font-semibold ${mode === option.mode ? 'text-white' : 'text-slate-300'}`}>{option.label}</span>
+                  <span className="block text-xs text-slate-500">{option.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {mode === 'vault' && (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={handleKeyPress}
+                placeholder={newVault ? 'Choose a passphrase' : 'Existing vault passphrase'}
+                className={inputClass}
+                disabled={isLoading}
+              />
+              {newVault ? (
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  onKeyDown={handleKeyPress}
+                  placeholder="Confirm passphrase"
+                  className={inputClass}
+                  disabled={isLoading}
+                />
+              ) : (
+                <button onClick={() => setNewVault(true)} className="text-xs text-slate-500 hover:text-sky-400 transition-colors">
+                  Create a new vault instead (existing encrypted data will be unreadable)
+                </button>
+              )}
+            </div>
+          )}
+
            {error && <p className="text-red-400 text-xs">{error}</p>}
           <button
             onClick={handleSave}
-            disabled={!key.trim() || isLoading}
+            disabled={!canSave || isLoading}
             className="w-full py-3 bg-sky-500 hover:bg-sky-600 text-white font-bold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {isLoading ? (
               <>
                 <Loader2 className="w-4 h-4 animate-spin" />
-                Verifying Key...
+                {providerKind === 'gemini' ? 'Verifying Key...' : 'Checking...'}
               </>
             ) : (
               "Save & Continue"
@@ -79,13 +308,19 @@ const ApiKeyModal: React.FC<Props> = ({ onSave, onVerify }) => {
         </div>
 
         <div className="mt-6 text-xs text-slate-500">
+            {providerKind === 'gemini' && (
             <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="flex items-center justify-center gap-1.5 hover:text-sky-400 transition-colors">
                 Get your API key from Google AI Studio
                 <ExternalLink className="w-3 h-3" />
             </a>
+            )}
             <div className="flex items-center justify-center gap-2 mt-4">
                 <Shield className="w-3 h-3 text-slate-600" />
-                <span>Your key is stored only on this device.</span>
+                <span>
+                  {providerKind === 'gemini' ? "Your key is only ever sent to Google's API."
+                    : providerKind === 'openai' ? 'Your key and plan data are only sent to the server you enter.'
+                    : 'Nothing leaves this browser.'}
+                </span>
             </div>
         </div>
       </div>
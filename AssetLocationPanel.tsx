@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { AllocationItem, InvestmentAccount, TaxSummary } from '../types';
+import { optimizeAssetLocation } from '../services/assetLocation';
+import { ACCOUNT_TYPE_INFO, TAX_TREATMENT_LABELS } from '../services/accounts';
+import { MapPin, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  accounts: InvestmentAccount[];
+  allocations: AllocationItem[];
+  taxSummary: TaxSummary;
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const AssetLocationPanel: React.FC<Props> = ({ accounts, allocations, taxSummary, onAsk }) => {
+  const result = useMemo(() => optimizeAssetLocation(accounts, allocations, taxSummary), [accounts, allocations, taxSummary]);
+  const modelSuggestion = (ticker: string) => allocations.find(a => a.ticker.toUpperCase() === ticker)?.accountType;
+
+  if (result.totalValue <= 0) {
+    return (
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2"><MapPin className="w-5 h-5 text-sky-400" />Asset Location</h3>
+        <p className="text-sm text-slate-500 mt-2">Add account balances to see where each holding belongs.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-white flex items-center gap-2"><MapPin className="w-5 h-5 text-sky-400" />Asset Location</h3>
+        <p className="text-slate-400 text-xs mt-1">
+          Which account should hold what: income-heavy assets go where they aren't taxed each year, tax-efficient equity goes to brokerage.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Same mix in every account</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(result.naiveDrag)}<span className="text-sm text-slate-500">/yr</span></p>
+          <p className="text-xs text-slate-500">Tax on yield</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Optimized placement</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(result.optimizedDrag)}<span className="text-sm text-slate-500">/yr</span></p>
+          <p className="text-xs text-slate-500">Tax on yield</p>
+        </div>
+        <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg p-4">
+          <p className="text-xs text-slate-400 mb-1">Estimated savings</p>
+          <p className="text-2xl font-bold text-emerald-400">{formatCurrency(result.annualSavings)}<span className="text-sm text-emerald-600">/yr</span></p>
+          <p className="text-xs text-slate-500">Before compounding</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {result.accounts.map(account => (
+          <div key={account.accountId} className="border border-slate-800 rounded-lg overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-2 bg-slate-950">
+              <span className="text-sm font-semibold text-white">{account.label}</span>
+              <span className="text-xs text-slate-500">{TAX_TREATMENT_LABELS[ACCOUNT_TYPE_INFO[account.type].treatment]} · {formatCurrency(account.balance)}</span>
+            </div>
+            <table className="w-full text-xs">
+              <tbody className="divide-y divide-slate-800">
+                {account.holdings.map(h => {
+                  const suggested = modelSuggestion(h.ticker);
+                  const disagrees = suggested && suggested !== 'Any' && suggested !== account.type;
+                  return (
+                    <tr key={h.ticker}>
+                      <td className="px-4 py-2 text-white font-semibold w-24">{h.ticker}</td>
+                      <td className="px-4 py-2 text-right text-slate-300">{formatCurrency(h.dollars)}</td>
+                      <td className="px-4 py-2 text-right text-slate-500 w-20">{h.percentage.toFixed(1)}%</td>
+                      <td className="px-4 py-2 text-right text-[11px] w-48">
+                        {disagrees && <span className="text-amber-500/80">Plan suggested {suggested}</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Tax cost if held in brokerage</h4>
+        <div className="flex flex-wrap gap-2">
+          {[...result.costs].sort((a, b) => b.dragRate - a.dragRate).map(c => (
+            <span key={c.ticker} className="text-[11px] px-2 py-1 rounded bg-slate-800/50 border border-slate-800 text-slate-400">
+              {c.ticker} · {c.yield}% yield × {c.taxRate.toFixed(1)}% = {c.dragRate.toFixed(2)}%/yr
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onAsk(`An asset location analysis suggests: ${result.accounts.map(a => `${a.label}: ${a.holdings.map(h => h.ticker).join(', ') || 'nothing'}`).join('; ')}. It estimates ${formatCurrency(result.annualSavings)}/yr less tax than holding the same mix everywhere. How should I move toward this without triggering taxes?`)}
+        className="w-full text-xs text-center text-slate-500 hover:text-sky-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward how to get there
+      </button>
+    </div>
+  );
+};
+
+export default AssetLocationPanel;
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { AllocationItem, ContributionRebalanceOptions, Holding } from '../types';
+import { planContributionRebalance } from '../services/rebalancer';
+import { PiggyBank, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  holdings: Holding[];
+  allocations: AllocationItem[];
+  defaultMonthly: number;
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const OPTION_FIELDS: { key: keyof ContributionRebalanceOptions; label: string; step: number }[] = [
+  { key: 'monthlyContribution', label: 'Monthly new money ($)', step: 100 },
+  { key: 'idleCash', label: 'Idle cash, first month ($)', step: 500 },
+  { key: 'months', label: 'Months to show', step: 1 },
+  { key: 'driftTolerance', label: 'Drift tolerance (pts)', step: 0.5 },
+];
+
+const monthLabel = (offset: number) => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + offset);
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const ContributionSchedule: React.FC<Props> = ({ holdings, allocations, defaultMonthly, onAsk }) => {
+  const [options, setOptions] = useState<ContributionRebalanceOptions>({
+    monthlyContribution: defaultMonthly,
+    idleCash: 0,
+    months: 12,
+    driftTolerance: 5,
+  });
+  const plan = useMemo(() => planContributionRebalance(holdings, allocations, options), [holdings, allocations, options]);
+
+  const update = (key: keyof ContributionRebalanceOptions, value: string) => {
+    const parsed = Math.max(0, Number(value) || 0);
+    setOptions(prev => ({ ...prev, [key]: key === 'months' ? Math.min(120, Math.round(parsed)) : parsed }));
+  };
+
+  const toleranceText = plan.monthsToTolerance === null
+    ? `Drift stays above ${options.driftTolerance} points for the next 50 years at this rate. Add more new money or allow some sales.`
+    : plan.monthsToTolerance === 0
+      ? `Already within ${options.driftTolerance} points of every target.`
+      : `Within ${options.driftTolerance} points of every target by ${monthLabel(plan.monthsToTolerance)} (month ${plan.monthsToTolerance}).`;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-white flex items-center gap-2"><PiggyBank className="w-5 h-5 text-emerald-400" />New Money Only</h3>
+        <p className="text-slate-400 text-sm mt-1">Steer toward your targets by directing contributions, without selling anything.</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {OPTION_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">{field.label}</label>
+            <input
+              type="number"
+              step={field.step}
+              value={options[field.key]}
+              onChange={(e) => update(field.key, e.target.value)}
+              className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-emerald-500 outline-none text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className={`p-3 rounded-lg border text-sm ${plan.monthsToTolerance === null ? 'bg-amber-500/10 border-amber-500/20 text-amber-300' : 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300'}`}>
+        {toleranceText} <span className="text-slate-400">Largest drift today: {plan.maxDriftBefore.toFixed(1)} points.</span>
+      </div>
+
+      {plan.schedule.length > 0 ? (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto border border-slate-800 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-950 text-slate-500 uppercase tracking-wider text-[10px] sticky top-0">
+              <tr>
+                <th className="text-left px-3 py-2">Month</th>
+                <th className="text-left px-3 py-2">Buy</th>
+                <th className="text-right px-3 py-2">Max drift after</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {plan.schedule.map(m => (
+                <tr key={m.month} className={plan.monthsToTolerance === m.month ? 'bg-emerald-500/5' : ''}>
+                  <td className="px-3 py-2 text-slate-300 whitespace-nowrap">{monthLabel(m.month)}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-1.5">
+                      {m.buys.map(b => (
+                        <span key={b.ticker} className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-200">{b.ticker} {formatCurrency(b.dollars)}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className={`px-3 py-2 text-right ${m.maxDrift <= options.driftTolerance ? 'text-emerald-400' : 'text-slate-300'}`}>{m.maxDrift.toFixed(1)} pts</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">Enter a monthly amount to build a schedule.</p>
+      )}
+
+      <button
+        onClick={() => onAsk(`I'd rather not sell in my brokerage account. Investing ${formatCurrency(options.monthlyContribution)}/month only into underweight positions, my largest drift goes from ${plan.maxDriftBefore.toFixed(1)} points to within ${options.driftTolerance} points ${plan.monthsToTolerance === null ? 'never within 50 years' : `in ${plan.monthsToTolerance} months`}. Is that a reasonable approach for me?`)}
+        className="w-full text-xs text-center text-slate-500 hover:text-emerald-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward about this schedule
+      </button>
+    </div>
+  );
+};
+
+export default ContributionSchedule;
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Liability, PayoffStrategy } from '../types';
+import { simulatePayoff } from '../services/debtPlanner';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { CreditCard, MessageSquarePlus, PiggyBank, CalendarCheck, Flame } from 'lucide-react';
+
+interface Props {
+  liabilities: Liability[];
+  defaultExtra: number;
+  onAsk: (message: string) => void;
+}
+
+const DebtPayoffPlanner: React.FC<Props> = ({ liabilities, defaultExtra, onAsk }) => {
+  const [extra, setExtra] = useState<number>(defaultExtra);
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+  const results = useMemo(() => ({
+    avalanche: simulatePayoff(liabilities, extra, 'avalanche'),
+    snowball: simulatePayoff(liabilities, extra, 'snowball'),
+    minimum: simulatePayoff(liabilities, 0, 'minimum'),
+  }), [liabilities, extra]);
+
+  const selected = results[strategy];
+  const interestSaved = results.minimum.totalInterest - selected.totalInterest;
+
+  // Merge the three timelines by month, sampled to keep the chart light on long horizons.
+  const chartData = useMemo(() => {
+    const horizon = Math.max(results.avalanche.months, results.snowball.months, results.minimum.months);
+    const step = Math.max(1, Math.ceil(horizon / 120));
+    const points: { month: number; avalanche: number; snowball: number; minimum: number }[] = [];
+    for (let month = 0; month <= horizon; month += step) {
+      points.push({
+        month,
+        avalanche: results.avalanche.timeline[month]?.totalBalance ?? 0,
+        snowball: results.snowball.timeline[month]?.totalBalance ?? 0,
+        minimum: results.minimum.timeline[month]?.totalBalance ?? 0,
+      });
+    }
+    return points;
+  }, [results]);
+
+  const debtFreeDate = (months: number) => {
+    const date = new Date();
+    date.setMonth(date.getMonth() + months);
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-2"><CreditCard className="w-5 h-5 text-red-400" />Debt Payoff Planner</h3>
+          <p className="text-slate-400 text-sm mt-1">Calculated on your device from the debts you entered.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Extra per month</label>
+            <input
+              type="number"
+              value={extra}
+              onChange={(e) => setExtra(Math.max(0, Number(e.target.value) || 0))}
+              className="w-28 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-sm"
+            />
+          </div>
+          <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-1 self-end">
+            {(['avalanche', 'snowball'] as PayoffStrategy[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setStrategy(s)}
+                className={`px-3 py-1 text-xs rounded-md capitalize transition-colors ${strategy === s ? 'bg-red-500/20 text-red-400' : 'text-slate-500 hover:text-white'}`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 flex items-center gap-1.5 mb-1"><CalendarCheck className="w-3 h-3" /> Debt-free</p>
+          <p className="text-xl font-bold text-white">{selected.paidOff ? debtFreeDate(selected.months) : 'Never'}</p>
+          <p className="text-xs text-slate-500">{selected.paidOff ? `${selected.months} months` : 'Payments don\'t cover the interest'}</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 flex items-center gap-1.5 mb-1"><Flame className="w-3 h-3" /> Total interest</p>
+          <p className="text-xl font-bold text-white">{formatCurrency(selected.totalInterest)}</p>
+          <p className="text-xs text-slate-500">vs {formatCurrency(results.minimum.totalInterest)} paying minimums only</p>
+        </div>
+        <div className="bg-emerald-500/5 border border-emerald-500/20 rounded-lg p-4">
+          <p className="text-xs text-emerald-500 flex items-center gap-1.5 mb-1"><PiggyBank className="w-3 h-3" /> Interest saved</p>
+          <p className="text-xl font-bold text-emerald-400">{formatCurrency(Math.max(0, interestSaved))}</p>
+          <p className="text-xs text-slate-500">
+            {strategy === 'avalanche' ? 'Snowball' : 'Avalanche'} would cost {formatCurrency(Math.abs(results.avalanche.totalInterest - results.snowball.totalInterest))} {strategy === 'avalanche' ? 'more' : 'less'}
+          </p>
+        </div>
+      </div>
+
+      <div className="h-[260px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="month" stroke="#64748b" fontSize={12} tickMargin={10} tickFormatter={(m) => `${Math.round(m / 12)}y`} />
+            <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${Math.round(val / 1000)}k`} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+              labelFormatter={(m) => `Month ${m}`}
+              formatter={(val) => formatCurrency(Number(val))}
+            />
+            <Legend formatter={(value) => <span className="text-slate-300 text-xs">{value}</span>} />
+            <Line type="monotone" dataKey="avalanche" name="Avalanche" stroke="#ef4444" strokeWidth={strategy === 'avalanche' ? 2 : 1} dot={false} />
+            <Line type="monotone" dataKey="snowball" name="Snowball" stroke="#f59e0b" strokeWidth={strategy === 'snowball' ? 2 : 1} dot={false} />
+            <Line type="monotone" dataKey="minimum" name="Minimums only" stroke="#64748b" strokeDasharray="5 5" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">Payoff Order</h4>
+        <div className="space-y-2">
+          {selected.payoffOrder.map((item, idx) => (
+            <div key={item.id} className="flex items-center justify-between p-3 bg-slate-800/20 border border-slate-800 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="min-w-[24px] h-6 rounded-full bg-red-500/20 flex items-center justify-center text-xs font-bold text-red-400 border border-red-500/30">{idx + 1}</div>
+                <span className="text-white text-sm font-semibold">{item.label}</span>
+              </div>
+              <span className="text-xs text-slate-400">Paid off {debtFreeDate(item.month)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onAsk(`I'm comparing the ${strategy} debt payoff method with ${formatCurrency(extra)} extra per month. How should I balance paying down debt against investing?`)}
+        className="w-full text-xs text-center text-slate-500 hover:text-sky-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward about debt vs. investing
+      </button>
+    </div>
+  );
+};
+
+export default DebtPayoffPlanner;
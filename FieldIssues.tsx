@@ -0,0 +1,24 @@
+import React from 'react';
+import { ValidationIssue } from '../types';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  issues: ValidationIssue[];
+}
+
+/** Inline error/warning messages shown under a form field. */
+const FieldIssues: React.FC<Props> = ({ issues }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className="mt-1 space-y-0.5">
+      {issues.map((issue, idx) => (
+        <p key={idx} className={`text-[11px] flex items-start gap-1 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+          {issue.severity === 'error' ? <AlertCircle className="w-3 h-3 mt-px flex-shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-px flex-shrink-0" />}
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default FieldIssues;
@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { Holding, TaxSummary } from '../types';
+import { DEFAULT_MIN_HARVEST_LOSS, scanHarvestOpportunities } from '../services/harvesting';
+import { Scissors, AlertTriangle, ArrowRight, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  holdings: Holding[];
+  taxSummary: TaxSummary;
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const TERM_LABELS = {
+  short: 'Short-term',
+  long: 'Long-term',
+  unknown: 'Term unknown',
+};
+
+const HarvestScanner: React.FC<Props> = ({ holdings, taxSummary, onAsk }) => {
+  const [minLoss, setMinLoss] = useState(DEFAULT_MIN_HARVEST_LOSS);
+  const result = useMemo(() => scanHarvestOpportunities(holdings, taxSummary, minLoss), [holdings, taxSummary, minLoss]);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-2"><Scissors className="w-5 h-5 text-amber-400" />Tax-Loss Harvesting</h3>
+          <p className="text-slate-400 text-sm mt-1">Lots in taxable accounts trading below cost, with a similar fund to stay invested.</p>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Minimum loss ($)</label>
+          <input
+            type="number"
+            step={100}
+            value={minLoss}
+            onChange={(e) => setMinLoss(Math.max(0, Number(e.target.value) || 0))}
+            className="w-32 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-white focus:ring-1 focus:ring-amber-500 outline-none text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Harvestable losses</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(result.totalLoss)}</p>
+          <p className="text-xs text-slate-500">{result.opportunities.length} {result.opportunities.length === 1 ? 'lot' : 'lots'}</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Estimated tax saved against gains</p>
+          <p className="text-2xl font-bold text-emerald-400">{formatCurrency(result.totalTaxSaved)}</p>
+          <p className="text-xs text-slate-500">At {taxSummary.shortTermGainsRate}% short-term / {taxSummary.capitalGainsRate}% long-term</p>
+          <p className="text-xs text-slate-500">With no gains: {formatCurrency(result.incomeOffsetSaved)} this year at your {taxSummary.marginalRate}% income rate</p>
+        </div>
+      </div>
+
+      {result.opportunities.length > 0 ? (
+        <div className="space-y-3">
+          {result.opportunities.map(o => (
+            <div key={`${o.account}-${o.ticker}-${o.purchaseDate}`} className="p-4 bg-slate-800/20 border border-slate-800 rounded-lg space-y-2 group relative">
+              <button
+                onClick={() => onAsk(`Should I harvest the ${formatCurrency(o.loss)} loss on ${o.ticker}${o.replacement ? ` and switch to ${o.replacement}` : ''}? What are the risks?`)}
+                className="absolute top-2 right-2 p-1.5 bg-slate-800 text-slate-500 hover:text-amber-400 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+              >
+                <MessageSquarePlus className="w-3 h-3" />
+              </button>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                <span className="text-white font-bold">{o.ticker}</span>
+                <span className="text-red-400 text-sm">−{formatCurrency(o.loss)}</span>
+                <span className="text-xs text-slate-500">{o.quantity.toLocaleString()} sh · {TERM_LABELS[o.term]}{o.purchaseDate ? ` · bought ${o.purchaseDate}` : ''}</span>
+                <span className="text-xs text-emerald-400 ml-auto mr-6">saves ~{formatCurrency(o.taxSaved)}</span>
+              </div>
+              <p className="text-xs text-slate-500">{o.account}</p>
+              <p className="text-xs text-slate-300 flex items-center gap-1.5">
+                {o.replacement
+                  ? <>Sell {o.ticker} <ArrowRight className="w-3 h-3" /> buy <span className="font-semibold text-sky-400">{o.replacement}</span> (similar exposure, different index)</>
+                  : 'No bundled substitute: hold cash or a broad fund for 31 days before buying back.'}
+              </p>
+              {o.washSaleConflicts.length > 0 && (
+                <div className="text-xs bg-red-500/10 border border-red-500/20 rounded p-2 text-red-300 space-y-0.5">
+                  <p className="font-semibold flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Wash-sale conflict</p>
+                  {o.washSaleConflicts.map((c, i) => (
+                    <p key={i}>
+                      Bought {c.quantity.toLocaleString()} {c.ticker} on {c.purchaseDate} in {c.account}
+                      {c.permanent ? ': in a tax-advantaged account, so the loss would be lost for good.' : ': the loss would be deferred into that lot.'}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">No taxable lots with losses of at least {formatCurrency(minLoss)}.</p>
+      )}
+
+      <div className="text-[11px] text-slate-600 space-y-1">
+        {result.positionsWithoutBasis > 0 && (
+          <p className="text-amber-500/80">{result.positionsWithoutBasis} taxable {result.positionsWithoutBasis === 1 ? 'position has' : 'positions have'} no cost basis and {result.positionsWithoutBasis === 1 ? 'was' : 'were'} skipped.</p>
+        )}
+        <p>Tax saved per lot assumes gains of the same term to offset; otherwise losses reduce up to $3,000 of ordinary income a year and the rest carries forward. Avoid buying the sold fund in any account, including IRAs, Roths and dividend reinvestment, for 30 days after the sale.</p>
+      </div>
+    </div>
+  );
+};
+
+export default HarvestScanner;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { AccountType, Holding, PortfolioImportResult, TaxLot } from '../types';
+import { getHoldingCostBasis, getLotTerm, parseSpreadsheetPaste } from '../services/portfolioImport';
+import { ACCOUNT_TYPES } from '../services/accounts';
+import { Trash2, AlertTriangle, CheckCircle2, Plus, ChevronDown, Layers, ClipboardPaste } from 'lucide-react';
+
+interface Props {
+  holdings: Holding[];
+  imports: PortfolioImportResult[];
+  onChange: (holdings: Holding[]) => void;
+}
+
+const BROKER_LABELS: Record<string, string> = {
+  fidelity: 'Fidelity',
+  schwab: 'Schwab',
+  robinhood: 'Robinhood',
+  generic: 'Generic CSV',
+  ofx: 'OFX statement',
+};
+
+const EMPTY_HOLDING: Holding = { ticker: '', quantity: 0, marketValue: 0, account: 'Manual entry', accountType: 'Brokerage', source: 'manual' };
+
+const HoldingsGrid: React.FC<Props> = ({ holdings, imports, onChange }) => {
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [pasteMessage, setPasteMessage] = useState<string | null>(null);
+
+  const parseNumeric = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const updateHolding = (index: number, changes: Partial<Holding>) => {
+    onChange(holdings.map((h, i) => (i === index ? { ...h, ...changes } : h)));
+  };
+
+  const removeHolding = (index: number) => {
+    onChange(holdings.filter((_, i) => i !== index));
+    setExpandedRow(null);
+  };
+
+  const addHolding = () => {
+    onChange([...holdings, { ...EMPTY_HOLDING }]);
+  };
+
+  const updateLot = (holdingIndex: number, lotIndex: number, changes: Partial<TaxLot>) => {
+    const lots = (holdings[holdingIndex].lots || []).map((lot, i) => (i === lotIndex ? { ...lot, ...changes } : lot));
+    updateHolding(holdingIndex, { lots });
+  };
+
+  const addLot = (holdingIndex: number) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const lots = [...(holdings[holdingIndex].lots || []), { purchaseDate: today, quantity: 0, costBasis: 0 }];
+    updateHolding(holdingIndex, { lots });
+  };
+
+  const removeLot = (holdingIndex: number, lotIndex: number) => {
+    const lots = (holdings[holdingIndex].lots || []).filter((_, i) => i !== lotIndex);
+    updateHolding(holdingIndex, { lots: lots.length > 0 ? lots : undefined });
+  };
+
+  const handlePasteImport = () => {
+    const parsed = parseSpreadsheetPaste(pasteText);
+    if (parsed.length === 0) {
+      setPasteMessage('No rows with a recognisable ticker were found.');
+      return;
+    }
+    onChange([...holdings, ...parsed]);
+    setPasteMessage(`Added ${parsed.length} position${parsed.length === 1 ? '' : 's'}.`);
+    setPasteText('');
+    setShowPaste(false);
+  };
+
+  const total = holdings.reduce((sum, h) => sum + (h.marketValue || 0), 0);
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+  const cellClass = "w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-sky-500 rounded px-1.5 py-1 text-xs text-slate-200 outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+  return (
+    <div className="space-y-3">
+      {/* Per-file import status */}
+      {imports.map((result, idx) => (
+        <div key={idx} className={`flex items-start gap-2 text-xs px-3 py-2 rounded-lg border ${result.error ? 'bg-red-500/5 border-red-500/20 text-red-400' : result.broker ? 'bg-emerald-500/5 border-emerald-500/20 text-emerald-400' : 'bg-amber-500/5 border-amber-500/20 text-amber-400'}`}>
+          {result.broker && !result.error ? <CheckCircle2 className="w-3 h-3 mt-0.5 flex-shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+          <div>
+            <span className="font-semibold">{result.fileName}</span>
+            {result.error
+              ? <span className="text-slate-400"> — could not be imported: {result.error}</span>
+              : result.broker
+                ? <span className="text-slate-400"> — {BROKER_LABELS[result.broker]} detected, {result.holdings.length} position{result.holdings.length === 1 ? '' : 's'}{result.balances ? ', balances added to your capital profile' : ''}</span>
+                : <span className="text-slate-400"> — added as raw text</span>}
+            {result.warnings.map((w, i) => <p key={i} className="text-slate-500 mt-0.5">{w}</p>)}
+          </div>
+        </div>
+      ))}
+
+      <div className="border border-slate-800 rounded-lg overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-900 text-[10px] text-slate-500 uppercase tracking-wider">
+            <tr>
+              <th className="px-2 py-2 font-medium">Ticker</th>
+              <th className="px-2 py-2 font-medium">Quantity</th>
+              <th className="px-2 py-2 font-medium">Market Value</th>
+              <th className="px-2 py-2 font-medium">Cost Basis</th>
+              <th className="px-2 py-2 font-medium">Account</th>
+              <th className="px-2 py-2 font-medium">Type</th>
+              <th className="px-2 py-2 font-medium">Lots</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {holdings.length === 0 && (
+              <tr><td colSpan={8} className="px-3 py-4 text-center text-xs text-slate-600">No positions yet. Upload a file, paste from a spreadsheet, or add a row.</td></tr>
+            )}
+            {holdings.map((h, idx) => {
+              const hasLots = !!h.lots && h.lots.length > 0;
+              const isExpanded = expandedRow === idx;
+              return (
+                <React.Fragment key={idx}>
+                  <tr className="hover:bg-slate-900/50">
+                    <td className="px-1 py-1 w-24"><input value={h.ticker} placeholder="TICKER" onChange={(e) => updateHolding(idx, { ticker: e.target.value.toUpperCase() })} className={`${cellClass} font-bold`} /></td>
+                    <td className="px-1 py-1 w-24"><input type="number" value={h.quantity} onChange={(e) => updateHolding(idx, { quantity: parseNumeric(e.target.value) ?? 0 })} className={cellClass} /></td>
+                    <td className="px-1 py-1 w-28"><input type="number" value={h.marketValue} onChange={(e) => updateHolding(idx, { marketValue: parseNumeric(e.target.value) ?? 0 })} className={cellClass} /></td>
+                    <td className="px-1 py-1 w-28">
+                      {hasLots
+                        ? <span className="block px-1.5 py-1 text-xs text-slate-400" title="Sum of tax lots">{formatCurrency(getHoldingCostBasis(h) || 0)}</span>
+                        : <input type="number" value={h.costBasis ?? ''} placeholder="—" onChange={(e) => updateHolding(idx, { costBasis: parseNumeric(e.target.value) })} className={cellClass} />}
+                    </td>
+                    <td className="px-1 py-1"><input value={h.account} onChange={(e) => updateHolding(idx, { account: e.target.value })} className={`${cellClass} text-slate-400`} /></td>
+                    <td className="px-1 py-1 w-32">
+                      <select value={h.accountType || 'Brokerage'} onChange={(e) => updateHolding(idx, { accountType: e.target.value as AccountType })} className={`${cellClass} text-slate-400 bg-slate-950`}>
+                        {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-1 py-1 w-16">
+                      <button onClick={() => setExpandedRow(isExpanded ? null : idx)} className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-sky-400 transition-colors" title="Edit tax lots">
+                        <Layers className="w-3 h-3" />{h.lots?.length || 0}
+                        <ChevronDown className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                      </button>
+                    </td>
+                    <td className="px-1 py-1 w-8 text-right">
+                      <button onClick={() => removeHolding(idx)} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title={`Remove ${h.ticker || 'row'}`}>
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-slate-900/60">
+                      <td colSpan={8} className="px-4 py-3">
+                        <div className="space-y-2">
+                          <div className="grid grid-cols-[1fr_1fr_1fr_auto_auto] gap-2 text-[10px] text-slate-500 uppercase tracking-wider">
+                            <span>Purchase Date</span><span>Quantity</span><span>Cost Basis</span><span>Term</span><span></span>
+                          </div>
+                          {(h.lots || []).map((lot, lotIdx) => (
+                            <div key={lotIdx} className="grid grid-cols-[1fr_1fr_1fr_auto_auto] gap-2 items-center">
+                              <input type="date" value={lot.purchaseDate} onChange={(e) => updateLot(idx, lotIdx, { purchaseDate: e.target.value })} className={cellClass} />
+                              <input type="number" value={lot.quantity} onChange={(e) => updateLot(idx, lotIdx, { quantity: parseNumeric(e.target.value) ?? 0 })} className={cellClass} />
+                              <input type="number" value={lot.costBasis} onChange={(e) => updateLot(idx, lotIdx, { costBasis: parseNumeric(e.target.value) ?? 0 })} className={cellClass} />
+                              <span className={`text-[10px] px-1.5 py-0.5 rounded border uppercase ${getLotTerm(lot) === 'long' ? 'border-emerald-500/30 text-emerald-500' : 'border-amber-500/30 text-amber-500'}`}>{getLotTerm(lot)}</span>
+                              <button onClick={() => removeLot(idx, lotIdx)} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title="Remove lot">
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            </div>
+                          ))}
+                          {hasLots && Math.abs(h.lots!.reduce((sum, lot) => sum + lot.quantity, 0) - h.quantity) > 1e-6 && (
+                            <p className="text-[10px] text-amber-400 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Lot quantities don't add up to the position quantity.</p>
+                          )}
+                          <button onClick={() => addLot(idx)} className="flex items-center gap-1 text-xs text-slate-400 hover:text-sky-400 transition-colors">
+                            <Plus className="w-3 h-3" /> Add lot
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="flex justify-between items-center px-3 py-2 bg-slate-900 border-t border-slate-800 text-xs">
+          <div className="flex items-center gap-3">
+            <button onClick={addHolding} className="flex items-center gap-1 text-slate-400 hover:text-sky-400 transition-colors">
+              <Plus className="w-3 h-3" /> Add position
+            </button>
+            <button onClick={() => { setShowPaste(!showPaste); setPasteMessage(null); }} className="flex items-center gap-1 text-slate-400 hover:text-sky-400 transition-colors">
+              <ClipboardPaste className="w-3 h-3" /> Paste from spreadsheet
+            </button>
+          </div>
+          <span className="text-slate-300 font-semibold">
+            {holdings.length} position{holdings.length === 1 ? '' : 's'} · {formatCurrency(total)}
+          </span>
+        </div>
+      </div>
+
+      {showPaste && (
+        <div className="space-y-2">
+          <textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder={"Copy cells from Excel or Google Sheets and paste here.\nColumns: Ticker, Quantity, Market Value, Cost Basis, Purchase Date, Account"}
+            className="w-full h-24 bg-slate-900 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 focus:ring-1 focus:ring-sky-500 outline-none resize-none font-mono"
+          />
+          <button onClick={handlePasteImport} disabled={!pasteText.trim()} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs px-3 py-2 rounded-lg border border-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Add pasted rows
+          </button>
+        </div>
+      )}
+      {pasteMessage && <p className="text-xs text-slate-500">{pasteMessage}</p>}
+    </div>
+  );
+};
+
+export default HoldingsGrid;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { UserProfile } from '../types';
+import { getMemberBreakdown, getMemberName } from '../services/household';
+import { TAX_TREATMENT_LABELS } from '../services/accounts';
+import { Users, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  profile: UserProfile;
+  onAsk: (message: string) => void;
+}
+
+const TREATMENT_BAR_COLORS = {
+  taxable: 'bg-blue-500',
+  tax_deferred: 'bg-amber-500',
+  tax_free: 'bg-emerald-500',
+};
+
+const HouseholdBreakdown: React.FC<Props> = ({ profile, onAsk }) => {
+  const breakdown = getMemberBreakdown(profile);
+  const householdTotal = breakdown.reduce((sum, b) => sum + b.totalBalance, 0);
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+      <div className="p-4 bg-slate-950 border-b border-slate-800 flex items-center gap-2">
+        <Users className="w-5 h-5 text-purple-400" />
+        <h3 className="text-lg font-bold text-white">Household Breakdown</h3>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-800">
+        {breakdown.map(({ member, retirementYear, totalBalance, monthlyContribution, balancesByTreatment }) => {
+          const name = getMemberName(member);
+          const share = householdTotal > 0 ? (totalBalance / householdTotal) * 100 : 0;
+          return (
+            <div key={member.id} className="p-5 space-y-4 group relative">
+              <button
+                onClick={() => onAsk(`How does ${member.id === 'primary' ? 'my' : `${name}'s`} retirement in ${retirementYear} affect our household plan?`)}
+                className="absolute top-3 right-3 p-1.5 bg-slate-800 text-slate-500 hover:text-purple-400 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+              >
+                <MessageSquarePlus className="w-3 h-3" />
+              </button>
+              <div>
+                <p className="font-bold text-white">{name}</p>
+                <p className="text-xs text-slate-500">
+                  Age {Number(member.age) || '—'} · Retires {retirementYear} · {formatCurrency(Number(member.annualIncome) || 0)}/yr
+                </p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-white">{formatCurrency(totalBalance)}</p>
+                <p className="text-xs text-slate-500">{share.toFixed(0)}% of household investments · {formatCurrency(monthlyContribution)}/mo</p>
+              </div>
+              <div className="space-y-1.5">
+                <div className="flex h-2 rounded-full overflow-hidden bg-slate-800">
+                  {(Object.keys(balancesByTreatment) as (keyof typeof balancesByTreatment)[]).map(t => (
+                    totalBalance > 0 && <div key={t} className={TREATMENT_BAR_COLORS[t]} style={{ width: `${(balancesByTreatment[t] / totalBalance) * 100}%` }} />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-3 text-[10px] text-slate-400">
+                  {(Object.keys(balancesByTreatment) as (keyof typeof balancesByTreatment)[]).map(t => (
+                    <span key={t} className="flex items-center gap-1">
+                      <span className={`w-2 h-2 rounded-full ${TREATMENT_BAR_COLORS[t]}`} />
+                      {TAX_TREATMENT_LABELS[t]} {formatCurrency(balancesByTreatment[t])}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="px-5 py-3 text-[10px] text-slate-600 border-t border-slate-800">Joint accounts are split evenly between members.</p>
+    </div>
+  );
+};
+
+export default HouseholdBreakdown;
@@ -1,20 +1,62 @@
-import React, { useState, useRef } from 'react';
-import { UserProfile, DEFAULT_PROFILE } from '../types';
-import { Sliders, DollarSign, Target, Briefcase, TrendingUp, Wallet, PieChart, Upload, FileText, X, Globe, Sparkles } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { UserProfile, DEFAULT_PROFILE, PortfolioImportResult, HouseholdMember, Holding } from '../types';
+import { parseBrokerCsv } from '../services/portfolioImport';
+import { parseOfx } from '../services/ofxImport';
+import HoldingsGrid from './HoldingsGrid';
+import AccountsEditor from './AccountsEditor';
+import LiabilitiesEditor from './LiabilitiesEditor';
+import { createAccount } from '../services/accounts';
+import { createPartner } from '../services/household';
+import { validateProfile, hasBlockingErrors, getFieldIssues } from '../services/profileValidation';
+import FieldIssues from './FieldIssues';
+import { Sliders, DollarSign, Target, TrendingUp, Wallet, Upload, Users, UserPlus, FileText, X, Globe, Sparkles, AlertCircle, Save } from 'lucide-react';
 
 interface Props {
-  onGenerate: (profile: UserProfile) => void;
+  onGenerate: (profile: UserProfile, name: string) => void;
   isLoading: boolean;
+  initialProfile?: UserProfile; // Set when reopening a saved profile
+  profileName?: string;
+  onSaveProfile?: (profile: UserProfile, name: string) => void;
 }
 
-const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
-  const [profile, setProfile] = useState<UserProfile>(DEFAULT_PROFILE);
+const InputForm: React.FC<Props> = ({ onGenerate, isLoading, initialProfile, profileName = '', onSaveProfile }) => {
+  const [profile, setProfile] = useState<UserProfile>(initialProfile || DEFAULT_PROFILE);
+  const [name, setName] = useState(profileName);
+
+  // Follow renames made from the saved-profiles sidebar.
+  useEffect(() => setName(profileName), [profileName]);
+  const [imports, setImports] = useState<PortfolioImportResult[]>([]);
+  const importedCashRef = useRef<Record<string, number>>({}); // Cash each imported account has added, by account label
+  const [submitAttempted, setSubmitAttempted] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const allIssues = useMemo(() => validateProfile(profile), [profile]);
+  // Blank required fields are only flagged once the user tries to submit; invalid values show immediately.
+  const issues = submitAttempted ? allIssues : allIssues.filter(i => !i.required);
+  const errorCount = allIssues.filter(i => i.severity === 'error').length;
+  const issuesFor = (field: string) => getFieldIssues(issues, field);
+
+  const handleSubmit = () => {
+    setSubmitAttempted(true);
+    if (hasBlockingErrors(allIssues)) return;
+    onGenerate(profile, name);
+  };
+
   const handleChange = (field: keyof UserProfile, value: any) => {
     setProfile(prev => ({ ...prev, [field]: value }));
   };
 
+  const handlePartnerChange = (field: keyof HouseholdMember, value: string) => {
+    setProfile(prev => prev.partner ? { ...prev, partner: { ...prev.partner, [field]: value } } : prev);
+  };
+
+  const togglePartner = () => {
+    setProfile(prev => prev.partner
+      // Accounts can't belong to a partner who is no longer in the household.
+      ? { ...prev, partner: null, accounts: prev.accounts.map(a => ({ ...a, owner: 'primary' })) }
+      : { ...prev, partner: createPartner(), taxFilingStatus: 'married_joint' });
+  };
+
   const handleGoalToggle = (goal: string) => {
     setProfile(prev => {
       const goals = prev.goals.includes(goal)
@@ -42,23 +84,62 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
             const reader = new FileReader();
             reader.onload = (e) => {
                 const text = e.target?.result;
-                // Add a header so the AI knows which file this block came from
-                resolve(typeof text === 'string' ? `\n--- START OF IMPORT: ${file.name} ---\n${text}\n--- END OF IMPORT ---\n` : '');
+                resolve(typeof text === 'string' ? text : '');
             };
             reader.readAsText(file);
         });
     };
 
-    const promises = Array.from(files).map(readFile);
-    const contents = await Promise.all(promises);
-    const combinedContent = contents.join('\n');
+    const results: PortfolioImportResult[] = [];
+    const rawBlocks: string[] = [];
+    for (const file of Array.from(files)) {
+        const text = await readFile(file);
+        const lowerName = file.name.toLowerCase();
+        let result: PortfolioImportResult;
+        if (lowerName.endsWith('.csv')) {
+            result = parseBrokerCsv(text, file.name);
+        } else if (lowerName.endsWith('.ofx') || lowerName.endsWith('.qfx')) {
+            result = parseOfx(text, file.name);
+        } else {
+            result = { fileName: file.name, broker: null, holdings: [], warnings: [] };
+        }
+        if (!result.broker) {
+            // Unrecognised files still reach the AI as raw text, with a header so it knows the source.
+            rawBlocks.push(`\n--- START OF IMPORT: ${file.name} ---\n${text}\n--- END OF IMPORT ---\n`);
+        }
+        results.push(result);
+    }
 
-    setProfile(prev => ({
-        ...prev,
-        currentPortfolio: prev.currentPortfolio 
-            ? `${prev.currentPortfolio}\n${combinedContent}`
-            : combinedContent
-    }));
+    const importedHoldings = results.flatMap(r => r.holdings);
+    // A re-imported file replaces the positions the same source listed for each of its accounts.
+    const holdingKey = (h: Holding) => `${h.source}|${h.account}`;
+    const importedKeys = new Set(importedHoldings.map(holdingKey));
+    const combinedContent = rawBlocks.join('\n');
+    // OFX statements carry account totals. Cash is added to what the user entered, replacing
+    // what an earlier import of the same account added; each investment account either
+    // updates the account with the same label or is added as a new one.
+    const importedCash = Object.fromEntries(results.flatMap(r => r.balances?.cash || []).map(c => [c.label, c.balance]));
+    const cashChange = Object.entries(importedCash).reduce((sum, [label, balance]) => sum + balance - (importedCashRef.current[label] || 0), 0);
+    importedCashRef.current = { ...importedCashRef.current, ...importedCash };
+    const importedAccounts = results.flatMap(r => r.balances?.accounts || []);
+    setImports(prev => [...prev, ...results]);
+    setProfile(prev => {
+        // Drop untouched placeholder rows so imported accounts don't sit next to empty ones.
+        let accounts = prev.accounts.filter(a => importedAccounts.length === 0 || a.label || a.balance !== '' || a.monthlyContribution !== '');
+        for (const imported of importedAccounts) {
+            const balance = Math.round(imported.balance);
+            accounts = accounts.some(a => a.label === imported.label)
+                ? accounts.map(a => (a.label === imported.label ? { ...a, type: imported.type, balance } : a))
+                : [...accounts, { ...createAccount(imported.type, imported.label), balance }];
+        }
+        return {
+            ...prev,
+            cash: cashChange ? Math.round((Number(prev.cash) || 0) + cashChange) : prev.cash,
+            accounts,
+            holdings: [...prev.holdings.filter(h => !importedKeys.has(holdingKey(h))), ...importedHoldings],
+            currentPortfolio: [prev.currentPortfolio, combinedContent].filter(Boolean).join('\n')
+        };
+    });
 
     // Reset input to allow re-uploading the same files if needed
     if (fileInputRef.current) {
@@ -76,6 +157,23 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
             <Sliders className="w-5 h-5 text-sky-400" />
             Legacy Profile Setup
           </h2>
+          {onSaveProfile && (
+            <div className="flex items-center gap-2">
+              <input
+                value={name}
+                placeholder="Profile name"
+                onChange={(e) => setName(e.target.value)}
+                className="w-40 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs"
+              />
+              <button
+                onClick={() => onSaveProfile(profile, name)}
+                className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs px-3 py-1.5 rounded-lg border border-slate-700 transition-colors"
+              >
+                <Save className="w-3 h-3" />
+                Save
+              </button>
+            </div>
+          )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -91,6 +189,7 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
                     onChange={(e) => handleChange('age', e.target.value)}
                     className={inputClass}
                     />
+                    <FieldIssues issues={issuesFor('age')} />
                 </div>
                 <div>
                     <label className="block text-xs font-medium text-slate-400 mb-1">Retirement Age</label>
@@ -100,6 +199,7 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
                     onChange={(e) => handleChange('retirementAge', e.target.value)}
                     className={inputClass}
                     />
+                    <FieldIssues issues={issuesFor('retirementAge')} />
                 </div>
             </div>
             <div>
@@ -126,6 +226,7 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
                     className={iconInputClass}
                     />
                 </div>
+                <FieldIssues issues={issuesFor('annualIncome')} />
             </div>
             <div>
                 <label className="block text-xs font-medium text-slate-400 mb-1">Monthly New Contribution</label>
@@ -138,6 +239,49 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
                     className={iconInputClass}
                     />
                 </div>
+                <FieldIssues issues={issuesFor('monthlyContribution')} />
+            </div>
+
+            <div className="border-t border-slate-800 pt-4">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2"><Users className="w-3 h-3" /> Household</h3>
+                    <button
+                        onClick={togglePartner}
+                        className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-sky-400 transition-colors"
+                    >
+                        {profile.partner ? <><X className="w-3 h-3" /> Remove partner</> : <><UserPlus className="w-3 h-3" /> Add spouse / partner</>}
+                    </button>
+                </div>
+                {profile.partner ? (
+                    <div className="space-y-3 bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+                        <input
+                            value={profile.partner.name}
+                            placeholder="Partner's name"
+                            onChange={(e) => handlePartnerChange('name', e.target.value)}
+                            className={inputClass}
+                        />
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <label className="block text-[10px] font-medium text-slate-500 mb-1">Age</label>
+                                <input type="number" value={profile.partner.age} onChange={(e) => handlePartnerChange('age', e.target.value)} className={inputClass} />
+                                <FieldIssues issues={issuesFor('partner.age')} />
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-medium text-slate-500 mb-1">Retirement Age</label>
+                                <input type="number" value={profile.partner.retirementAge} onChange={(e) => handlePartnerChange('retirementAge', e.target.value)} className={inputClass} />
+                                <FieldIssues issues={issuesFor('partner.retirementAge')} />
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-medium text-slate-500 mb-1">Annual Income</label>
+                                <input type="number" value={profile.partner.annualIncome} onChange={(e) => handlePartnerChange('annualIncome', e.target.value)} className={inputClass} />
+                                <FieldIssues issues={issuesFor('partner.annualIncome')} />
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-slate-500">Assign each account to you, your partner, or both. Goals below are shared by the household.</p>
+                    </div>
+                ) : (
+                    <p className="text-xs text-slate-600">Planning as a couple? Add a partner to model two incomes, retirement dates and account owners.</p>
+                )}
             </div>
         </div>
 
@@ -157,30 +301,24 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
                         className={iconInputClass}
                         />
                     </div>
+                    <FieldIssues issues={issuesFor('cash')} />
                 </div>
                 <div>
-                    <label className="block text-xs font-medium text-blue-400 mb-1">Brokerage (Taxable Equity)</label>
-                    <div className="relative">
-                        <Briefcase className="absolute left-3 top-2.5 w-3 h-3 text-slate-500" />
-                        <input 
-                        type="number" 
-                        value={profile.brokerageBalance} 
-                        onChange={(e) => handleChange('brokerageBalance', e.target.value)}
-                        className={iconInputClass}
-                        />
-                    </div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Investment Accounts</label>
+                    <AccountsEditor
+                        accounts={profile.accounts}
+                        showOwner={!!profile.partner}
+                        issues={issues}
+                        onChange={(accounts) => handleChange('accounts', accounts)}
+                    />
                 </div>
                 <div>
-                    <label className="block text-xs font-medium text-amber-400 mb-1">Roth / 401k (Tax-Free Growth)</label>
-                    <div className="relative">
-                        <PieChart className="absolute left-3 top-2.5 w-3 h-3 text-slate-500" />
-                        <input 
-                        type="number" 
-                        value={profile.rothBalance} 
-                        onChange={(e) => handleChange('rothBalance', e.target.value)}
-                        className={iconInputClass}
-                        />
-                    </div>
+                    <label className="block text-xs font-medium text-red-400 mb-1">Debts & Liabilities</label>
+                    <LiabilitiesEditor
+                        liabilities={profile.liabilities}
+                        issues={issues}
+                        onChange={(liabilities) => handleChange('liabilities', liabilities)}
+                    />
                 </div>
            </div>
 
@@ -212,7 +350,7 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
             <div className="flex flex-col gap-4">
                 <div className="flex items-center justify-between">
                      <p className="text-xs text-slate-400">
-                        Paste your holdings or upload CSV exports from Fidelity, Robinhood, or Schwab.
+                        Enter your positions below, or upload CSV exports from Fidelity, Robinhood, or Schwab, or OFX/QFX statements from your bank or brokerage.
                      </p>
                      <button 
                         onClick={() => fileInputRef.current?.click()}
@@ -225,25 +363,31 @@ const InputForm: React.FC<Props> = ({ onGenerate, isLoading }) => {
                         type="file" 
                         ref={fileInputRef} 
                         onChange={handleFileUpload} 
-                        accept=".csv,.txt"
+                        accept=".csv,.txt,.ofx,.qfx"
                         className="hidden"
                         multiple
                      />
                 </div>
+                <HoldingsGrid
+                    holdings={profile.holdings}
+                    imports={imports}
+                    onChange={(holdings) => handleChange('holdings', holdings)}
+                />
+                <FieldIssues issues={issues.filter(i => i.field.startsWith('holdings.'))} />
                 <div className="relative">
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Other holdings or notes (free text)</label>
                     <textarea 
                         value={profile.currentPortfolio}
                         onChange={(e) => handleChange('currentPortfolio', e.target.value)}
                         placeholder="Example:
-AAPL 50 shares
-VTI $15,000
-100 shares of MSFT"
-                        className="w-full h-24 bg-slate-900 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 focus:ring-1 focus:ring-sky-500 outline-none resize-none font-mono"
+Company stock plan, ~200 shares of ACME
+Rental property equity ~$80,000"
+                        className="w-full h-20 bg-slate-900 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 focus:ring-1 focus:ring-sky-500 outline-none resize-none font-mono"
                     />
                     {profile.currentPortfolio && (
                          <button 
                             onClick={() => handleChange('currentPortfolio', '')}
-                            className="absolute top-2 right-2 p-1 bg-slate-800 rounded text-slate-500 hover:text-white"
+                            className="absolute top-7 right-2 p-1 bg-slate-800 rounded text-slate-500 hover:text-white"
                          >
                             <X className="w-3 h-3" />
                          </button>
@@ -256,7 +400,7 @@ VTI $15,000
       {/* Bottom: Goals & Geo */}
       <div className="mt-6 pt-6 border-t border-slate-800 grid grid-cols-1 md:grid-cols-2 gap-8">
         <div>
-            <label className="block text-xs font-medium text-slate-400 mb-3">Legacy Goals (Select all that apply)</label>
+            <label className="block text-xs font-medium text-slate-400 mb-3">{profile.partner ? 'Shared Household Goals' : 'Legacy Goals'} (Select all that apply)</label>
             <div className="flex flex-wrap gap-2">
             {['Beat Inflation', 'Max Dividends', 'Tax Efficiency', 'Early Retirement', 'Speculative Growth', 'Real Estate', 'Crypto Exposure'].map((goal) => (
                 <button
@@ -295,8 +439,14 @@ VTI $15,000
 
 
       <div className="mt-8">
+        {submitAttempted && errorCount > 0 && (
+          <p className="mb-3 text-sm text-red-400 flex items-center justify-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            Fix {errorCount} {errorCount === 1 ? 'issue' : 'issues'} above before building your plan.
+          </p>
+        )}
         <button
-          onClick={() => onGenerate(profile)}
+          onClick={handleSubmit}
           disabled={isLoading}
           className={`w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2 ${
             isLoading 
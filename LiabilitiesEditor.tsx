@@ -0,0 +1,79 @@
+import React from 'react';
+import { Liability, LiabilityType, ValidationIssue } from '../types';
+import { LIABILITY_TYPE_LABELS, createLiability } from '../services/debtPlanner';
+import FieldIssues from './FieldIssues';
+import { Plus, Trash2, DollarSign, Percent, CalendarClock } from 'lucide-react';
+
+interface Props {
+  liabilities: Liability[];
+  issues?: ValidationIssue[];
+  onChange: (liabilities: Liability[]) => void;
+}
+
+const LiabilitiesEditor: React.FC<Props> = ({ liabilities, issues = [], onChange }) => {
+  const updateLiability = (id: string, changes: Partial<Liability>) => {
+    onChange(liabilities.map(l => (l.id === id ? { ...l, ...changes } : l)));
+  };
+
+  const removeLiability = (id: string) => {
+    onChange(liabilities.filter(l => l.id !== id));
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg pl-7 pr-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+  return (
+    <div className="space-y-3">
+      {liabilities.map(liability => {
+        const isHighInterest = (Number(liability.apr) || 0) >= 8;
+        return (
+          <div key={liability.id} className={`bg-slate-950/50 border rounded-lg p-3 space-y-2 ${isHighInterest ? 'border-red-500/30' : 'border-slate-800'}`}>
+            <div className="flex items-center gap-2">
+              <select
+                value={liability.type}
+                onChange={(e) => updateLiability(liability.id, { type: e.target.value as LiabilityType })}
+                className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs font-medium text-red-400 focus:ring-1 focus:ring-sky-500 outline-none"
+              >
+                {(Object.keys(LIABILITY_TYPE_LABELS) as LiabilityType[]).map(type => <option key={type} value={type}>{LIABILITY_TYPE_LABELS[type]}</option>)}
+              </select>
+              <input
+                value={liability.label}
+                placeholder="Nickname (optional)"
+                onChange={(e) => updateLiability(liability.id, { label: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-slate-800 focus:border-sky-500 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none"
+              />
+              <button onClick={() => removeLiability(liability.id)} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title="Remove debt">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="relative">
+                <DollarSign className="absolute left-2.5 top-2 w-3 h-3 text-slate-500" />
+                <input type="number" value={liability.balance} placeholder="Balance" onChange={(e) => updateLiability(liability.id, { balance: e.target.value })} className={inputClass} />
+              </div>
+              <div className="relative">
+                <Percent className="absolute left-2.5 top-2 w-3 h-3 text-slate-500" />
+                <input type="number" value={liability.apr} placeholder="APR" onChange={(e) => updateLiability(liability.id, { apr: e.target.value })} className={inputClass} />
+              </div>
+              <div className="relative">
+                <CalendarClock className="absolute left-2.5 top-2 w-3 h-3 text-slate-500" />
+                <input type="number" value={liability.minimumPayment} placeholder="Min. / month" onChange={(e) => updateLiability(liability.id, { minimumPayment: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            <FieldIssues issues={issues.filter(i => i.field.startsWith(`liabilities.${liability.id}.`))} />
+            {isHighInterest && (
+              <p className="text-[10px] text-red-400">High-interest debt: paying this down is a guaranteed {Number(liability.apr)}% return.</p>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={() => onChange([...liabilities, createLiability()])}
+        className="w-full flex items-center justify-center gap-1.5 text-xs text-slate-400 hover:text-red-400 border border-dashed border-slate-800 hover:border-red-500/50 rounded-lg py-2 transition-colors"
+      >
+        <Plus className="w-3 h-3" /> Add debt
+      </button>
+    </div>
+  );
+};
+
+export default LiabilitiesEditor;
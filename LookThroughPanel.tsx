@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Holding } from '../types';
+import { DEFAULT_CONCENTRATION_LIMIT, analyzeLookThrough, getTopExposures } from '../services/lookThrough';
+import { Layers, AlertTriangle, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  holdings: Holding[];
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const LookThroughPanel: React.FC<Props> = ({ holdings, onAsk }) => {
+  const [limit, setLimit] = useState(DEFAULT_CONCENTRATION_LIMIT);
+  const result = useMemo(() => analyzeLookThrough(holdings, limit), [holdings, limit]);
+  const top = getTopExposures(result);
+  // Bars are scaled to the largest position so small exposures stay visible.
+  const maxTotal = top.length > 0 ? top[0].total : 0;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-2"><Layers className="w-5 h-5 text-purple-400" />Look-Through Exposure</h3>
+          <p className="text-slate-400 text-sm mt-1">Your funds expanded into the companies they hold, combined with stocks you own directly.</p>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Single-name limit (%)</label>
+          <input
+            type="number"
+            step={1}
+            value={limit}
+            onChange={(e) => setLimit(Math.max(0, Number(e.target.value) || 0))}
+            className="w-32 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-white focus:ring-1 focus:ring-purple-500 outline-none text-sm"
+          />
+        </div>
+      </div>
+
+      {result.concentrations.length > 0 && (
+        <div className="p-3 rounded-lg border bg-amber-500/10 border-amber-500/20 text-sm text-amber-300 space-y-1">
+          <p className="font-semibold flex items-center gap-1.5"><AlertTriangle className="w-4 h-4" /> Concentration</p>
+          {result.concentrations.map(e => (
+            <p key={e.ticker} className="text-xs">
+              {e.name} is {e.percent.toFixed(1)}% of your portfolio
+              {e.funds.length > 0 ? `, held through ${e.funds.join(', ')}${e.direct > 0 ? ' and directly' : ''}` : ''}.
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Top 10 effective positions</h4>
+          {top.length > 0 ? (
+            <div className="space-y-2">
+              {top.map(e => (
+                <div key={e.ticker} className="text-xs">
+                  <div className="flex justify-between mb-1">
+                    <span className="text-white font-semibold">{e.ticker} <span className="text-slate-500 font-normal">{e.name}</span></span>
+                    <span className={e.percent > limit ? 'text-amber-400' : 'text-slate-300'}>{e.percent.toFixed(1)}% · {formatCurrency(e.total)}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden flex">
+                    <div className="h-full bg-sky-500" style={{ width: `${(e.direct / maxTotal) * 100}%` }} />
+                    <div className="h-full bg-purple-500" style={{ width: `${(e.viaFunds / maxTotal) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+              <div className="flex gap-4 text-[10px] text-slate-500 pt-1">
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-sky-500" />Held directly</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-purple-500" />Through funds</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">No single-company exposure found.</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Fund overlap</h4>
+          {result.overlaps.length > 0 ? (
+            <div className="space-y-2">
+              {result.overlaps.map(o => (
+                <div key={`${o.fundA}-${o.fundB}`} className="p-3 bg-slate-800/20 border border-slate-800 rounded-lg">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-white font-semibold">{o.fundA} + {o.fundB}</span>
+                    <span className={o.overlap >= 50 ? 'text-amber-400' : 'text-slate-300'}>{o.overlap}% shared</span>
+                  </div>
+                  <p className="text-[11px] text-slate-500 mt-1">
+                    {o.overlap === 100 ? 'Same index: these are effectively one fund.' : `Both hold ${o.sharedNames.slice(0, 5).join(', ')}${o.sharedNames.length > 5 ? ` and ${o.sharedNames.length - 5} more` : ''}.`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">{result.expandedFunds.length > 1 ? 'Your funds barely overlap.' : 'Overlap needs two or more funds from the dataset.'}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="text-[11px] text-slate-600 space-y-1">
+        <p>
+          Uses the top holdings of {result.expandedFunds.length > 0 ? result.expandedFunds.join(', ') : 'known funds'} as of {result.asOf}; the rest of each fund is treated as diversified.
+          {result.notExpanded.length > 0 ? ` Not expanded: ${result.notExpanded.join(', ')}.` : ''} Other tickers not in the dataset are treated as individual stocks.
+        </p>
+      </div>
+
+      <button
+        onClick={() => onAsk(`Looking through my funds, my largest single-company exposures are ${top.slice(0, 5).map(e => `${e.ticker} ${e.percent.toFixed(1)}%`).join(', ')}${result.overlaps.length > 0 ? `, and ${result.overlaps[0].fundA} and ${result.overlaps[0].fundB} overlap by ${result.overlaps[0].overlap}%` : ''}. Am I less diversified than I think, and what should I change?`)}
+        className="w-full text-xs text-center text-slate-500 hover:text-purple-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward about overlap
+      </button>
+    </div>
+  );
+};
+
+export default LookThroughPanel;
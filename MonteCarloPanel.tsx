@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { AllocationItem, MonteCarloResult, UserProfile } from '../types';
+import { ASSET_CLASS_ASSUMPTIONS, AssetClass, DEFAULT_PATH_COUNT, getAssetClassWeights, getDefaultTargetBalance, runMonteCarloInWorker } from '../services/monteCarlo';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dices, Target, Loader2, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  profile: UserProfile;
+  allocations: AllocationItem[];
+  inflation: number;
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const FanTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-lg shadow-xl text-sm">
+        <p className="text-slate-300 mb-2 font-bold">{label} · age {point.age}</p>
+        <p className="text-emerald-400">90th percentile: {formatCurrency(point.p90)}</p>
+        <p className="text-sky-400">Median: {formatCurrency(point.p50)}</p>
+        <p className="text-amber-400">10th percentile: {formatCurrency(point.p10)}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const MonteCarloPanel: React.FC<Props> = ({ profile, allocations, inflation, onAsk }) => {
+  const [targetBalance, setTargetBalance] = useState(() => getDefaultTargetBalance(profile));
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsRunning(true);
+    setError(null);
+    const run = runMonteCarloInWorker({ profile, allocations, inflation, targetBalance });
+    run.result
+      .then(r => { if (!cancelled) setResult(r); })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The simulation failed.');
+      })
+      .finally(() => { if (!cancelled) setIsRunning(false); });
+    return () => {
+      cancelled = true;
+      run.cancel();
+    };
+  }, [profile, allocations, inflation, targetBalance]);
+
+  const weights = getAssetClassWeights(allocations);
+  const chartData = result?.percentiles.map(p => ({ ...p, band: [p.p10, p.p90] })) || [];
+  const final = result?.percentiles[result.percentiles.length - 1];
+  const probability = result ? Math.round(result.successProbability * 100) : null;
+  const probabilityColor = probability === null ? 'text-slate-500' : probability >= 80 ? 'text-emerald-400' : probability >= 50 ? 'text-amber-400' : 'text-red-400';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Dices className="w-5 h-5 text-sky-400" />Range of Outcomes</h3>
+          <p className="text-slate-400 text-xs mt-1">
+            {DEFAULT_PATH_COUNT.toLocaleString()} simulated markets for your target allocation, calculated on your device.
+          </p>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Target at retirement (today's $)</label>
+          <input
+            type="number"
+            value={targetBalance}
+            onChange={(e) => setTargetBalance(Math.max(0, Number(e.target.value) || 0))}
+            className="w-40 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 flex items-center gap-1.5 mb-1"><Target className="w-3 h-3" /> Chance of reaching target</p>
+          <p className={`text-2xl font-bold ${probabilityColor}`}>
+            {probability === null ? <span className="text-slate-600">...</span> : `${probability}%`}
+          </p>
+          <p className="text-xs text-slate-500">{formatCurrency(targetBalance)} after {inflation}% inflation</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Median outcome{final ? ` (${final.year})` : ''}</p>
+          <p className="text-2xl font-bold text-white">{final ? formatCurrency(final.p50) : <span className="text-slate-600">...</span>}</p>
+          <p className="text-xs text-slate-500">Half of simulations end above this</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Poor markets (10th percentile)</p>
+          <p className="text-2xl font-bold text-amber-400">{final ? formatCurrency(final.p10) : <span className="text-slate-600">...</span>}</p>
+          <p className="text-xs text-slate-500">9 in 10 simulations end above this</p>
+        </div>
+      </div>
+
+      <div className="h-[280px] relative">
+        {isRunning && (
+          <div className="absolute inset-0 flex items-center justify-center z-10 pointer-events-none">
+            <Loader2 className="w-6 h-6 text-sky-400 animate-spin" />
+          </div>
+        )}
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickMargin={10} />
+              <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${Math.round(val / 1000)}k`} />
+              <Tooltip content={<FanTooltip />} />
+              <Area type="monotone" dataKey="band" stroke="none" fill="#0ea5e9" fillOpacity={0.15} name="10th–90th percentile" />
+              <Line type="monotone" dataKey="p90" stroke="#10b981" strokeWidth={1} dot={false} name="90th percentile" />
+              <Line type="monotone" dataKey="p50" stroke="#0ea5e9" strokeWidth={2} dot={false} name="Median" />
+              <Line type="monotone" dataKey="p10" stroke="#f59e0b" strokeWidth={1} dot={false} name="10th percentile" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Assumptions by asset class</h4>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(weights) as AssetClass[]).map(type => (
+            <span key={type} className="text-[11px] px-2 py-1 rounded bg-slate-800/50 border border-slate-800 text-slate-400">
+              {type} {Math.round((weights[type] || 0) * 100)}% · {ASSET_CLASS_ASSUMPTIONS[type].expectedReturn}% return, {ASSET_CLASS_ASSUMPTIONS[type].volatility}% volatility
+            </span>
+          ))}
+        </div>
+        {result && (
+          <p className="text-[11px] text-slate-500 mt-2">
+            Portfolio: {result.portfolioReturn.toFixed(1)}% expected return, {result.portfolioVolatility.toFixed(1)}% volatility, rebalanced yearly.
+          </p>
+        )}
+      </div>
+
+      <button
+        onClick={() => onAsk(`My Monte Carlo simulation shows a ${probability}% chance of reaching ${formatCurrency(targetBalance)} (today's dollars) by retirement. What are the most effective levers to improve those odds?`)}
+        disabled={probability === null}
+        className="w-full text-xs text-center text-slate-500 hover:text-sky-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors disabled:opacity-50"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward how to improve my odds
+      </button>
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { DEFAULT_PROJECTION_ASSUMPTIONS, ProjectionAssumptions, ProjectionData } from '../types';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+
+interface Props {
+  projections: ProjectionData[];
+  assumptions: ProjectionAssumptions;
+  onAssumptionsChange?: (assumptions: ProjectionAssumptions) => void; // Omitted when the inputs aren't available to recompute
+  retirementMarkers: { label: string; year: number }[];
+  taxDrag?: number; // Percentage points taken off brokerage returns, when known
+}
+
+const ASSUMPTION_FIELDS: { key: keyof ProjectionAssumptions; label: string }[] = [
+  { key: 'conservativeReturn', label: 'Conservative' },
+  { key: 'expectedReturn', label: 'Expected' },
+  { key: 'aggressiveReturn', label: 'Aggressive' },
+  { key: 'inflation', label: 'Inflation' },
+];
+
+const toDrafts = (assumptions: ProjectionAssumptions) =>
+  Object.fromEntries(ASSUMPTION_FIELDS.map(f => [f.key, String(assumptions[f.key])])) as Record<keyof ProjectionAssumptions, string>;
+
+const ProjectionTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-lg shadow-xl">
+        <p className="text-slate-300 mb-2 font-bold">{label} · age {payload[0].payload.age}</p>
+        {payload.map((entry: any, index: number) => (
+          <p key={index} className="text-sm" style={{ color: entry.color }}>
+            {entry.name}: ${entry.value.toLocaleString()}
+          </p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+const ProjectionPanel: React.FC<Props> = ({ projections, assumptions, onAssumptionsChange, retirementMarkers, taxDrag }) => {
+  const [showAssumptions, setShowAssumptions] = useState(false);
+  // Raw input text, so a half-typed value like "6." doesn't get overwritten mid-edit.
+  const [drafts, setDrafts] = useState<Record<keyof ProjectionAssumptions, string>>(() => toDrafts(assumptions));
+
+  const updateAssumption = (key: keyof ProjectionAssumptions, value: string) => {
+    setDrafts(prev => ({ ...prev, [key]: value }));
+    const parsed = Number(value);
+    if (!onAssumptionsChange || value.trim() === '' || !Number.isFinite(parsed)) return;
+    onAssumptionsChange({ ...assumptions, [key]: Math.min(30, Math.max(-10, parsed)) });
+  };
+
+  const resetAssumptions = () => {
+    setDrafts(toDrafts(DEFAULT_PROJECTION_ASSUMPTIONS));
+    onAssumptionsChange?.(DEFAULT_PROJECTION_ASSUMPTIONS);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold text-white">Legacy Wealth Projection</h3>
+        {onAssumptionsChange && (
+          <button
+            onClick={() => setShowAssumptions(s => !s)}
+            className={`flex items-center gap-1.5 text-xs transition-colors ${showAssumptions ? 'text-sky-400' : 'text-slate-500 hover:text-sky-400'}`}
+          >
+            <SlidersHorizontal className="w-3 h-3" /> Assumptions
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Calculated on your device: {assumptions.conservativeReturn}% / {assumptions.expectedReturn}% / {assumptions.aggressiveReturn}% annual returns, {assumptions.inflation}% inflation{taxDrag ? `, brokerage growth reduced by ${taxDrag.toFixed(2)}% for dividend tax` : ''}.
+      </p>
+
+      {showAssumptions && onAssumptionsChange && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4 p-3 bg-slate-950/50 border border-slate-800 rounded-lg">
+          {ASSUMPTION_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">{field.label} %</label>
+              <input
+                type="number"
+                step="0.1"
+                value={drafts[field.key]}
+                onChange={(e) => updateAssumption(field.key, e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs"
+              />
+            </div>
+          ))}
+          <button
+            onClick={resetAssumptions}
+            className="self-end flex items-center justify-center gap-1 text-xs text-slate-500 hover:text-white py-1.5"
+          >
+            <RotateCcw className="w-3 h-3" /> Defaults
+          </button>
+        </div>
+      )}
+
+      <div className="h-[320px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={projections} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <defs>
+              <linearGradient id="colorExpected" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.3}/><stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/></linearGradient>
+              <linearGradient id="colorInf" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/><stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/></linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickMargin={10} />
+            <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${Math.round(val / 1000)}k`} />
+            <Tooltip content={<ProjectionTooltip />} />
+            <Area type="monotone" dataKey="aggressive" stroke="#10b981" fill="transparent" strokeWidth={1} name="Aggressive"/>
+            <Area type="monotone" dataKey="expected" stroke="#0ea5e9" fillOpacity={1} fill="url(#colorExpected)" name="Expected Growth" strokeWidth={2}/>
+            <Area type="monotone" dataKey="conservative" stroke="#f59e0b" fill="transparent" strokeWidth={1} name="Conservative"/>
+            <Area type="monotone" dataKey="inflationAdjusted" stroke="#3b82f6" fillOpacity={1} fill="url(#colorInf)" name="Real Value (Inf. Adj.)" strokeWidth={2}/>
+            <Area type="monotone" dataKey="totalContributions" stroke="#64748b" fill="transparent" strokeDasharray="5 5" name="Total Principal"/>
+            {retirementMarkers.map(marker => (
+              <ReferenceLine key={marker.label} x={marker.year} stroke="#a855f7" strokeDasharray="3 3" label={{ value: marker.label, fill: '#a855f7', fontSize: 10, position: 'insideTopLeft' }} />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectionPanel;
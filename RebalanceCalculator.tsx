@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { AllocationItem, Holding, RebalanceOptions, TaxSummary } from '../types';
+import { DEFAULT_REBALANCE_OPTIONS, calculateRebalance } from '../services/rebalancer';
+import { estimateSellTax } from '../services/tax';
+import { Calculator, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  holdings: Holding[];
+  allocations: AllocationItem[];
+  taxSummary: TaxSummary | null;
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const OPTION_FIELDS: { key: keyof RebalanceOptions; label: string; step: number }[] = [
+  { key: 'driftTolerance', label: 'Drift tolerance (pts)', step: 0.5 },
+  { key: 'minTradeSize', label: 'Minimum trade ($)', step: 50 },
+  { key: 'cashToInvest', label: 'New cash to invest ($)', step: 500 },
+];
+
+const RebalanceCalculator: React.FC<Props> = ({ holdings, allocations, taxSummary, onAsk }) => {
+  const [options, setOptions] = useState<RebalanceOptions>(DEFAULT_REBALANCE_OPTIONS);
+  const result = useMemo(() => calculateRebalance(holdings, allocations, options), [holdings, allocations, options]);
+
+  const targetFor = (ticker: string) => result.targets.find(t => t.ticker === ticker)?.percentage || 0;
+  const afterFor = (ticker: string) => result.after.find(a => a.ticker === ticker)?.percentage || 0;
+  const totalTax = result.orders.reduce((sum, order) => {
+    const estimate = taxSummary ? estimateSellTax(order, holdings, taxSummary) : null;
+    return sum + (estimate && estimate.basisKnown ? estimate.tax : 0);
+  }, 0);
+  const sold = result.orders.filter(o => o.action === 'SELL').reduce((sum, o) => sum + (o.dollars || 0), 0);
+  const bought = result.orders.filter(o => o.action === 'BUY').reduce((sum, o) => sum + (o.dollars || 0), 0);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-white flex items-center gap-2"><Calculator className="w-5 h-5 text-purple-400" />Calculated Rebalance</h3>
+        <p className="text-slate-400 text-sm mt-1">Exact trades from your imported holdings to the target allocation, calculated on your device.</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {OPTION_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">{field.label}</label>
+            <input
+              type="number"
+              step={field.step}
+              value={options[field.key]}
+              onChange={(e) => setOptions(prev => ({ ...prev, [field.key]: Math.max(0, Number(e.target.value) || 0) }))}
+              className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-purple-500 outline-none text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500">Largest drift</p>
+          <p className="text-white font-bold text-lg">{result.maxDriftBefore.toFixed(1)} → {result.maxDriftAfter.toFixed(1)} pts</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500">Sell / Buy</p>
+          <p className="text-white font-bold text-lg">{formatCurrency(sold)} / {formatCurrency(bought)}</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500">Cash left over</p>
+          <p className="text-white font-bold text-lg">{formatCurrency(result.leftoverCash)}</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500">Est. federal tax</p>
+          <p className={`font-bold text-lg ${totalTax > 0 ? 'text-amber-400' : 'text-white'}`}>{taxSummary ? formatCurrency(totalTax) : '—'}</p>
+        </div>
+      </div>
+
+      {result.orders.length > 0 ? (
+        <div className="space-y-2">
+          {result.orders.map(order => (
+            <div key={`${order.action}-${order.ticker}`} className="flex items-center gap-4 p-3 bg-slate-800/20 border border-slate-800 rounded-lg">
+              <div className={`w-12 h-10 rounded-lg flex items-center justify-center font-bold text-xs border ${order.action === 'BUY' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-red-500/10 border-red-500/30 text-red-400'}`}>{order.action}</div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2"><span className="text-white font-bold">{order.ticker}</span><span className="text-slate-300 text-sm">{order.amount}</span></div>
+                <p className="text-xs text-slate-500">{order.reason}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-emerald-400">Every position is within {options.driftTolerance} points of its target. No trades needed.</p>
+      )}
+
+      <div>
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Before → after</h4>
+        <div className="space-y-3">
+          {result.before.map(b => (
+            <div key={b.ticker}>
+              <div className="flex justify-between text-xs mb-1">
+                <span className="text-white font-semibold">{b.ticker}</span>
+                <span className="text-slate-400">{b.percentage.toFixed(1)}% → <span className="text-white">{afterFor(b.ticker).toFixed(1)}%</span> <span className="text-slate-600">(target {targetFor(b.ticker).toFixed(1)}%)</span></span>
+              </div>
+              <div className="relative space-y-0.5">
+                <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                  <div className="h-full bg-slate-500" style={{ width: `${Math.min(100, b.percentage)}%` }} />
+                </div>
+                <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                  <div className="h-full bg-purple-500" style={{ width: `${Math.min(100, afterFor(b.ticker))}%` }} />
+                </div>
+                <div className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-white" style={{ left: `${Math.min(100, targetFor(b.ticker))}%` }} title="Target" />
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-600 mt-3">Grey: today. Purple: after these trades. White tick: target.</p>
+      </div>
+
+      <button
+        onClick={() => onAsk(`My calculated rebalance sells ${formatCurrency(sold)} and buys ${formatCurrency(bought)}, bringing my largest drift from ${result.maxDriftBefore.toFixed(1)} to ${result.maxDriftAfter.toFixed(1)} points${taxSummary ? ` for about ${formatCurrency(totalTax)} in federal tax` : ''}. Orders: ${result.orders.map(o => `${o.action} ${o.ticker} ${o.amount}`).join('; ') || 'none'}. Is now a good time to place these trades?`)}
+        className="w-full text-xs text-center text-slate-500 hover:text-purple-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward about these trades
+      </button>
+    </div>
+  );
+};
+
+export default RebalanceCalculator;
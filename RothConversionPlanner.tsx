@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectionAssumptions, ProjectionData, RothConversionSettings, TaxSummary, UserProfile } from '../types';
+import {
+  DEFAULT_ROTH_CONVERSION_SETTINGS, compareContributionTypes, estimateRetirementTaxRate, getRetirementAccountContributions,
+  planRothConversions,
+} from '../services/rothPlanner';
+import { FEDERAL_TAX_TABLES } from '../services/tax';
+import { getRetirementBuckets } from '../services/withdrawal';
+import { getProjectionHorizon } from '../services/projection';
+import { ComposedChart, LineChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ArrowRightLeft, Scale, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  profile: UserProfile;
+  summary: TaxSummary;
+  projections: ProjectionData[];
+  assumptions: ProjectionAssumptions;
+  onAsk: (message: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const ChartTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-lg shadow-xl text-sm">
+        <p className="text-slate-300 mb-2 font-bold">{label} · age {payload[0].payload.age}</p>
+        {payload.map((entry: any, index: number) => (
+          <p key={index} style={{ color: entry.color }}>{entry.name}: {formatCurrency(entry.value)}</p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs';
+
+const RothConversionPlanner: React.FC<Props> = ({ profile, summary, projections, assumptions, onAsk }) => {
+  const [settings, setSettings] = useState<RothConversionSettings>(DEFAULT_ROTH_CONVERSION_SETTINGS);
+  const [annualContribution, setAnnualContribution] = useState(() =>
+    getRetirementAccountContributions(profile) || FEDERAL_TAX_TABLES[profile.taxFilingStatus].contributionLimits.ira
+  );
+  const [retirementRateOverride, setRetirementRateOverride] = useState<number | null>(null);
+
+  const brackets = FEDERAL_TAX_TABLES[profile.taxFilingStatus].ordinary.filter(b => b.upTo !== null);
+  const horizon = getProjectionHorizon(profile);
+  const startYear = projections.length > 0 ? projections[projections.length - 1].year : new Date().getFullYear() + horizon;
+  const startBuckets = useMemo(() => getRetirementBuckets(profile, projections, assumptions), [profile, projections, assumptions]);
+
+  const ladder = useMemo(
+    () => planRothConversions(profile, startBuckets, startYear, settings, assumptions),
+    [profile, startBuckets, startYear, settings, assumptions]
+  );
+  const estimatedRetirementRate = estimateRetirementTaxRate(profile, startBuckets.tax_deferred, horizon, settings.otherIncome, assumptions);
+  const retirementRate = retirementRateOverride ?? Math.round(estimatedRetirementRate * 10) / 10;
+  const comparison = useMemo(
+    () => compareContributionTypes(profile, summary, annualContribution, retirementRate, assumptions),
+    [profile, summary, annualContribution, retirementRate, assumptions]
+  );
+
+  const update = <K extends keyof RothConversionSettings>(key: K, value: RothConversionSettings[K]) =>
+    setSettings(prev => ({ ...prev, [key]: value }));
+
+  const rothWins = comparison.rothAfterTax > comparison.traditionalAfterTax;
+  const difference = Math.abs(comparison.rothAfterTax - comparison.traditionalAfterTax);
+
+  const askAboutScenario = () => onAsk(
+    `Explain my Roth scenario. Converting from ${startYear} up to the top of the ${settings.targetBracket}% bracket until age ${settings.endAge} moves ${formatCurrency(ladder.totalConverted)} to Roth for ${formatCurrency(ladder.totalTax)} in federal tax (${ladder.averageRate.toFixed(1)}% average)` +
+    `${ladder.bridgeYears > 0 ? `, with ${ladder.bridgeYears} years to bridge before the first rung is reachable` : ''}. ` +
+    `For new contributions of ${formatCurrency(annualContribution)}/yr, Traditional ends at ${formatCurrency(comparison.traditionalAfterTax)} after tax and Roth at ${formatCurrency(comparison.rothAfterTax)}, ` +
+    `assuming ${comparison.currentRate}% today and ${retirementRate}% in retirement. Is this a sensible plan for me?`
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-8">
+      <section className="space-y-5">
+        <div>
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><ArrowRightLeft className="w-5 h-5 text-emerald-400" />Roth Conversion Ladder</h3>
+          <p className="text-slate-400 text-xs mt-1">
+            Converts Traditional savings to Roth each year from {startYear}, filling taxable income up to the top of a bracket. Projected Traditional balance at retirement: {formatCurrency(startBuckets.tax_deferred)}.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Fill up to bracket</label>
+            <select value={settings.targetBracket} onChange={(e) => update('targetBracket', Number(e.target.value))} className={inputClass}>
+              {brackets.map(b => <option key={b.rate} value={b.rate}>{b.rate}%</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Other income (today's $)</label>
+            <input type="number" value={settings.otherIncome} onChange={(e) => update('otherIncome', Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Convert until age</label>
+            <input type="number" value={settings.endAge} onChange={(e) => update('endAge', Math.min(100, Math.max(0, Number(e.target.value) || 0)))} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+            <p className="text-xs text-slate-500 mb-1">Converted</p>
+            <p className="text-2xl font-bold text-emerald-400">{formatCurrency(ladder.totalConverted)}</p>
+            <p className="text-xs text-slate-500">{formatCurrency(ladder.remainingTraditional)} left in Traditional at {settings.endAge}</p>
+          </div>
+          <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+            <p className="text-xs text-slate-500 mb-1">Federal tax on conversions</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(ladder.totalTax)}</p>
+            <p className="text-xs text-slate-500">{ladder.averageRate.toFixed(1)}% average vs. {summary.marginalRate}% marginal today</p>
+          </div>
+          <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+            <p className="text-xs text-slate-500 mb-1">Bridge before first rung</p>
+            <p className="text-2xl font-bold text-amber-400">{ladder.bridgeYears} {ladder.bridgeYears === 1 ? 'year' : 'years'}</p>
+            <p className="text-xs text-slate-500">{ladder.bridgeYears > 0 ? 'Spending must come from cash or brokerage' : 'Conversions are reachable right away'}</p>
+          </div>
+        </div>
+
+        {ladder.years.length > 0 ? (
+          <>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={ladder.years} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                  <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickMargin={10} />
+                  <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${Math.round(val / 1000)}k`} />
+                  <Tooltip content={<ChartTooltip />} />
+                  <Legend formatter={(value) => <span className="text-slate-300 text-xs">{value}</span>} />
+                  <Bar dataKey="conversion" fill="#10b981" fillOpacity={0.5} name="Conversion" />
+                  <Line type="monotone" dataKey="traditionalBalance" stroke="#a855f7" strokeWidth={2} dot={false} name="Traditional" />
+                  <Line type="monotone" dataKey="rothBalance" stroke="#0ea5e9" strokeWidth={2} dot={false} name="Roth" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto max-h-72 overflow-y-auto border border-slate-800 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-950 text-slate-500 uppercase tracking-wider text-[10px] sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2">Year</th>
+                    <th className="text-left px-3 py-2">Age</th>
+                    <th className="text-right px-3 py-2">Convert</th>
+                    <th className="text-right px-3 py-2">Tax</th>
+                    <th className="text-right px-3 py-2">Rate</th>
+                    <th className="text-right px-3 py-2">Reachable</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {ladder.years.map(y => (
+                    <tr key={y.year} className="text-slate-300">
+                      <td className="px-3 py-1.5">{y.year}</td>
+                      <td className="px-3 py-1.5">{y.age}</td>
+                      <td className="px-3 py-1.5 text-right text-emerald-400">{formatCurrency(y.conversion)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatCurrency(y.tax)}</td>
+                      <td className="px-3 py-1.5 text-right">{y.effectiveRate.toFixed(1)}%</td>
+                      <td className="px-3 py-1.5 text-right">{y.accessibleYear}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500">No conversions: there is no Traditional balance to convert before age {settings.endAge}.</p>
+        )}
+      </section>
+
+      <section className="space-y-5 pt-6 border-t border-slate-800">
+        <div>
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Scale className="w-5 h-5 text-sky-400" />Traditional vs. Roth Contributions</h3>
+          <p className="text-slate-400 text-xs mt-1">
+            Same take-home cost either way: the Traditional route invests its tax saving in a brokerage account.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Annual contribution</label>
+            <input type="number" value={annualContribution} onChange={(e) => setAnnualContribution(Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Retirement tax rate %</label>
+            <input
+              type="number"
+              step="0.1"
+              value={retirementRate}
+              onChange={(e) => setRetirementRateOverride(Math.min(50, Math.max(0, Number(e.target.value) || 0)))}
+              className={inputClass}
+            />
+            {retirementRateOverride !== null && (
+              <button onClick={() => setRetirementRateOverride(null)} className="text-[10px] text-slate-500 hover:text-sky-400 mt-1">
+                Use estimate ({estimatedRetirementRate.toFixed(1)}%)
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className={`border rounded-lg p-4 ${!rothWins ? 'bg-purple-500/10 border-purple-500/30' : 'bg-slate-950/50 border-slate-800'}`}>
+            <p className="text-xs text-slate-500 mb-1">Traditional, after tax</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(comparison.traditionalAfterTax)}</p>
+            <p className="text-xs text-slate-500">Deducts {comparison.currentRate}% now, pays {comparison.retirementRate}% later</p>
+          </div>
+          <div className={`border rounded-lg p-4 ${rothWins ? 'bg-sky-500/10 border-sky-500/30' : 'bg-slate-950/50 border-slate-800'}`}>
+            <p className="text-xs text-slate-500 mb-1">Roth, after tax</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(comparison.rothAfterTax)}</p>
+            <p className="text-xs text-slate-500">Taxed now, tax-free later</p>
+          </div>
+        </div>
+        <p className="text-xs text-slate-400">
+          {difference < 1 ? 'Both routes end up the same.' : `${rothWins ? 'Roth' : 'Traditional'} comes out ${formatCurrency(difference)} ahead by ${comparison.series.length > 0 ? comparison.series[comparison.series.length - 1].year : startYear}.`}
+        </p>
+
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={comparison.series} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickMargin={10} />
+              <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${Math.round(val / 1000)}k`} />
+              <Tooltip content={<ChartTooltip />} />
+              <Legend formatter={(value) => <span className="text-slate-300 text-xs">{value}</span>} />
+              <Line type="monotone" dataKey="traditional" stroke="#a855f7" strokeWidth={2} dot={false} name="Traditional (after tax)" />
+              <Line type="monotone" dataKey="roth" stroke="#0ea5e9" strokeWidth={2} dot={false} name="Roth" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </section>
+
+      <button
+        onClick={askAboutScenario}
+        className="w-full text-xs text-center text-slate-500 hover:text-emerald-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward to explain this scenario
+      </button>
+    </div>
+  );
+};
+
+export default RothConversionPlanner;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { SavedPlan, SavedProfile } from '../types';
+import { SavedStoreName } from '../services/storage';
+import { getStorageMode } from '../services/vault';
+import { X, FolderOpen, UserCircle, FileText, Copy, Pencil, Trash2, Check, Plus } from 'lucide-react';
+
+interface Props {
+  profiles: SavedProfile[];
+  plans: SavedPlan[];
+  activeProfileId: string | null;
+  error: string | null;
+  onClose: () => void;
+  onNewProfile: () => void;
+  onOpenProfile: (saved: SavedProfile) => void;
+  onOpenPlan: (saved: SavedPlan) => void;
+  onRename: (store: SavedStoreName, id: string, name: string) => void;
+  onDuplicate: (store: SavedStoreName, id: string) => void;
+  onDelete: (store: SavedStoreName, id: string) => void;
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const SavedSidebar: React.FC<Props> = ({
+  profiles, plans, activeProfileId, error, onClose, onNewProfile, onOpenProfile, onOpenPlan, onRename, onDuplicate, onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+    setConfirmDeleteId(null);
+  };
+
+  const commitRename = (store: SavedStoreName, id: string) => {
+    if (draftName.trim()) onRename(store, id, draftName);
+    setEditingId(null);
+  };
+
+  const renderItem = (store: SavedStoreName, id: string, name: string, subtitle: string, isActive: boolean, onOpen: () => void) => (
+    <div
+      key={id}
+      className={`group p-3 rounded-lg border transition-colors ${isActive ? 'bg-sky-500/10 border-sky-500/30' : 'bg-slate-950/50 border-slate-800 hover:border-slate-700'}`}
+    >
+      {editingId === id ? (
+        <div className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename(store, id);
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:ring-1 focus:ring-sky-500 outline-none"
+          />
+          <button onClick={() => commitRename(store, id)} className="p-1 text-emerald-400 hover:text-emerald-300" title="Save name">
+            <Check className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button onClick={onOpen} className="w-full text-left">
+          <p className="text-sm font-semibold text-white truncate">{name}</p>
+          <p className="text-[11px] text-slate-500">{subtitle}</p>
+        </button>
+      )}
+      <div className="flex items-center gap-1 mt-2">
+        {confirmDeleteId === id ? (
+          <>
+            <span className="text-[11px] text-red-400 mr-auto">Delete permanently?</span>
+            <button onClick={() => { onDelete(store, id); setConfirmDeleteId(null); }} className="text-[11px] px-2 py-0.5 rounded bg-red-500/20 text-red-400 hover:bg-red-500/30">Delete</button>
+            <button onClick={() => setConfirmDeleteId(null)} className="text-[11px] px-2 py-0.5 rounded text-slate-400 hover:text-white">Cancel</button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => startRename(id, name)} className="p-1 text-slate-600 hover:text-sky-400 transition-colors" title="Rename">
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button onClick={() => onDuplicate(store, id)} className="p-1 text-slate-600 hover:text-sky-400 transition-colors" title="Duplicate">
+              <Copy className="w-3 h-3" />
+            </button>
+            <button onClick={() => { setConfirmDeleteId(id); setEditingId(null); }} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title="Delete">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex">
+      <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm" onClick={onClose} />
+      <aside className="relative w-80 max-w-[85vw] h-full bg-slate-900 border-r border-slate-800 shadow-2xl flex flex-col animate-in slide-in-from-left">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2"><FolderOpen className="w-5 h-5 text-sky-400" />Saved</h2>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {error && <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-2">{error}</p>}
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5"><UserCircle className="w-3 h-3" /> Profiles</h3>
+              <button onClick={onNewProfile} className="flex items-center gap-1 text-xs text-slate-400 hover:text-sky-400 transition-colors">
+                <Plus className="w-3 h-3" /> New
+              </button>
+            </div>
+            <div className="space-y-2">
+              {profiles.length === 0 && <p className="text-xs text-slate-600">No saved profiles yet. Name a profile in the setup form and save it.</p>}
+              {profiles.map(p => renderItem('profiles', p.id, p.name, `Updated ${formatTimestamp(p.updatedAt)}`, p.id === activeProfileId, () => onOpenProfile(p)))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5 mb-2"><FileText className="w-3 h-3" /> Plan History</h3>
+            <div className="space-y-2">
+              {plans.length === 0 && <p className="text-xs text-slate-600">Plans you generate are kept here automatically.</p>}
+              {plans.map(p => renderItem('plans', p.id, p.name, formatTimestamp(p.createdAt), false, () => onOpenPlan(p)))}
+            </div>
+          </section>
+        </div>
+
+        <p className="p-4 border-t border-slate-800 text-[11px] text-slate-600">
+          {getStorageMode() === 'session'
+            ? 'Session-only mode: nothing here is written to disk and it is gone when you close the tab.'
+            : `Stored only in this browser${getStorageMode() === 'vault' ? ', encrypted with your passphrase' : ''}. Clearing site data removes them.`}
+        </p>
+      </aside>
+    </div>
+  );
+};
+
+export default SavedSidebar;
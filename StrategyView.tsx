@@ -1,21 +1,57 @@
-import React, { useState, useRef } from 'react';
-import { InvestmentPlan } from '../types';
-import { 
-  AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  PieChart, Pie, Cell, Legend 
-} from 'recharts';
-import { ExternalLink, TrendingUp, ShieldCheck, DollarSign, Activity, Globe, Scale, FileText, ArrowUpRight, ArrowDownRight, Minus, CheckCircle2, Crosshair, AlertOctagon, Zap, Building2, Wallet, MessageSquarePlus, Info, ChevronDown, BarChartHorizontal, Users } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { InvestmentPlan, AllocationItem, LLMProvider, PlanSection, PlanSectionState, UserProfile, ProjectionAssumptions, DEFAULT_PROJECTION_ASSUMPTIONS } from '../types';
+import { Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
+import { ExternalLink, TrendingUp, ShieldCheck, DollarSign, Activity, Globe, Scale, FileText, ArrowUpRight, ArrowDownRight, Minus, CheckCircle2, Crosshair, AlertOctagon, Zap, Building2, Wallet, MessageSquarePlus, Info, ChevronDown, BarChartHorizontal, Users, CreditCard, Landmark, AlertTriangle, Loader2, RotateCcw } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import AgentChat, { AgentChatRef } from './AgentChat';
+import { ACCOUNT_TYPE_INFO } from '../services/accounts';
+import DebtPayoffPlanner from './DebtPayoffPlanner';
+import HouseholdBreakdown from './HouseholdBreakdown';
+import ProjectionPanel from './ProjectionPanel';
+import MonteCarloPanel from './MonteCarloPanel';
+import WithdrawalPlanner from './WithdrawalPlanner';
+import TaxPicture from './TaxPicture';
+import RothConversionPlanner from './RothConversionPlanner';
+import RebalanceCalculator from './RebalanceCalculator';
+import ContributionSchedule from './ContributionSchedule';
+import HarvestScanner from './HarvestScanner';
+import AssetLocationPanel from './AssetLocationPanel';
+import LookThroughPanel from './LookThroughPanel';
+import { projectWealth } from '../services/projection';
+import { calculateTax, estimateSellTax, getBrokerageTaxDrag } from '../services/tax';
+import { getHouseholdMembers, getMemberName, getRetirementYear } from '../services/household';
+import { PLAN_SECTION_LABELS } from '../services/geminiService';
+import { LLM_ERROR_HELP } from '../services/llmErrors';
 
 interface Props {
   plan: Partial<InvestmentPlan>;
+  profile: UserProfile | null; // The profile the plan was generated from
   isLoading: boolean;
-  apiKey: string; // Add apiKey prop
+  isStreaming?: boolean; // Sections are still arriving; the chat waits for the finished plan
+  provider: LLMProvider; // Used by the advisor chat
+  onRetrySection?: (section: PlanSection) => void; // Regenerates one stage of the plan
 }
 
 const COLORS = ['#0ea5e9', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#ec4899'];
 
+const TREATMENT_BADGE_CLASSES = {
+  taxable: 'border-blue-500/30 text-blue-500',
+  tax_deferred: 'border-amber-500/30 text-amber-500',
+  tax_free: 'border-emerald-500/30 text-emerald-500',
+};
+
+const AccountBadge: React.FC<{ accountType: AllocationItem['accountType'] }> = ({ accountType }) => {
+  const info = accountType !== 'Any' ? ACCOUNT_TYPE_INFO[accountType] : undefined;
+  return (
+    <span
+      className={`text-[10px] px-1.5 py-0.5 rounded border uppercase tracking-wider ${info ? TREATMENT_BADGE_CLASSES[info.treatment] : 'border-slate-500/30 text-slate-400'}`}
+      title={info?.description || 'Suitable for any account'}
+    >
+      {info ? info.shortLabel : 'ANY ACCOUNT'}
+    </span>
+  );
+};
+
 const SkeletonLoader: React.FC<{className?: string}> = ({ className = 'h-32' }) => (
     <div className={`bg-slate-900 border border-slate-800 rounded-xl p-6 animate-pulse ${className}`}>
         <div className="h-4 bg-slate-700 rounded w-1/3 mb-4"></div>
@@ -27,26 +63,51 @@ const SkeletonLoader: React.FC<{className?: string}> = ({ className = 'h-32' })
     </div>
 );
 
-const CustomTooltip = ({ active, payload, label }: any) => {
-  if (active && payload && payload.length) {
-    return (
-      <div className="bg-slate-900 border border-slate-700 p-3 rounded-lg shadow-xl">
-        <p className="text-slate-300 mb-2 font-bold">{label}</p>
-        {payload.map((entry: any, index: number) => (
-          <p key={index} className="text-sm" style={{ color: entry.color }}>
-            {entry.name}: ${entry.value.toLocaleString()}
-          </p>
-        ))}
-      </div>
-    );
-  }
-  return null;
+type RebalanceStrategy = 'model' | 'calculated' | 'contributions';
+
+const REBALANCE_STRATEGY_LABELS: Record<RebalanceStrategy, string> = {
+  model: 'Tactical orders',
+  calculated: 'Sell & buy to target',
+  contributions: 'New money only',
 };
 
-const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'market' | 'rebalance'>('overview');
+const StrategyView: React.FC<Props> = ({ plan, profile, isLoading, isStreaming = false, provider, onRetrySection }) => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'projection' | 'tax' | 'market' | 'rebalance' | 'debt'>('overview');
+  const [rebalanceStrategy, setRebalanceStrategy] = useState<RebalanceStrategy>(plan.portfolioAnalysis ? 'model' : 'calculated');
   const [expandedHolding, setExpandedHolding] = useState<string | null>(null);
   const chatRef = useRef<AgentChatRef>(null);
+  const [assumptions, setAssumptions] = useState<ProjectionAssumptions>(plan.projectionAssumptions || DEFAULT_PROJECTION_ASSUMPTIONS);
+
+  // The model's orders arrive after mount when the plan streams in; default to them once they do.
+  const hasModelOrders = !!plan.portfolioAnalysis;
+  useEffect(() => {
+    setRebalanceStrategy(hasModelOrders ? 'model' : 'calculated');
+  }, [hasModelOrders]);
+
+  // A different plan (e.g. reopened from history) brings its own assumptions.
+  useEffect(() => {
+    setAssumptions(plan.projectionAssumptions || DEFAULT_PROJECTION_ASSUMPTIONS);
+  }, [plan.projectionAssumptions]);
+
+  // Recomputed locally whenever the assumptions change; plans without a profile show what was saved.
+  const projections = useMemo(
+    () => (profile ? projectWealth(profile, assumptions) : plan.projections || []),
+    [profile, assumptions, plan.projections]
+  );
+  const taxSummary = useMemo(() => (profile ? calculateTax(profile) : null), [profile]);
+  const hasHoldings = !!profile && profile.holdings.length > 0;
+  const canRebalance = hasHoldings && !!plan.allocations && plan.allocations.length > 0;
+  const finalProjection = projections.length > 0 ? projections[projections.length - 1] : null;
+  // While the plan is first generated every stage is running; after that, a running stage is a retry.
+  const sectionIssues = (Object.entries(plan.sections || {}) as [PlanSection, PlanSectionState][])
+    .filter(([, state]) => state.status === 'failed' || (state.status === 'running' && !isStreaming));
+  const isRetrying = sectionIssues.some(([, state]) => state.status === 'running');
+  const retirementMarkers = profile
+    ? getHouseholdMembers(profile).map(m => ({
+        label: profile.partner ? `${getMemberName(m)} retires` : 'Retirement',
+        year: getRetirementYear(m),
+      }))
+    : [];
 
   const formatCurrency = (val: number) => 
     new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
@@ -68,6 +129,8 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
     }
   };
 
+  const debts = profile?.liabilities.filter(l => (Number(l.balance) || 0) > 0) || [];
+
   if (isLoading) {
     return (
         <div className="space-y-8 animate-pulse">
@@ -106,7 +169,7 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                               <div className="flex-1 pr-4">
                                   <div className="flex items-center gap-2">
                                       <span className="font-bold text-white">{item.ticker}</span>
-                                      <span className={`text-[10px] px-1.5 py-0.5 rounded border uppercase tracking-wider ${item.accountType === 'Roth IRA' ? 'border-emerald-500/30 text-emerald-500' : 'border-blue-500/30 text-blue-500'}`}>{item.accountType === 'Roth IRA' ? 'ROTH' : 'BROKERAGE'}</span>
+                                      <AccountBadge accountType={item.accountType} />
                                   </div>
                                   <p className="text-xs text-slate-400">{item.name}</p>
                               </div>
@@ -162,9 +225,77 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700 pb-20">
+
+      {/* Failed sections: shown with a retry while the rest of the plan renders normally */}
+      {sectionIssues.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 space-y-3">
+          {sectionIssues.map(([section, state]) => (
+            <div key={section} className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <h3 className="text-sm font-bold text-red-300 flex items-center gap-2">
+                  <AlertOctagon className="w-4 h-4" />
+                  {state.status === 'running' ? `Retrying ${PLAN_SECTION_LABELS[section]}...`
+                    : state.errorKind === 'cancelled' ? `${PLAN_SECTION_LABELS[section]} was cancelled`
+                    : `${PLAN_SECTION_LABELS[section]} failed${state.errorKind && state.errorKind !== 'unknown' ? `: ${LLM_ERROR_HELP[state.errorKind].title}` : ''}`}
+                </h3>
+                {state.status === 'failed' && state.errorKind !== 'cancelled' && (
+                  <p className="text-xs text-slate-400 mt-1">
+                    {state.errorKind ? LLM_ERROR_HELP[state.errorKind].remedy : state.error}
+                    {state.error && state.errorKind && <span className="block text-slate-500 truncate" title={state.error}>{state.error}</span>}
+                  </p>
+                )}
+              </div>
+              {onRetrySection && (
+                <button
+                  onClick={() => onRetrySection(section)}
+                  disabled={isRetrying}
+                  className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-red-500/30 text-red-300 hover:bg-red-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+                >
+                  {state.status === 'running' ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                  Retry
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Data Quality: repairs made while validating the model's output */}
+      {plan.dataQualityWarnings && plan.dataQualityWarnings.length > 0 && (
+        <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4">
+          <h3 className="text-sm font-bold text-amber-300 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Data quality
+          </h3>
+          <p className="text-xs text-slate-400 mt-1">Parts of the AI's response were incomplete or inconsistent and were repaired before display. Double-check the affected positions.</p>
+          <ul className="mt-2 space-y-0.5 text-xs text-amber-200/80 list-disc list-inside">
+            {plan.dataQualityWarnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
       
       {/* High Level Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className={`grid grid-cols-1 md:grid-cols-3 gap-4 ${plan.netWorth ? 'lg:grid-cols-4' : ''}`}>
+        {plan.netWorth && (
+          <div className="bg-slate-900 border border-slate-800 p-5 rounded-xl relative overflow-hidden group">
+            <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
+              <Scale className="w-16 h-16 text-emerald-400" />
+            </div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-emerald-500/10 rounded-lg">
+                <Scale className="w-5 h-5 text-emerald-400" />
+              </div>
+              <h3 className="text-slate-400 text-sm font-medium">Net Worth</h3>
+            </div>
+            <p className={`text-2xl font-bold ${plan.netWorth.netWorth < 0 ? 'text-red-400' : 'text-white'}`}>
+              {formatCurrency(plan.netWorth.netWorth)}
+            </p>
+            <span className="text-xs text-emerald-500">
+              {formatCurrency(plan.netWorth.totalAssets)} assets − {formatCurrency(plan.netWorth.totalLiabilities)} debt
+            </span>
+          </div>
+        )}
+
         <div className="bg-slate-900 border border-slate-800 p-5 rounded-xl relative overflow-hidden group">
           <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
             <DollarSign className="w-16 h-16 text-sky-400" />
@@ -173,12 +304,12 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
             <div className="p-2 bg-sky-500/10 rounded-lg">
               <DollarSign className="w-5 h-5 text-sky-400" />
             </div>
-            <h3 className="text-slate-400 text-sm font-medium">Projected Value (30y)</h3>
+            <h3 className="text-slate-400 text-sm font-medium">Projected Value{finalProjection ? ` (${finalProjection.year})` : ''}</h3>
           </div>
           <p className="text-2xl font-bold text-white">
-            {plan.projections && plan.projections.length > 0 ? formatCurrency(plan.projections[plan.projections.length-1].expected) : <span className="text-slate-600">...</span>}
+            {finalProjection ? formatCurrency(finalProjection.expected) : <span className="text-slate-600">...</span>}
           </p>
-          <span className="text-xs text-sky-500">Expected Growth (7% avg)</span>
+          <span className="text-xs text-sky-500">Expected Growth ({assumptions.expectedReturn}% avg)</span>
         </div>
         
         <div className="bg-slate-900 border border-slate-800 p-5 rounded-xl relative overflow-hidden group">
@@ -192,7 +323,7 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
             <h3 className="text-slate-400 text-sm font-medium">Purchasing Power</h3>
           </div>
           <p className="text-2xl font-bold text-white">
-             {plan.projections && plan.projections.length > 0 ? formatCurrency(plan.projections[plan.projections.length-1].inflationAdjusted) : <span className="text-slate-600">...</span>}
+             {finalProjection ? formatCurrency(finalProjection.inflationAdjusted) : <span className="text-slate-600">...</span>}
           </p>
           <span className="text-xs text-blue-500">Real Value (Inf. Adj.)</span>
         </div>
@@ -222,6 +353,7 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                 <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
                     <Activity className="w-5 h-5 text-slate-400" />
                     Executive Summary
+                    {isStreaming && <span className="text-xs font-normal text-sky-400 animate-pulse">Writing...</span>}
                 </h2>
                 <div className="prose prose-invert prose-sky max-w-none text-slate-300 text-sm leading-relaxed">
                     <ReactMarkdown>{plan.summary}</ReactMarkdown>
@@ -240,7 +372,7 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                 </div>
                 )}
             </div>
-        ) : <SkeletonLoader className="h-64"/>}
+        ) : plan.sections?.summary?.status !== 'failed' && <SkeletonLoader className="h-64"/>}
 
 
        {/* Tabs */}
@@ -251,6 +383,22 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
         >
           Strategy & Allocation
         </button>
+        <button 
+          onClick={() => setActiveTab('projection')}
+          className={`pb-3 text-sm font-medium transition-colors whitespace-nowrap flex items-center gap-2 ${activeTab === 'projection' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-white'}`}
+        >
+          <TrendingUp className="w-4 h-4" />
+          Projections
+        </button>
+        {profile && (
+          <button 
+            onClick={() => setActiveTab('tax')}
+            className={`pb-3 text-sm font-medium transition-colors whitespace-nowrap flex items-center gap-2 ${activeTab === 'tax' ? 'text-amber-400 border-b-2 border-amber-400' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Landmark className="w-4 h-4" />
+            Tax Planning
+          </button>
+        )}
         <button 
           onClick={() => setActiveTab('market')}
           className={`pb-3 text-sm font-medium transition-colors whitespace-nowrap flex items-center gap-2 ${activeTab === 'market' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-white'}`}
@@ -258,7 +406,7 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
           <Globe className="w-4 h-4" />
           Market Intelligence
         </button>
-         {plan.portfolioAnalysis && (
+         {(plan.portfolioAnalysis || hasHoldings || plan.sections?.portfolio?.status === 'failed') && (
             <button 
             onClick={() => setActiveTab('rebalance')}
             className={`pb-3 text-sm font-medium transition-colors whitespace-nowrap flex items-center gap-2 ${activeTab === 'rebalance' ? 'text-purple-400 border-b-2 border-purple-400' : 'text-slate-400 hover:text-white'}`}
@@ -267,6 +415,15 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
             Portfolio Analysis
             </button>
          )}
+         {debts.length > 0 && (
+            <button 
+            onClick={() => setActiveTab('debt')}
+            className={`pb-3 text-sm font-medium transition-colors whitespace-nowrap flex items-center gap-2 ${activeTab === 'debt' ? 'text-red-400 border-b-2 border-red-400' : 'text-slate-400 hover:text-white'}`}
+            >
+            <CreditCard className="w-4 h-4" />
+            Debt Payoff
+            </button>
+         )}
       </div>
 
       {/* Main Dashboard Layout */}
@@ -275,27 +432,8 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start animate-in fade-in">
             {/* Primary Column */}
             <div className="lg:col-span-2 space-y-8">
-              <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl h-[400px]">
-                    <h3 className="text-lg font-bold text-white mb-6">Legacy Wealth Projection</h3>
-                    {plan.projections && plan.projections.length > 0 ? (
-                      <ResponsiveContainer width="100%" height="100%">
-                          <AreaChart data={plan.projections} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-                              <defs>
-                                  <linearGradient id="colorExpected" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.3}/><stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/></linearGradient>
-                                  <linearGradient id="colorInf" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/><stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/></linearGradient>
-                              </defs>
-                              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-                              <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickMargin={10} />
-                              <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${val/1000}k`} />
-                              <Tooltip content={<CustomTooltip />} />
-                              <Area type="monotone" dataKey="expected" stroke="#0ea5e9" fillOpacity={1} fill="url(#colorExpected)" name="Expected Growth" strokeWidth={2}/>
-                              <Area type="monotone" dataKey="inflationAdjusted" stroke="#3b82f6" fillOpacity={1} fill="url(#colorInf)" name="Real Value (Inf. Adj.)" strokeWidth={2}/>
-                              <Area type="monotone" dataKey="totalContributions" stroke="#64748b" fill="transparent" strokeDasharray="5 5" name="Total Principal"/>
-                          </AreaChart>
-                      </ResponsiveContainer>
-                    ) : <SkeletonLoader className="h-full" /> }
-              </div>
-              
+              {profile?.partner && <HouseholdBreakdown profile={profile} onAsk={triggerAgent} />}
+
               <HoldingsAndMultiFactor />
 
             </div>
@@ -317,6 +455,7 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                     </div>
                   </div>
                 )}
+                {profile && taxSummary && <TaxPicture profile={profile} summary={taxSummary} onAsk={triggerAgent} />}
                  {plan.actionableSteps && plan.actionableSteps.length > 0 && (
                     <div className="bg-gradient-to-r from-sky-900/20 to-slate-900 border border-sky-500/30 p-6 rounded-xl relative group">
                         <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
@@ -357,9 +496,39 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                         </div>
                     </div>
                 )}
-                 {plan && Object.keys(plan).length > 2 && <AgentChat plan={plan as InvestmentPlan} apiKey={apiKey} ref={chatRef} />}
+                 {plan && !isStreaming && Object.keys(plan).length > 2 && <AgentChat plan={plan as InvestmentPlan} provider={provider} ref={chatRef} />}
             </div>
           </div>
+        ) : activeTab === 'projection' ? (
+          <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
+            {projections.length > 0 ? (
+              <ProjectionPanel
+                key={plan.projectionAssumptions ? JSON.stringify(plan.projectionAssumptions) : 'default'}
+                projections={projections}
+                assumptions={assumptions}
+                onAssumptionsChange={profile ? setAssumptions : undefined}
+                retirementMarkers={retirementMarkers}
+                taxDrag={taxSummary ? getBrokerageTaxDrag(taxSummary) : undefined}
+              />
+            ) : <SkeletonLoader className="h-[400px]" /> }
+
+            {profile && projections.length > 0 && (
+              <WithdrawalPlanner profile={profile} projections={projections} assumptions={assumptions} onAsk={triggerAgent} />
+            )}
+
+            {profile && plan.allocations && plan.allocations.length > 0 && (
+              <MonteCarloPanel profile={profile} allocations={plan.allocations} inflation={assumptions.inflation} onAsk={triggerAgent} />
+            )}
+          </div>
+        ) : activeTab === 'tax' ? (
+          <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
+            {profile && taxSummary && (
+              <RothConversionPlanner profile={profile} summary={taxSummary} projections={projections} assumptions={assumptions} onAsk={triggerAgent} />
+            )}
+            {profile && taxSummary && plan.allocations && plan.allocations.length > 0 && (
+              <AssetLocationPanel accounts={profile.accounts} allocations={plan.allocations} taxSummary={taxSummary} onAsk={triggerAgent} />
+            )}
+          </div>
         ) : activeTab === 'market' ? (
            <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -426,8 +595,32 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                 </div>
             </div>
         </div>
+        ) : activeTab === 'debt' ? (
+          <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
+            <DebtPayoffPlanner
+              liabilities={debts}
+              defaultExtra={Number(profile?.monthlyContribution) || 0}
+              onAsk={triggerAgent}
+            />
+          </div>
         ) : (
           <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
+             {canRebalance && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-slate-500 uppercase tracking-wider mr-1">Rebalancing strategy</span>
+                    {(Object.keys(REBALANCE_STRATEGY_LABELS) as RebalanceStrategy[])
+                        .filter(key => key !== 'model' || plan.portfolioAnalysis)
+                        .map(key => (
+                            <button
+                                key={key}
+                                onClick={() => setRebalanceStrategy(key)}
+                                className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${rebalanceStrategy === key ? 'bg-purple-500/10 border-purple-500/40 text-purple-400' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+                            >
+                                {REBALANCE_STRATEGY_LABELS[key]}
+                            </button>
+                        ))}
+                </div>
+             )}
              {plan.portfolioAnalysis && (
                 <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
                     <div className="flex justify-between items-start mb-6">
@@ -444,9 +637,12 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                         <button onClick={() => triggerAgent("Explain my portfolio health score in detail. Why is it not 100?")} className="absolute top-2 right-2 p-1.5 bg-slate-800 text-slate-500 hover:text-purple-400 rounded-lg opacity-0 group-hover:opacity-100 transition-all"><MessageSquarePlus className="w-4 h-4" /></button>
                         <p className="text-slate-300 text-sm leading-relaxed">{plan.portfolioAnalysis?.analysis || "Upload a portfolio to see analysis."}</p>
                     </div>
+                    {(!canRebalance || rebalanceStrategy === 'model') && (<>
                     <h4 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2"><Activity className="w-4 h-4" /> Tactical Rebalancing Orders</h4>
                     <div className="grid grid-cols-1 gap-4">
-                        {plan.portfolioAnalysis?.rebalancingOrders.map((order, i) => (
+                        {plan.portfolioAnalysis?.rebalancingOrders?.map((order, i) => {
+                            const sellTax = profile && taxSummary ? estimateSellTax(order, profile.holdings, taxSummary) : null;
+                            return (
                             <div key={i} className="flex items-center justify-between p-4 bg-slate-800/20 border border-slate-800 rounded-lg group hover:border-slate-600 transition-colors relative">
                                 <button onClick={() => triggerAgent(`What is the rationale for the recommendation to ${order.action} ${order.ticker}?`)} className="absolute top-2 right-2 p-1.5 bg-slate-800 hover:bg-slate-700 text-slate-500 hover:text-white rounded-md opacity-0 group-hover:opacity-100 transition-all"><MessageSquarePlus className="w-3 h-3" /></button>
                                 <div className="flex items-center gap-4">
@@ -454,14 +650,44 @@ const StrategyView: React.FC<Props> = ({ plan, isLoading, apiKey }) => {
                                     <div>
                                         <div className="flex items-center gap-2"><span className="text-white font-bold">{order.ticker}</span><span className="text-slate-400 text-sm">Amount: <span className="text-white">{order.amount}</span></span></div>
                                         <p className="text-xs text-slate-500 mt-1">{order.reason}</p>
+                                        {sellTax && (
+                                            <p className="text-xs text-amber-400/90 mt-1">
+                                                {sellTax.sheltered
+                                                    ? 'No tax due: held in tax-advantaged accounts.'
+                                                    : !sellTax.basisKnown
+                                                        ? 'Estimated tax unavailable: cost basis unknown.'
+                                                        : sellTax.tax >= 0
+                                                            ? `Est. federal tax ${formatCurrency(sellTax.tax)} on ${formatCurrency(sellTax.shortTermGain + sellTax.longTermGain)} of gains${sellTax.shortTermGain > 0 ? ` (${formatCurrency(sellTax.shortTermGain)} short-term)` : ''}`
+                                                            : `Realizes a ${formatCurrency(-(sellTax.shortTermGain + sellTax.longTermGain))} loss, worth about ${formatCurrency(-sellTax.tax)} in tax savings`}
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="hidden md:block"><button className="text-xs bg-slate-900 border border-slate-700 hover:bg-slate-800 text-slate-300 px-3 py-1.5 rounded-lg transition-colors">Review</button></div>
                             </div>
-                        ))}
+                            );
+                        })}
                     </div>
+                    </>)}
                 </div>
              )}
+             {canRebalance && profile && plan.allocations && rebalanceStrategy === 'calculated' && (
+                <RebalanceCalculator holdings={profile.holdings} allocations={plan.allocations} taxSummary={taxSummary} onAsk={triggerAgent} />
+             )}
+             {canRebalance && profile && plan.allocations && rebalanceStrategy === 'contributions' && (
+                <ContributionSchedule
+                  holdings={profile.holdings}
+                  allocations={plan.allocations}
+                  defaultMonthly={Number(profile.monthlyContribution) || 0}
+                  onAsk={triggerAgent}
+                />
+             )}
+             {hasHoldings && profile && (
+                <LookThroughPanel holdings={profile.holdings} onAsk={triggerAgent} />
+             )}
+             {hasHoldings && profile && taxSummary && (
+                <HarvestScanner holdings={profile.holdings} taxSummary={taxSummary} onAsk={triggerAgent} />
+             )}
         </div>
         )}
       </div>
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ContributionUsage, TaxSummary, UserProfile } from '../types';
+import { ASSUMED_DIVIDEND_YIELD, FEDERAL_TAX_TABLES, FILING_STATUS_LABELS, getBrokerageTaxDrag, getContributionUsage } from '../services/tax';
+import { getHouseholdMembers, getMemberName } from '../services/household';
+import { Landmark, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  profile: UserProfile;
+  summary: TaxSummary;
+  onAsk: (message: string) => void;
+}
+
+const CONTRIBUTION_LABELS: Record<ContributionUsage['kind'], string> = {
+  workplacePlan: '401k',
+  ira: 'IRA',
+  hsa: 'HSA',
+};
+
+const TaxPicture: React.FC<Props> = ({ profile, summary, onAsk }) => {
+  const table = FEDERAL_TAX_TABLES[summary.filingStatus];
+  const usage = getContributionUsage(profile);
+  const members = getHouseholdMembers(profile);
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+  const rows: [string, number][] = [
+    ['Gross income', summary.grossIncome],
+    ['Pre-tax contributions', -summary.preTaxContributions],
+    ['Standard deduction', -summary.standardDeduction],
+    ['Taxable income', summary.taxableIncome],
+  ];
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-5 group relative">
+      <button
+        onClick={() => onAsk(`I'm in the ${summary.marginalRate}% federal bracket (${FILING_STATUS_LABELS[summary.filingStatus]}) with ${summary.bracketRoom !== null ? `${formatCurrency(summary.bracketRoom)} of room before the next bracket` : 'no higher bracket'}. How can I lower my tax bill with my investments?`)}
+        className="absolute top-3 right-3 p-1.5 bg-slate-800 text-slate-500 hover:text-amber-400 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+      >
+        <MessageSquarePlus className="w-3 h-3" />
+      </button>
+      <div>
+        <h3 className="text-lg font-bold text-white flex items-center gap-2"><Landmark className="w-5 h-5 text-amber-400" />Tax Picture</h3>
+        <p className="text-xs text-slate-500 mt-1">{summary.taxYear} federal estimate · {FILING_STATUS_LABELS[summary.filingStatus]}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-[10px] text-slate-500 uppercase tracking-wider">Marginal</p>
+          <p className="text-2xl font-bold text-amber-400">{summary.marginalRate}%</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-[10px] text-slate-500 uppercase tracking-wider">Effective</p>
+          <p className="text-2xl font-bold text-white">{summary.effectiveRate.toFixed(1)}%</p>
+        </div>
+      </div>
+
+      <div className="space-y-1.5 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-slate-400">{label}</span>
+            <span className={value < 0 ? 'text-emerald-400' : 'text-white'}>{value < 0 ? `−${formatCurrency(-value)}` : formatCurrency(value)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-1.5 border-t border-slate-800 font-semibold">
+          <span className="text-slate-300">Federal income tax</span>
+          <span className="text-white">{formatCurrency(summary.federalTax)}</span>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex h-2 rounded-full overflow-hidden bg-slate-800 gap-px">
+          {table.ordinary.map(bracket => (
+            <div
+              key={bracket.rate}
+              className={`flex-1 ${bracket.rate === summary.marginalRate ? 'bg-amber-500' : bracket.rate < summary.marginalRate ? 'bg-amber-500/30' : 'bg-slate-700'}`}
+              title={`${bracket.rate}%${bracket.upTo !== null ? ` up to ${formatCurrency(bracket.upTo)}` : ''}`}
+            />
+          ))}
+        </div>
+        <p className="text-[11px] text-slate-500 mt-1.5">
+          {summary.bracketRoom !== null
+            ? `${formatCurrency(summary.bracketRoom)} of taxable income left in the ${summary.marginalRate}% bracket.`
+            : 'In the top bracket.'}
+        </p>
+      </div>
+
+      <div className="text-xs text-slate-400 space-y-1">
+        <p>Long-term gains & qualified dividends: <span className="text-white">{summary.capitalGainsRate}%</span></p>
+        <p>Short-term gains: <span className="text-white">{summary.shortTermGainsRate}%</span></p>
+        <p>Brokerage tax drag: <span className="text-white">{getBrokerageTaxDrag(summary).toFixed(2)}%/yr</span> <span className="text-slate-600">(on a {ASSUMED_DIVIDEND_YIELD}% yield)</span></p>
+      </div>
+
+      {usage.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Contribution limits</h4>
+          <div className="space-y-2">
+            {usage.map(u => {
+              const member = members.find(m => m.id === u.memberId);
+              const share = Math.min(100, (u.contributed / u.limit) * 100);
+              return (
+                <div key={`${u.memberId}-${u.kind}`}>
+                  <div className="flex justify-between text-[11px] mb-1">
+                    <span className="text-slate-400">{profile.partner && member ? `${getMemberName(member)} · ` : ''}{CONTRIBUTION_LABELS[u.kind]}</span>
+                    <span className={u.contributed > u.limit ? 'text-red-400' : 'text-slate-400'}>{formatCurrency(u.contributed)} / {formatCurrency(u.limit)}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                    <div className={u.contributed > u.limit ? 'h-full bg-red-500' : 'h-full bg-emerald-500'} style={{ width: `${share}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-600">Standard deduction only; state taxes, credits and other income are not included.</p>
+    </div>
+  );
+};
+
+export default TaxPicture;
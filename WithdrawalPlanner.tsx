@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectionAssumptions, ProjectionData, ReturnScenario, UserProfile, WithdrawalBucket, WithdrawalOrder, WithdrawalSettings, WithdrawalStrategy } from '../types';
+import {
+  BUCKET_LABELS, DEFAULT_WITHDRAWAL_SETTINGS, WITHDRAWAL_ORDER_LABELS, WITHDRAWAL_STRATEGY_DESCRIPTIONS,
+  WITHDRAWAL_STRATEGY_LABELS, getRetirementBuckets, simulateWithdrawals,
+} from '../services/withdrawal';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Hourglass, AlertOctagon, CheckCircle2, MessageSquarePlus } from 'lucide-react';
+
+interface Props {
+  profile: UserProfile;
+  projections: ProjectionData[];
+  assumptions: ProjectionAssumptions;
+  onAsk: (message: string) => void;
+}
+
+const BUCKET_COLORS: Record<WithdrawalBucket, string> = {
+  cash: '#64748b',
+  taxable: '#0ea5e9',
+  tax_deferred: '#a855f7',
+  tax_free: '#10b981',
+};
+
+const SCENARIO_LABELS: Record<ReturnScenario, string> = {
+  steady: 'Steady returns',
+  early_downturn: 'Early downturn',
+};
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+const BalanceTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="bg-slate-900 border border-slate-700 p-3 rounded-lg shadow-xl text-sm">
+        <p className="text-slate-300 mb-2 font-bold">{label} · age {point.age}</p>
+        <p className="text-white mb-1">Withdrawn: {formatCurrency(point.withdrawal)}</p>
+        {point.shortfall > 0 && <p className="text-red-400 mb-1">Shortfall: {formatCurrency(point.shortfall)}</p>}
+        {payload.map((entry: any, index: number) => (
+          <p key={index} style={{ color: entry.color }}>{entry.name}: {formatCurrency(entry.value)}</p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+const WithdrawalPlanner: React.FC<Props> = ({ profile, projections, assumptions, onAsk }) => {
+  const [settings, setSettings] = useState<WithdrawalSettings>(DEFAULT_WITHDRAWAL_SETTINGS);
+
+  const startYear = projections.length > 0 ? projections[projections.length - 1].year : new Date().getFullYear();
+  const startBuckets = useMemo(() => getRetirementBuckets(profile, projections, assumptions), [profile, projections, assumptions]);
+
+  const comparison = useMemo(
+    () => (Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategy[]).map(strategy =>
+      simulateWithdrawals(profile, startBuckets, startYear, { ...settings, strategy }, assumptions)
+    ),
+    [profile, startBuckets, startYear, settings, assumptions]
+  );
+  const result = comparison.find(r => r.strategy === settings.strategy)!;
+  const chartData = result.years.map(y => ({ ...y, ...y.balances }));
+  const lastRow = result.years[result.years.length - 1];
+
+  const update = <K extends keyof WithdrawalSettings>(key: K, value: WithdrawalSettings[K]) =>
+    setSettings(prev => ({ ...prev, [key]: value }));
+
+  const outcome = (r: typeof result) =>
+    r.depletedYear !== null ? `Runs out in ${r.depletedYear} (age ${r.depletedAge})` : `${formatCurrency(r.endingBalance)} left at ${settings.lifeExpectancy}`;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-white flex items-center gap-2"><Hourglass className="w-5 h-5 text-sky-400" />Retirement Income</h3>
+        <p className="text-slate-400 text-xs mt-1">
+          Draws down your projected {formatCurrency(Object.values(startBuckets).reduce((a, b) => a + b, 0))} from {startYear}, at a {assumptions.expectedReturn}% return and {assumptions.inflation}% inflation.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategy[]).map(strategy => (
+          <button
+            key={strategy}
+            onClick={() => update('strategy', strategy)}
+            className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${settings.strategy === strategy ? 'bg-sky-500/10 border-sky-500/40 text-sky-400' : 'bg-slate-950/50 border-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            {WITHDRAWAL_STRATEGY_LABELS[strategy]}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 -mt-3">{WITHDRAWAL_STRATEGY_DESCRIPTIONS[settings.strategy]}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="col-span-2 md:col-span-1">
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Withdrawal order</label>
+          <select
+            value={settings.order}
+            onChange={(e) => update('order', e.target.value as WithdrawalOrder)}
+            className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs"
+          >
+            {(Object.keys(WITHDRAWAL_ORDER_LABELS) as WithdrawalOrder[]).map(order => (
+              <option key={order} value={order}>{WITHDRAWAL_ORDER_LABELS[order]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Plan to age</label>
+          <input
+            type="number"
+            value={settings.lifeExpectancy}
+            onChange={(e) => update('lifeExpectancy', Math.min(120, Math.max(50, Number(e.target.value) || 0)))}
+            className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Initial rate %</label>
+          <input
+            type="number"
+            step="0.1"
+            value={settings.initialRate}
+            disabled={settings.strategy === 'vpw'}
+            onChange={(e) => update('initialRate', Math.min(15, Math.max(0.5, Number(e.target.value) || 0)))}
+            className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs disabled:opacity-40"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Markets</label>
+          <select
+            value={settings.scenario}
+            onChange={(e) => update('scenario', e.target.value as ReturnScenario)}
+            className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white focus:ring-1 focus:ring-sky-500 outline-none text-xs"
+          >
+            {(Object.keys(SCENARIO_LABELS) as ReturnScenario[]).map(scenario => (
+              <option key={scenario} value={scenario}>{SCENARIO_LABELS[scenario]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 flex items-center gap-1.5 mb-1">
+            {result.depletedYear !== null ? <AlertOctagon className="w-3 h-3 text-red-400" /> : <CheckCircle2 className="w-3 h-3 text-emerald-400" />}
+            {result.depletedYear !== null ? 'Money runs out' : `Left at age ${settings.lifeExpectancy}`}
+          </p>
+          <p className={`text-2xl font-bold ${result.depletedYear !== null ? 'text-red-400' : 'text-emerald-400'}`}>
+            {result.depletedYear !== null ? result.depletedYear : formatCurrency(result.endingBalance)}
+          </p>
+          <p className="text-xs text-slate-500">
+            {result.depletedYear !== null ? `At age ${result.depletedAge}` : lastRow ? `In ${lastRow.year}, before inflation` : ''}
+          </p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">First-year income</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(result.initialWithdrawal)}</p>
+          <p className="text-xs text-slate-500">{formatCurrency(result.initialWithdrawal / 12)} a month in {startYear} dollars</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4">
+          <p className="text-xs text-slate-500 mb-1">Total withdrawn</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(result.totalWithdrawn)}</p>
+          <p className="text-xs text-slate-500">Over {result.years.length} years, before tax</p>
+        </div>
+      </div>
+
+      <div className="h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickMargin={10} />
+            <YAxis stroke="#64748b" fontSize={12} tickFormatter={(val) => `$${Math.round(val / 1000)}k`} />
+            <Tooltip content={<BalanceTooltip />} />
+            {(Object.keys(BUCKET_LABELS) as WithdrawalBucket[]).map(bucket => (
+              <Area
+                key={bucket}
+                type="monotone"
+                dataKey={bucket}
+                stackId="balance"
+                stroke={BUCKET_COLORS[bucket]}
+                fill={BUCKET_COLORS[bucket]}
+                fillOpacity={0.25}
+                name={BUCKET_LABELS[bucket]}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Compare strategies</h4>
+        <div className="space-y-2">
+          {comparison.map(r => (
+            <button
+              key={r.strategy}
+              onClick={() => update('strategy', r.strategy)}
+              className={`w-full flex items-center justify-between gap-4 p-3 rounded-lg border text-left text-xs transition-colors ${r.strategy === settings.strategy ? 'bg-sky-500/10 border-sky-500/30' : 'bg-slate-950/50 border-slate-800 hover:border-slate-700'}`}
+            >
+              <span className="font-semibold text-white w-28 shrink-0">{WITHDRAWAL_STRATEGY_LABELS[r.strategy]}</span>
+              <span className="text-slate-400">First year {formatCurrency(r.initialWithdrawal)}</span>
+              <span className="text-slate-400 hidden md:inline">Total {formatCurrency(r.totalWithdrawn)}</span>
+              <span className={`ml-auto ${r.depletedYear !== null ? 'text-red-400' : 'text-emerald-400'}`}>{outcome(r)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onAsk(`In retirement, the ${WITHDRAWAL_STRATEGY_LABELS[settings.strategy]} strategy (withdrawal order: ${WITHDRAWAL_ORDER_LABELS[settings.order]}, ${SCENARIO_LABELS[settings.scenario].toLowerCase()}) starts at ${formatCurrency(result.initialWithdrawal)} a year. Outcome: ${outcome(result)}. Which withdrawal strategy and order suits me best, and why?`)}
+        className="w-full text-xs text-center text-slate-500 hover:text-sky-400 flex items-center justify-center gap-1 p-2 rounded-lg hover:bg-slate-800/50 transition-colors"
+      >
+        <MessageSquarePlus className="w-3 h-3" /> Ask The Steward about my withdrawal strategy
+      </button>
+    </div>
+  );
+};
+
+export default WithdrawalPlanner;
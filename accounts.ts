@@ -0,0 +1,79 @@
+import { AccountType, InvestmentAccount, TaxTreatment, UserProfile } from '../types';
+
+export const ACCOUNT_TYPES: AccountType[] = [
+  'Brokerage',
+  'Traditional 401k',
+  'Roth 401k',
+  'Traditional IRA',
+  'Roth IRA',
+  'HSA',
+  '529',
+];
+
+export const ACCOUNT_TYPE_INFO: Record<AccountType, { treatment: TaxTreatment; shortLabel: string; description: string }> = {
+  'Brokerage': { treatment: 'taxable', shortLabel: 'BROKERAGE', description: 'Taxable: dividends and realized gains are taxed yearly.' },
+  'Traditional 401k': { treatment: 'tax_deferred', shortLabel: 'TRAD 401K', description: 'Pre-tax contributions; withdrawals taxed as ordinary income.' },
+  'Roth 401k': { treatment: 'tax_free', shortLabel: 'ROTH 401K', description: 'After-tax contributions; qualified withdrawals are tax-free.' },
+  'Traditional IRA': { treatment: 'tax_deferred', shortLabel: 'TRAD IRA', description: 'Often deductible contributions; withdrawals taxed as ordinary income.' },
+  'Roth IRA': { treatment: 'tax_free', shortLabel: 'ROTH IRA', description: 'After-tax contributions; qualified withdrawals are tax-free.' },
+  'HSA': { treatment: 'tax_free', shortLabel: 'HSA', description: 'Triple tax-advantaged when used for qualified medical expenses.' },
+  '529': { treatment: 'tax_free', shortLabel: '529', description: 'Tax-free growth for qualified education expenses.' },
+};
+
+export const TAX_TREATMENT_LABELS: Record<TaxTreatment, string> = {
+  taxable: 'Taxable',
+  tax_deferred: 'Tax-Deferred',
+  tax_free: 'Tax-Free',
+};
+
+export const createAccount = (type: AccountType = 'Brokerage', label = ''): InvestmentAccount => ({
+  id: `acct-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  label,
+  balance: '',
+  monthlyContribution: '',
+});
+
+/**
+ * Best-effort mapping from a free-form account name (broker export, OFX description,
+ * or model output) to an account type. Falls back to Brokerage.
+ */
+export const inferAccountType = (raw: string | undefined): AccountType => {
+  const text = (raw || '').toUpperCase();
+  const isRoth = text.includes('ROTH');
+  if (/HSA|HEALTH SAVINGS/.test(text)) return 'HSA';
+  if (/529|EDUCATION|COLLEGE/.test(text)) return '529';
+  if (/401\s*\(?K|403\s*\(?B|457/.test(text)) return isRoth ? 'Roth 401k' : 'Traditional 401k';
+  if (/IRA|ROLLOVER|SEP|SIMPLE/.test(text)) return isRoth ? 'Roth IRA' : 'Traditional IRA';
+  if (isRoth) return 'Roth IRA';
+  return 'Brokerage';
+};
+
+/**
+ * Coerces an account type string from the model into the union, or 'Any' when the
+ * model didn't pin the holding to one account (the old "Both").
+ */
+export const normalizeAccountType = (raw: unknown): AccountType | 'Any' => {
+  if (typeof raw !== 'string' || !raw.trim() || /^(both|any|all)$/i.test(raw.trim())) return 'Any';
+  const exact = ACCOUNT_TYPES.find(t => t.toLowerCase() === raw.trim().toLowerCase());
+  return exact || inferAccountType(raw);
+};
+
+export const getAccountBalance = (account: InvestmentAccount) => Number(account.balance) || 0;
+
+export const getTotalInvested = (profile: UserProfile) =>
+  profile.accounts.reduce((sum, a) => sum + getAccountBalance(a), 0);
+
+/**
+ * Sums account balances by tax treatment, e.g. for the "Tax-Free" share of the portfolio.
+ */
+export const getBalancesByTreatment = (accounts: InvestmentAccount[]): Record<TaxTreatment, number> =>
+  accounts.reduce(
+    (totals, a) => {
+      totals[ACCOUNT_TYPE_INFO[a.type].treatment] += getAccountBalance(a);
+      return totals;
+    },
+    { taxable: 0, tax_deferred: 0, tax_free: 0 } as Record<TaxTreatment, number>
+  );
+
+export const getAccountDisplayName = (account: InvestmentAccount) => account.label || account.type;
@@ -1,72 +1,280 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import InputForm from './components/InputForm';
 import StrategyView from './components/StrategyView';
-import { UserProfile, InvestmentPlan } from './types';
-import { generateInvestmentStrategy, verifyApiKey } from './services/geminiService';
-import ApiKeyModal from './components/ApiKeyModal';
-import { Shield, TrendingUp, BarChart3, Lock, ShieldCheck, Sun, Zap, AlertTriangle, KeyRound } from 'lucide-react';
+import { UserProfile, InvestmentPlan, PlanSection, SavedProfile, SavedPlan, ProviderConfig } from './types';
+import { generateInvestmentStrategy, retryPlanSection } from './services/geminiService';
+import { AuthError, CancelledError, LLMError, LLM_ERROR_HELP, toLLMError } from './services/llmErrors';
+import { clearProviderConfig, createProvider, loadProviderConfig, saveProviderConfig, verifyProvider, PROVIDER_LABELS } from './services/llmProvider';
+import ApiKeyModal, { StorageChoice } from './components/ApiKeyModal';
+import SavedSidebar from './components/SavedSidebar';
+import { listProfiles, listPlans, saveProfile, savePlan, updateSavedPlan, renameSaved, duplicateSaved, deleteSaved, resealAll, deleteSealedRecords, deletePlaintextRecords, getUnreadableCount, SavedStoreName } from './services/storage';
+import { AUTO_LOCK_MINUTES, createVault, destroyVault, getStorageMode, hasVault, isLocked, lockVault, removePlaintextValues, removeSecure, resealSecure, setStorageMode, unlockVault } from './services/vault';
+import { Shield, TrendingUp, BarChart3, Lock, ShieldCheck, Sun, Zap, AlertTriangle, KeyRound, FolderOpen, X } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig | null>(null);
+  const [locked, setLocked] = useState(isLocked());
   const [plan, setPlan] = useState<Partial<InvestmentPlan> | null>(null);
+  const [planId, setPlanId] = useState<string | null>(null); // History entry of the plan on screen, so retried sections are saved to it
+  const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LLMError | null>(null);
+  const generationRef = useRef<AbortController | null>(null); // Aborts the running generation
+  const retriesRef = useRef(new Set<AbortController>()); // One per section retry still running
 
-  useEffect(() => {
-    const savedKey = localStorage.getItem('steward_ai_api_key');
-    if (savedKey) {
-      setApiKey(savedKey);
+  // Saved profiles and plan history (IndexedDB)
+  const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([]);
+  const [savedPlans, setSavedPlans] = useState<SavedPlan[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<SavedProfile | null>(null);
+  const [formKey, setFormKey] = useState(0); // Bumped to remount the form with a different profile
+
+  const provider = useMemo(() => (providerConfig ? createProvider(providerConfig) : null), [providerConfig]);
+
+  // Stops generation and any section retries, so nothing they return lands on a different plan.
+  const abortRunning = useCallback(() => {
+    generationRef.current?.abort();
+    retriesRef.current.forEach(controller => controller.abort());
+    retriesRef.current.clear();
+  }, []);
+
+  const refreshSaved = useCallback(async () => {
+    try {
+      const [profiles, plans] = await Promise.all([listProfiles(), listPlans()]);
+      setSavedProfiles(profiles);
+      setSavedPlans(plans);
+      const unreadable = getUnreadableCount();
+      setStorageError(unreadable > 0
+        ? `${unreadable} saved ${unreadable === 1 ? 'item' : 'items'} could not be decrypted with this passphrase and ${unreadable === 1 ? 'is' : 'are'} hidden.`
+        : null);
+    } catch (err) {
+      console.error(err);
+      setStorageError(err instanceof Error ? err.message : 'Saved profiles could not be loaded.');
     }
   }, []);
 
-  const handleApiKeySave = (key: string) => {
-    localStorage.setItem('steward_ai_api_key', key);
-    setApiKey(key);
+  // Wraps a storage write so a failure is shown in the sidebar instead of breaking the app.
+  const withStorage = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setStorageError(err instanceof Error ? err.message : 'The change could not be saved.');
+    }
+    await refreshSaved();
   };
-  
-  const handleApiKeyClear = () => {
-    localStorage.removeItem('steward_ai_api_key');
-    setApiKey(null);
+
+  useEffect(() => {
+    // An encrypted vault stays closed until the unlock screen supplies the passphrase.
+    if (isLocked()) return;
+    loadProviderConfig().then(saved => {
+      if (saved) {
+        setProviderConfig(saved);
+      }
+    });
+    refreshSaved();
+  }, [refreshSaved]);
+
+  const handleProviderSave = async (config: ProviderConfig, storage: StorageChoice) => {
+    if (storage.mode === 'vault') {
+      if (storage.newVault || !hasVault()) {
+        if (hasVault()) {
+          // Whatever the old vault sealed can't be decrypted under the new key.
+          removeSecure('chat_history');
+          await deleteSealedRecords().catch(err => console.error(err));
+        }
+        await createVault(storage.passphrase || '');
+      } else {
+        await unlockVault(storage.passphrase || '');
+      }
+    } else {
+      if (storage.mode === 'session') {
+        // Session-only means nothing readable stays on disk, including what earlier modes saved.
+        removePlaintextValues();
+        await deletePlaintextRecords().catch(err => console.error(err));
+      }
+      setStorageMode(storage.mode);
+    }
+    await saveProviderConfig(config);
+    if (storage.mode === 'vault') {
+      // Encrypt whatever was saved before the vault existed.
+      await resealSecure('chat_history');
+      await resealAll();
+    }
+    setProviderConfig(config);
+    await refreshSaved();
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    await unlockVault(passphrase);
+    const saved = await loadProviderConfig();
+    setLocked(false);
+    setProviderConfig(saved); // No settings in the vault fall through to the setup screen
+    await refreshSaved();
+  };
+
+  const handleResetVault = () => {
+    destroyVault();
+    clearProviderConfig();
+    removeSecure('chat_history');
+    deleteSealedRecords().catch(err => console.error(err));
+    setLocked(false);
+  };
+
+  const handleProviderClear = () => {
+    clearProviderConfig();
+    lockVault();
+    setProviderConfig(null);
     resetApp();
   };
 
-  const handleGenerate = async (profile: UserProfile) => {
-    if (!apiKey) {
-        setError("API Key is not set. Please configure your API Key.");
+  // Forget everything decrypted and show the unlock screen again.
+  const lockApp = useCallback(() => {
+    abortRunning();
+    lockVault();
+    setLocked(true);
+    setProviderConfig(null);
+    setPlan(null);
+    setProfile(null);
+    setError(null);
+    setSavedProfiles([]);
+    setSavedPlans([]);
+    setActiveProfile(null);
+    setSidebarOpen(false);
+    setFormKey(k => k + 1);
+  }, [abortRunning]);
+
+  useEffect(() => {
+    if (!providerConfig || getStorageMode() !== 'vault') return;
+    let timer = window.setTimeout(lockApp, AUTO_LOCK_MINUTES * 60 * 1000);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lockApp, AUTO_LOCK_MINUTES * 60 * 1000);
+    };
+    const events = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+    events.forEach(e => window.addEventListener(e, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(e => window.removeEventListener(e, resetTimer));
+    };
+  }, [providerConfig, lockApp]);
+
+  const handleSaveProfile = (profile: UserProfile, name: string) =>
+    withStorage(async () => {
+      // Saving again updates the open profile; "Duplicate" in the sidebar makes a copy.
+      setActiveProfile(await saveProfile(name, profile, activeProfile?.id));
+    });
+
+  const openProfile = (saved: SavedProfile) => {
+    resetApp();
+    setActiveProfile(saved);
+    setFormKey(k => k + 1);
+    setSidebarOpen(false);
+  };
+
+  const startNewProfile = () => {
+    resetApp();
+    setActiveProfile(null);
+    setFormKey(k => k + 1);
+    setSidebarOpen(false);
+  };
+
+  const openPlan = (saved: SavedPlan) => {
+    abortRunning();
+    setError(null);
+    setLoading(false);
+    setProfile(saved.profile);
+    setPlan(saved.plan);
+    setPlanId(saved.id);
+    setSidebarOpen(false);
+  };
+
+  const handleRename = (store: SavedStoreName, id: string, name: string) =>
+    withStorage(async () => {
+      const renamed = await renameSaved(store, id, name);
+      if (store === 'profiles' && activeProfile?.id === id) setActiveProfile(renamed as SavedProfile);
+    });
+
+  const handleDuplicate = (store: SavedStoreName, id: string) => withStorage(() => duplicateSaved(store, id));
+
+  const handleDelete = (store: SavedStoreName, id: string) =>
+    withStorage(async () => {
+      await deleteSaved(store, id);
+      if (store === 'profiles' && activeProfile?.id === id) setActiveProfile(null);
+    });
+
+  const handleGenerate = async (profile: UserProfile, name: string) => {
+    if (!provider) {
+        setError(new AuthError("No AI provider is set. Please configure one."));
         return;
     }
+    abortRunning();
     setLoading(true);
     setError(null);
+    setProfile(profile);
     setPlan({}); // Initialize with empty object to show skeleton loaders
+    setPlanId(null);
+    const controller = new AbortController();
+    generationRef.current = controller;
 
     try {
-      const finalPlan = await generateInvestmentStrategy(profile, apiKey);
+      // Sections fill in as they stream; anything not yet received keeps its skeleton.
+      const finalPlan = await generateInvestmentStrategy(profile, provider, undefined, setPlan, controller.signal);
       setPlan(finalPlan);
+      withStorage(async () => setPlanId((await savePlan(name || 'Untitled plan', profile, finalPlan, activeProfile?.id || null)).id));
     } catch (err) {
-      let errorMessage = "An unexpected error occurred while generating your analysis.";
-      if (err instanceof Error) {
-         // Check for a more specific auth error, although upfront validation should prevent this.
-        if (err.message.includes('[400 bad request]')) {
-            errorMessage = "Your API Key seems to be invalid. Please reset and enter a valid key.";
-        } else {
-            errorMessage = `An error occurred: ${err.message}`;
-        }
-      }
-      setError(errorMessage);
-      console.error(err);
+      // After a cancel the partial plan stays on screen, with a retry on each unfinished section.
+      const llmError = toLLMError(err);
+      setError(llmError);
+      if (!(llmError instanceof CancelledError)) console.error(err);
     } finally {
+      if (generationRef.current === controller) generationRef.current = null;
       setLoading(false);
     }
   };
+
+  const handleCancel = () => generationRef.current?.abort();
   
+  // Failures are recorded in the section's state, so this doesn't need its own error handling.
+  const handleRetrySection = async (section: PlanSection) => {
+    if (!provider || !profile || !plan) return;
+    const controller = new AbortController();
+    retriesRef.current.add(controller);
+    // Once aborted, the plan on screen has changed; drop whatever the retry still reports.
+    const update = (next: Partial<InvestmentPlan>) => {
+      if (!controller.signal.aborted) setPlan(next);
+    };
+    try {
+      const updated = await retryPlanSection(plan as InvestmentPlan, section, profile, provider, update, controller.signal);
+      if (controller.signal.aborted) return;
+      setPlan(updated);
+      if (planId) withStorage(() => updateSavedPlan(planId, updated));
+    } finally {
+      retriesRef.current.delete(controller);
+    }
+  };
+
   const resetApp = () => {
+    abortRunning();
     setPlan(null);
+    setPlanId(null);
+    setProfile(null);
     setError(null);
     setLoading(false);
   };
   
-  if (!apiKey) {
-    return <ApiKeyModal onSave={handleApiKeySave} onVerify={verifyApiKey} />;
+  if (!provider) {
+    return (
+      <ApiKeyModal
+        key={locked ? 'unlock' : 'setup'}
+        onSave={handleProviderSave}
+        onVerify={verifyProvider}
+        onUnlock={locked ? handleUnlock : undefined}
+        vaultExists={hasVault()}
+        onResetVault={handleResetVault}
+      />
+    );
   }
 
   return (
@@ -84,14 +292,40 @@ const App: React.FC = () => {
             </h1>
           </div>
           <div className="flex items-center gap-4 text-sm font-medium text-slate-400">
-             <button onClick={handleApiKeyClear} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-sky-400 transition-colors">
+             <button onClick={() => setSidebarOpen(true)} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-sky-400 transition-colors">
+                <FolderOpen className="w-3 h-3"/>
+                Saved ({savedProfiles.length + savedPlans.length})
+             </button>
+             {getStorageMode() === 'vault' && (
+               <button onClick={lockApp} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-sky-400 transition-colors" title={`Locks automatically after ${AUTO_LOCK_MINUTES} minutes of inactivity`}>
+                  <Lock className="w-3 h-3"/>
+                  Lock
+               </button>
+             )}
+             <button onClick={handleProviderClear} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-sky-400 transition-colors" title={`${PROVIDER_LABELS[provider.kind]} (${provider.model})`}>
                 <KeyRound className="w-3 h-3"/>
-                Reset API Key
+                {provider.kind === 'gemini' ? 'Reset API Key' : 'Change AI Provider'}
              </button>
           </div>
         </div>
       </header>
 
+      {sidebarOpen && (
+        <SavedSidebar
+          profiles={savedProfiles}
+          plans={savedPlans}
+          activeProfileId={activeProfile?.id || null}
+          error={storageError}
+          onClose={() => setSidebarOpen(false)}
+          onNewProfile={startNewProfile}
+          onOpenProfile={openProfile}
+          onOpenPlan={openPlan}
+          onRename={handleRename}
+          onDuplicate={handleDuplicate}
+          onDelete={handleDelete}
+        />
+      )}
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
         
@@ -130,16 +364,25 @@ const App: React.FC = () => {
             
              <div className="inline-flex items-center gap-2 text-xs text-slate-500 bg-slate-900 border border-slate-800 px-4 py-2 rounded-full">
                 <ShieldCheck className="w-4 h-4 text-slate-400" />
-                <span>Zero Data Storage: Your financial data never leaves this browser session.</span>
+                <span>Local Only: Profiles and plans you save are kept in this browser and never uploaded.</span>
             </div>
           </div>
         )}
 
         {/* Error Message */}
         {error && plan && (
-          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400">
-            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
-            <p>{error}</p>
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold">{LLM_ERROR_HELP[error.kind].title}</p>
+              {!(error instanceof CancelledError) && <p className="text-sm text-red-300/80 mt-1 break-words">{error.message}</p>}
+              <p className="text-sm text-slate-400 mt-1">{LLM_ERROR_HELP[error.kind].remedy}</p>
+            </div>
+            {error.kind === 'auth' && (
+              <button onClick={handleProviderClear} className="text-xs px-3 py-1.5 rounded-lg border border-red-500/30 hover:bg-red-500/10 transition-colors flex-shrink-0">
+                Reset API Key
+              </button>
+            )}
           </div>
         )}
 
@@ -147,7 +390,14 @@ const App: React.FC = () => {
         <div className="flex flex-col gap-12">
           
           <div className={`${(plan || loading) ? 'hidden' : 'block'} max-w-3xl mx-auto w-full`}>
-            <InputForm onGenerate={handleGenerate} isLoading={loading} />
+            <InputForm
+              key={formKey}
+              onGenerate={handleGenerate}
+              isLoading={loading}
+              initialProfile={activeProfile?.profile}
+              profileName={activeProfile?.name}
+              onSaveProfile={handleSaveProfile}
+            />
           </div>
 
           {/* If plan exists or is loading, show dashboard area */}
@@ -155,17 +405,30 @@ const App: React.FC = () => {
             <>
               <div className="flex justify-between items-center animate-in fade-in">
                  <h2 className="text-2xl font-bold text-white">Your Legacy Wealth Plan</h2>
-                 <button 
-                  onClick={resetApp}
-                  className="text-sm text-slate-400 hover:text-white underline underline-offset-4"
-                 >
-                   Start Over
-                 </button>
+                 {loading ? (
+                   <button
+                    onClick={handleCancel}
+                    className="flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500 transition-colors"
+                   >
+                     <X className="w-4 h-4" />
+                     Cancel
+                   </button>
+                 ) : (
+                   <button 
+                    onClick={resetApp}
+                    className="text-sm text-slate-400 hover:text-white underline underline-offset-4"
+                   >
+                     Start Over
+                   </button>
+                 )}
               </div>
               <StrategyView 
                 plan={plan || {}} 
+                profile={profile}
                 isLoading={loading && Object.keys(plan).length === 0}
-                apiKey={apiKey}
+                isStreaming={loading}
+                provider={provider}
+                onRetrySection={loading ? undefined : handleRetrySection}
               />
             </>
           )}
@@ -179,8 +442,8 @@ const App: React.FC = () => {
           <p className="mb-2">&copy; {new Date().getFullYear()} Steward AI. Powered by Google Gemini.</p>
           <p className="max-w-lg mx-auto text-xs text-slate-700 leading-relaxed">
             <strong>PRIVACY NOTICE:</strong> This application runs entirely in your browser. 
-            We do not store your financial data, portfolio, or personal information in any database. 
-            Data is transiently processed by the AI and lost upon page refresh.
+            We do not store your financial data, portfolio, or personal information on any server. 
+            Profiles and plan history are saved only in this browser's local storage (IndexedDB) and are sent to the AI only when you generate a plan.
             <br/><br/>
             DISCLAIMER: This application is for informational and educational purposes only and does not constitute financial advice. 
             Steward AI generates suggestions based on artificial intelligence models and available market data. 
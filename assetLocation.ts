@@ -0,0 +1,119 @@
+import { AccountLocation, AllocationItem, AssetLocationResult, AssetTaxCost, InvestmentAccount, LocatedHolding, TaxSummary, TaxTreatment } from '../types';
+import { ACCOUNT_TYPE_INFO, getAccountBalance, getAccountDisplayName } from './accounts';
+import { ASSET_CLASS_ASSUMPTIONS, AssetClass } from './monteCarlo';
+import { getTargetWeights } from './rebalancer';
+import { ASSUMED_DIVIDEND_YIELD } from './tax';
+
+// Yields used when the plan doesn't give one, in percent.
+const DEFAULT_YIELDS: Record<AssetClass, number> = {
+  Stock: 1.5,
+  ETF: ASSUMED_DIVIDEND_YIELD,
+  Bond: 4,
+  REIT: 4,
+  Crypto: 0,
+};
+
+// Share of REIT dividends that is taxable after the 20% qualified business income deduction.
+const REIT_TAXABLE_SHARE = 0.8;
+
+// 529 balances are earmarked for education, so they aren't used to hold the retirement portfolio.
+const isLocatable = (account: InvestmentAccount) => account.type !== '529' && getAccountBalance(account) > 0;
+
+/**
+ * Annual tax cost of holding each allocation in a taxable account. Bond interest and REIT
+ * dividends are taxed as ordinary income; stock and fund dividends are assumed to be
+ * qualified. Growth is assumed to be unrealised, so only the yield is taxed.
+ */
+export const getAssetTaxCosts = (allocations: AllocationItem[], summary: TaxSummary): AssetTaxCost[] =>
+  allocations.map(a => {
+    const type: AssetClass = a.type in DEFAULT_YIELDS ? a.type : 'ETF';
+    const yieldPct = a.dividendYield != null && a.dividendYield >= 0 ? a.dividendYield : DEFAULT_YIELDS[type];
+    const taxRate = type === 'Bond'
+      ? summary.shortTermGainsRate
+      : type === 'REIT'
+        ? summary.shortTermGainsRate * REIT_TAXABLE_SHARE
+        : summary.capitalGainsRate;
+    return { ticker: a.ticker.toUpperCase(), yield: yieldPct, taxRate, dragRate: (yieldPct * taxRate) / 100 };
+  });
+
+/**
+ * Places the target allocation into the household's real accounts to minimise the tax paid
+ * each year. The most tax-inefficient holdings fill the tax-advantaged space first; within
+ * that space, holdings with the highest expected return go to Roth-style accounts so their
+ * growth is never taxed, and the rest to Traditional accounts. Whatever doesn't fit goes
+ * to taxable accounts. Each account is then filled in turn, largest first.
+ */
+export const optimizeAssetLocation = (
+  accounts: InvestmentAccount[],
+  allocations: AllocationItem[],
+  summary: TaxSummary
+): AssetLocationResult => {
+  const locatable = accounts.filter(isLocatable);
+  const totalValue = locatable.reduce((sum, a) => sum + getAccountBalance(a), 0);
+  const weights = getTargetWeights(allocations);
+  const costs = getAssetTaxCosts(allocations, summary).filter((c, i, all) => all.findIndex(o => o.ticker === c.ticker) === i);
+  const expectedReturn = (ticker: string) => {
+    const item = allocations.find(a => a.ticker.toUpperCase() === ticker);
+    return item && item.type in ASSET_CLASS_ASSUMPTIONS ? ASSET_CLASS_ASSUMPTIONS[item.type].expectedReturn : 0;
+  };
+
+  const capacityOf = (treatment: TaxTreatment) =>
+    locatable.filter(a => ACCOUNT_TYPE_INFO[a.type].treatment === treatment).reduce((sum, a) => sum + getAccountBalance(a), 0);
+  const taxableBalance = capacityOf('taxable');
+  const shelteredCapacity = totalValue - taxableBalance;
+
+  // Step 1: decide how much of each holding sits in tax-advantaged space.
+  const sheltered = new Map<string, number>();
+  const taxable = new Map<string, number>();
+  let shelterLeft = shelteredCapacity;
+  for (const cost of [...costs].sort((a, b) => b.dragRate - a.dragRate)) {
+    const dollars = ((weights.get(cost.ticker) || 0) / 100) * totalValue;
+    const inShelter = Math.min(dollars, shelterLeft);
+    shelterLeft -= inShelter;
+    sheltered.set(cost.ticker, inShelter);
+    taxable.set(cost.ticker, dollars - inShelter);
+  }
+
+  // Step 2: fill accounts. Roth-style accounts take the highest-growth sheltered holdings.
+  const queues = {
+    tax_free: [...sheltered.entries()].sort((a, b) => expectedReturn(b[0]) - expectedReturn(a[0])),
+    tax_deferred: [] as [string, number][],
+    taxable: [...taxable.entries()],
+  };
+  const fill = (account: InvestmentAccount, queue: [string, number][]): AccountLocation => {
+    const balance = getAccountBalance(account);
+    let room = balance;
+    const holdings: LocatedHolding[] = [];
+    for (const entry of queue) {
+      if (room <= 0.5) break;
+      const dollars = Math.min(entry[1], room);
+      if (dollars <= 0.5) continue;
+      entry[1] -= dollars;
+      room -= dollars;
+      holdings.push({ ticker: entry[0], dollars: Math.round(dollars), percentage: (dollars / balance) * 100 });
+    }
+    return { accountId: account.id, label: getAccountDisplayName(account), type: account.type, balance, holdings };
+  };
+
+  const byTreatment = (treatment: TaxTreatment) =>
+    locatable.filter(a => ACCOUNT_TYPE_INFO[a.type].treatment === treatment).sort((a, b) => getAccountBalance(b) - getAccountBalance(a));
+  const located = byTreatment('tax_free').map(a => fill(a, queues.tax_free));
+  // Anything the Roth-style accounts couldn't take moves on to the Traditional accounts.
+  queues.tax_deferred = queues.tax_free.filter(entry => entry[1] > 0.5);
+  located.push(...byTreatment('tax_deferred').map(a => fill(a, queues.tax_deferred)));
+  located.push(...byTreatment('taxable').map(a => fill(a, queues.taxable)));
+
+  const dragOf = (ticker: string) => costs.find(c => c.ticker === ticker)?.dragRate || 0;
+  const taxableShare = totalValue > 0 ? taxableBalance / totalValue : 0;
+  const naiveDrag = costs.reduce((sum, c) => sum + ((weights.get(c.ticker) || 0) / 100) * totalValue * taxableShare * c.dragRate / 100, 0);
+  const optimizedDrag = [...taxable.entries()].reduce((sum, [ticker, dollars]) => sum + (dollars * dragOf(ticker)) / 100, 0);
+
+  return {
+    accounts: located,
+    costs,
+    totalValue,
+    naiveDrag: Math.round(naiveDrag),
+    optimizedDrag: Math.round(optimizedDrag),
+    annualSavings: Math.round(naiveDrag - optimizedDrag),
+  };
+};
@@ -0,0 +1,114 @@
+import { DebtPayoffResult, Liability, LiabilityType, NetWorthSummary, PayoffStrategy, UserProfile } from '../types';
+import { getTotalInvested } from './accounts';
+
+// Simulations stop after 50 years; anything longer is reported as never paid off.
+const MAX_MONTHS = 600;
+
+export const LIABILITY_TYPE_LABELS: Record<LiabilityType, string> = {
+  mortgage: 'Mortgage',
+  student_loan: 'Student Loan',
+  auto: 'Auto Loan',
+  credit_card: 'Credit Card',
+};
+
+export const createLiability = (type: LiabilityType = 'credit_card'): Liability => ({
+  id: `debt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  label: '',
+  balance: '',
+  apr: '',
+  minimumPayment: '',
+});
+
+export const getLiabilityDisplayName = (liability: Liability) =>
+  liability.label || LIABILITY_TYPE_LABELS[liability.type];
+
+export const getTotalLiabilities = (profile: UserProfile) =>
+  profile.liabilities.reduce((sum, l) => sum + (Number(l.balance) || 0), 0);
+
+export const getNetWorth = (profile: UserProfile): NetWorthSummary => {
+  const totalAssets = (Number(profile.cash) || 0) + getTotalInvested(profile);
+  const totalLiabilities = getTotalLiabilities(profile);
+  return { totalAssets, totalLiabilities, netWorth: totalAssets - totalLiabilities };
+};
+
+/**
+ * Debts the plan should treat as urgent before investing beyond an employer match.
+ */
+export const getHighInterestDebts = (liabilities: Liability[], aprThreshold = 8) =>
+  liabilities.filter(l => (Number(l.apr) || 0) >= aprThreshold && (Number(l.balance) || 0) > 0);
+
+/**
+ * Simulates month-by-month repayment. Every debt receives its minimum payment; the extra
+ * amount (plus minimums freed up by debts already paid off) goes to the target debt:
+ * highest APR first for avalanche, smallest balance first for snowball. Strategy
+ * 'minimum' pays minimums only and is the baseline for "interest saved".
+ */
+export const simulatePayoff = (
+  liabilities: Liability[],
+  extraMonthly: number,
+  strategy: PayoffStrategy | 'minimum'
+): DebtPayoffResult => {
+  const debts = liabilities
+    .map(l => ({
+      id: l.id,
+      label: getLiabilityDisplayName(l),
+      balance: Number(l.balance) || 0,
+      monthlyRate: (Number(l.apr) || 0) / 100 / 12,
+      minimumPayment: Number(l.minimumPayment) || 0,
+    }))
+    .filter(d => d.balance > 0);
+
+  const budget = debts.reduce((sum, d) => sum + d.minimumPayment, 0) + (strategy === 'minimum' ? 0 : Math.max(0, extraMonthly));
+  const timeline = [{ month: 0, totalBalance: debts.reduce((sum, d) => sum + d.balance, 0) }];
+  const payoffOrder: DebtPayoffResult['payoffOrder'] = [];
+  let totalInterest = 0;
+  let month = 0;
+
+  while (debts.some(d => d.balance > 0.005) && month < MAX_MONTHS) {
+    month++;
+    const open = debts.filter(d => d.balance > 0.005);
+
+    for (const debt of open) {
+      const interest = debt.balance * debt.monthlyRate;
+      debt.balance += interest;
+      totalInterest += interest;
+    }
+
+    // Minimums first, then whatever is left of the budget to the priority debt.
+    let remaining = budget;
+    for (const debt of open) {
+      const payment = Math.min(debt.minimumPayment, debt.balance, remaining);
+      debt.balance -= payment;
+      remaining -= payment;
+    }
+    if (strategy !== 'minimum') {
+      const ordered = [...open].sort((a, b) =>
+        strategy === 'avalanche' ? b.monthlyRate - a.monthlyRate : a.balance - b.balance
+      );
+      for (const debt of ordered) {
+        if (remaining <= 0) break;
+        const payment = Math.min(debt.balance, remaining);
+        debt.balance -= payment;
+        remaining -= payment;
+      }
+    }
+
+    for (const debt of open) {
+      if (debt.balance <= 0.005) {
+        debt.balance = 0;
+        payoffOrder.push({ id: debt.id, label: debt.label, month });
+      }
+    }
+    timeline.push({ month, totalBalance: Math.max(0, debts.reduce((sum, d) => sum + d.balance, 0)) });
+  }
+
+  return {
+    strategy,
+    months: month,
+    totalInterest,
+    paidOff: debts.every(d => d.balance <= 0.005),
+    payoffOrder,
+    timeline,
+  };
+};
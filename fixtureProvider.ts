@@ -0,0 +1,92 @@
+import { LLMProvider, LLMRequest } from '../types';
+import { sleep } from './llmErrors';
+
+export const FIXTURE_MODEL = 'fixture';
+
+// Streamed replies are cut into pieces of this size so the UI sees a realistic stream.
+const STREAM_CHUNK_SIZE = 120;
+const STREAM_DELAY_MS = 15;
+
+const FIXTURE_SUMMARY = `## Financial Health Summary (offline demo)
+
+This plan was produced by the **fixture provider**, so it is the same for every profile and uses no network. Use it to try the app without a key.
+
+- **Foundation:** Keep three to six months of expenses in cash before investing more.
+- **Core:** A low-cost mix of US and international stock funds, balanced with bonds.
+- **Habits:** Automate monthly contributions and rebalance once a year.`;
+
+const FIXTURE_PLAN = {
+  riskAnalysis: 'Offline demo: a balanced portfolio with roughly 70% equities can fall 30% or more in a severe bear market.',
+  actionableSteps: [
+    'Confirm your emergency fund covers at least three months of expenses.',
+    'Set up an automatic monthly contribution.',
+    'Review the allocation once a year and rebalance if any position drifts more than 5 points.',
+  ],
+  swot: {
+    strengths: ['Regular savings habit'],
+    weaknesses: ['Demo data: not based on your profile'],
+    opportunities: ['Tax-advantaged account space'],
+    threats: ['Market volatility', 'Inflation'],
+  },
+  allocations: [
+    { ticker: 'VTI', name: 'Vanguard Total Stock Market ETF', sector: 'US Equity', percentage: 40, type: 'ETF', rationale: 'Broad, low-cost US market exposure.', accountType: 'Any', dividendYield: 1.3 },
+    { ticker: 'VXUS', name: 'Vanguard Total International Stock ETF', sector: 'International Equity', percentage: 20, type: 'ETF', rationale: 'Diversifies beyond the US.', accountType: 'Any', dividendYield: 3.0 },
+    { ticker: 'BND', name: 'Vanguard Total Bond Market ETF', sector: 'Fixed Income', percentage: 25, type: 'Bond', rationale: 'Dampens volatility and provides income.', accountType: 'Any', dividendYield: 3.7 },
+    { ticker: 'SCHD', name: 'Schwab U.S. Dividend Equity ETF', sector: 'Dividend Equity', percentage: 10, type: 'ETF', rationale: 'Quality dividend payers.', accountType: 'Any', dividendYield: 3.6 },
+    { ticker: 'VNQ', name: 'Vanguard Real Estate ETF', sector: 'Real Estate', percentage: 5, type: 'REIT', rationale: 'Real asset diversification.', accountType: 'Any', dividendYield: 3.9 },
+  ].map(a => ({
+    ...a,
+    technicalAnalysis: { summary: 'Demo data.', support: '-', resistance: '-', indicatorSignal: 'Neutral' },
+    marketSentiment: { score: 'Neutral', summary: 'Demo data.', analystRating: '-' },
+  })),
+  marketAnalysis: {
+    macroOutlook: 'Offline demo: no live market data.',
+    inflationForecast: 'Assumed near 2.5%.',
+    interestRateView: 'Assumed stable.',
+  },
+  secEvents: [],
+  sectorTrends: [
+    { sector: 'Broad Market', trend: 'hold', performance: 0, reasoning: 'Demo data.' },
+  ],
+};
+
+const lastUserText = (request: LLMRequest) =>
+  [...request.messages].reverse().find(m => m.role === 'user')?.text || '';
+
+/**
+ * Deterministic, offline responses for development and demos. Plan requests get a fixed
+ * plan (with a portfolio check when holdings were sent), JSON repair requests get an empty
+ * fix, and chat messages get a canned reply that quotes the question.
+ */
+const respond = (request: LLMRequest): string => {
+  const prompt = lastUserText(request);
+  if (request.json) return '{}';
+  if (prompt.includes('JSON SCHEMA')) {
+    const plan = {
+      ...FIXTURE_PLAN,
+      portfolioAnalysis: prompt.includes('STRUCTURED HOLDINGS')
+        ? { currentScore: 70, analysis: 'Offline demo: holdings were received but not analyzed.', rebalancingOrders: [] }
+        : null,
+    };
+    return `${FIXTURE_SUMMARY}\n\n\`\`\`json\n${JSON.stringify(plan, null, 2)}\n\`\`\``;
+  }
+  return `(Offline demo) You asked: "${prompt.trim().slice(0, 200)}". The fixture provider doesn't generate real answers; connect Gemini or an OpenAI-compatible server for advice.`;
+};
+
+/** A provider that needs no key and no network, for developing and testing the UI. */
+export const createFixtureProvider = (): LLMProvider => ({
+  kind: 'fixture',
+  model: FIXTURE_MODEL,
+  supportsGrounding: false,
+  generate: async (request) => ({ text: respond(request), sources: [] }),
+  stream: async function* (request) {
+    const text = respond(request);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      await sleep(STREAM_DELAY_MS, request.signal);
+      yield { text: text.slice(i, i + STREAM_CHUNK_SIZE), sources: [] };
+    }
+  },
+  createChat: () => ({
+    send: async (message) => ({ text: respond({ messages: [{ role: 'user', text: message }] }), sources: [] }),
+  }),
+});
@@ -0,0 +1,83 @@
+import { GoogleGenAI, Content, FinishReason, GenerateContentResponse, GroundingChunk } from "@google/genai";
+import { GroundingSource, LLMMessage, LLMProvider, LLMRequest } from '../types';
+import { AuthError, SafetyBlockedError } from './llmErrors';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const toContents = (messages: LLMMessage[]): Content[] =>
+  messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+const getSources = (response: GenerateContentResponse): GroundingSource[] => {
+  const sources: GroundingSource[] = [];
+  (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []).forEach((chunk: GroundingChunk) => {
+    if (chunk.web?.uri && chunk.web?.title) {
+      sources.push({ url: chunk.web.uri, title: chunk.web.title });
+    }
+  });
+  return sources;
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+// A blocked prompt or answer arrives as a normal response with no text, so check explicitly.
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`Gemini blocked the request (${blockReason}).${response.promptFeedback?.blockReasonMessage ? ` ${response.promptFeedback.blockReasonMessage}` : ''}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Gemini stopped the answer (${finishReason}).`);
+  }
+};
+
+// Gemini rejects a JSON response type together with tools, so search is dropped for JSON requests.
+const toConfig = (request: Pick<LLMRequest, 'system' | 'grounding' | 'json' | 'signal'>) => ({
+  systemInstruction: request.system,
+  tools: request.grounding && !request.json ? [{ googleSearch: {} }] : undefined,
+  responseMimeType: request.json ? 'application/json' : undefined,
+  abortSignal: request.signal,
+});
+
+/** Google Gemini through the official SDK, with Google Search grounding. */
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): LLMProvider => {
+  if (!apiKey) {
+    throw new AuthError("API_KEY is missing. Please provide a valid key.");
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    model,
+    supportsGrounding: true,
+    generate: async (request) => {
+      const response = await ai.models.generateContent({ model, contents: toContents(request.messages), config: toConfig(request) });
+      checkBlocked(response);
+      return { text: response.text || '', sources: getSources(response) };
+    },
+    stream: async function* (request) {
+      const stream = await ai.models.generateContentStream({ model, contents: toContents(request.messages), config: toConfig(request) });
+      for await (const chunk of stream) {
+        checkBlocked(chunk);
+        yield { text: chunk.text || '', sources: getSources(chunk) };
+      }
+    },
+    createChat: ({ system, history, grounding }) => {
+      const config = toConfig({ system, grounding });
+      const chat = ai.chats.create({ model, config, history: toContents(history) });
+      return {
+        send: async (message, signal) => {
+          // A per-message config replaces the chat's, so it has to repeat it.
+          const response = await chat.sendMessage({ message, config: { ...config, abortSignal: signal } });
+          checkBlocked(response);
+          return { text: response.text || '', sources: getSources(response) };
+        },
+      };
+    },
+  };
+};
@@ -1,240 +1,399 @@
-import { GoogleGenAI, Chat, GroundingChunk, GenerateContentResponse, Content } from "@google/genai";
-import { UserProfile, InvestmentPlan, GroundingSource, AllocationItem } from '../types';
+import { UserProfile, InvestmentPlan, LLMChat, LLMMessage, LLMProvider, DEFAULT_PROJECTION_ASSUMPTIONS, PlanSection, PlanSectionState, ProjectionAssumptions, ProjectionData } from '../types';
+import { formatHoldingsForPrompt } from './portfolioImport';
+import { getHouseholdIncome, getHouseholdMembers, getMemberName, getRetirementYear, OWNER_LABELS } from './household';
+import { getNetWorth, getLiabilityDisplayName, LIABILITY_TYPE_LABELS } from './debtPlanner';
+import { validateProfile } from './profileValidation';
+import { describeSchema, getStreamedSection, pickSchema, sanitizeAllocations } from './planValidation';
+import { runStage } from './planStage';
+import { CancelledError, LLMError, toLLMError, withBackoff, withDeadline } from './llmErrors';
+import { analyzeLookThrough, formatLookThroughForPrompt } from './lookThrough';
+import { projectWealth } from './projection';
+import { FILING_STATUS_LABELS, calculateTax } from './tax';
+import { ACCOUNT_TYPES, ACCOUNT_TYPE_INFO, TAX_TREATMENT_LABELS, getAccountBalance } from './accounts';
+
+export const PLAN_SECTION_LABELS: Record<PlanSection, string> = {
+  research: 'Market Intelligence',
+  allocations: 'Allocation Design',
+  portfolio: 'Portfolio Health Check',
+  summary: 'Summary & Action Plan',
+};
 
-const getClient = (apiKey: string) => {
-  if (!apiKey) {
-    throw new Error("API_KEY is missing. Please provide a valid key.");
-  }
-  return new GoogleGenAI({ apiKey });
+// Fields each stage writes. The summary stage also writes the prose summary ahead of its JSON.
+const SECTION_FIELDS: Record<PlanSection, (keyof InvestmentPlan)[]> = {
+  research: ['marketAnalysis', 'sectorTrends', 'secEvents'],
+  allocations: ['allocations'],
+  portfolio: ['portfolioAnalysis'],
+  summary: ['riskAnalysis', 'swot', 'actionableSteps'],
 };
 
-/**
- * FINAL ATTEMPT - A definitive, robust, and simple function to verify an API key.
- * This version uses the `generateContent` endpoint, which is a lightweight and direct
- * way to test authentication. The validation logic is extremely strict, checking not
- * just for errors but for a definitive, valid response structure. This approach is
- * designed to be the most reliable and to finally resolve the persistent validation failures.
- *
- * @param apiKey The user-provided API key.
- * @returns A boolean indicating if the key is valid.
- */
-export async function verifyApiKey(apiKey: string): Promise<boolean> {
-  if (!apiKey || typeof apiKey !== 'string' || apiKey.trim().length === 0) {
-    return false;
-  }
-  try {
-    const ai = getClient(apiKey);
-    // FIX: Use generateContent instead of the deprecated countTokens method for validation.
-    const result = await ai.models.generateContent({
-      model: 'gemini-2.5-flash', // A fast and standard model for this check
-      contents: 'validation test', // A non-empty prompt
-    });
+// Research, allocation design and the portfolio check don't depend on each other and run
+// concurrently; the summary runs last and builds on their results.
+const PARALLEL_SECTIONS: PlanSection[] = ['research', 'allocations', 'portfolio'];
 
-    // **DEFINITIVE CHECK:** A successful response MUST have a `text` property
-    // that is a non-empty string. Any other response, even if it doesn't
-    // throw an error, is considered a failure. This prevents "false positives".
-    if (result && typeof result.text === 'string' && result.text.length > 0) {
-      return true; // The key is undeniably valid.
-    } else {
-      // This case handles silent failures where the API returns an empty or
-      // malformed response without throwing an error.
-      console.error("API Key validation failed: The response was malformed or empty.", result);
-      return false;
-    }
-  } catch (error) {
-    // This catches catastrophic failures like network errors or explicit
-    // authentication errors (e.g., 401, 403) from the API.
-    console.error("API Key validation failed with a network/authentication error:", error);
-    return false;
-  }
-}
+// Whole attempts per stage before it is marked failed, for errors worth retrying (rate
+// limits, timeouts, network trouble, unusable output). Each attempt makes its own repair requests.
+const MAX_STAGE_ATTEMPTS = 3;
 
+// Chat replies are short, so a silent minute means something is wrong.
+const CHAT_TIMEOUT_MS = 60000;
 
 /**
- * Validates and sanitizes the AI's JSON output to prevent UI crashes.
- * Ensures all required fields exist and are of the correct type.
+ * Validates and sanitizes one stage's JSON to prevent UI crashes.
+ * Every field the stage owns is set, falling back to an empty value of the right shape.
  */
-const validateAndSanitizePlan = (data: any, summary: string): InvestmentPlan => {
-  const allocations = Array.isArray(data.allocations) ? data.allocations
-    .filter((a: any) => typeof a === 'object' && a.ticker)
-    .map((a: any): AllocationItem => ({
-      ticker: a.ticker || 'N/A',
-      name: a.name || 'N/A',
-      sector: a.sector || 'N/A',
-      percentage: a.percentage || 0,
-      type: a.type || 'ETF',
-      rationale: a.rationale || 'No rationale provided.',
-      accountType: a.accountType || 'Brokerage',
-      dividendYield: a.dividendYield,
-      technicalAnalysis: (typeof a.technicalAnalysis === 'object' && a.technicalAnalysis) 
-          ? a.technicalAnalysis 
-          : { summary: 'No technical analysis provided.', support: '-', resistance: '-', indicatorSignal: '-' },
-      marketSentiment: (typeof a.marketSentiment === 'object' && a.marketSentiment)
-          ? a.marketSentiment
-          : { score: 'Neutral', summary: 'No sentiment analysis provided.', analystRating: '-' }
-  })) : [];
-
-  return {
-    summary: summary || "No summary provided.",
-    riskAnalysis: data.riskAnalysis || "",
-    actionableSteps: Array.isArray(data.actionableSteps) ? data.actionableSteps : [],
-    swot: (typeof data.swot === 'object' && data.swot) || { strengths: [], weaknesses: [], opportunities: [], threats: [] },
-    allocations: allocations,
-    projections: Array.isArray(data.projections) ? data.projections.filter(p => typeof p === 'object' && p.year) : [],
-    sources: [], // Will be populated from grounding metadata
-    marketAnalysis: (typeof data.marketAnalysis === 'object' && data.marketAnalysis) || { macroOutlook: '', inflationForecast: '', interestRateView: '' },
-    secEvents: Array.isArray(data.secEvents) ? data.secEvents.filter(e => typeof e === 'object') : [],
-    sectorTrends: Array.isArray(data.sectorTrends) ? data.sectorTrends.filter(t => typeof t === 'object') : [],
-    portfolioAnalysis: typeof data.portfolioAnalysis === 'object' ? data.portfolioAnalysis : undefined,
-  };
+const sanitizeSection = (section: PlanSection, data: Record<string, any>): { fields: Partial<InvestmentPlan>; warnings: string[] } => {
+  switch (section) {
+    case 'research':
+      return {
+        fields: {
+          marketAnalysis: (typeof data.marketAnalysis === 'object' && data.marketAnalysis) || { macroOutlook: '', inflationForecast: '', interestRateView: '' },
+          secEvents: Array.isArray(data.secEvents) ? data.secEvents.filter(e => typeof e === 'object') : [],
+          sectorTrends: Array.isArray(data.sectorTrends) ? data.sectorTrends.filter(t => typeof t === 'object') : [],
+        },
+        warnings: [],
+      };
+    case 'allocations': {
+      const { allocations, warnings } = sanitizeAllocations(data.allocations);
+      return { fields: { allocations }, warnings };
+    }
+    case 'portfolio': {
+      const analysis = typeof data.portfolioAnalysis === 'object' && data.portfolioAnalysis;
+      return {
+        fields: {
+          portfolioAnalysis: analysis
+            ? {
+                currentScore: Number(analysis.currentScore) || 0,
+                analysis: typeof analysis.analysis === 'string' ? analysis.analysis : '',
+                rebalancingOrders: Array.isArray(analysis.rebalancingOrders) ? analysis.rebalancingOrders.filter((o: unknown) => typeof o === 'object' && o) : [],
+              }
+            : undefined,
+        },
+        warnings: [],
+      };
+    }
+    case 'summary':
+      return {
+        fields: {
+          riskAnalysis: data.riskAnalysis || "",
+          actionableSteps: Array.isArray(data.actionableSteps) ? data.actionableSteps : [],
+          swot: (typeof data.swot === 'object' && data.swot) || { strengths: [], weaknesses: [], opportunities: [], threats: [] },
+        },
+        warnings: [],
+      };
+  }
 };
 
-export async function generateInvestmentStrategy(profile: UserProfile, apiKey: string): Promise<InvestmentPlan> {
-  const ai = getClient(apiKey);
+const hasPortfolio = (profile: UserProfile) => profile.holdings.length > 0 || !!profile.currentPortfolio.trim();
 
+interface PlanContext {
+  profile: UserProfile;
+  assumptions: ProjectionAssumptions;
+  projections: ProjectionData[];
+  snapshot: string; // Client details shared by every stage's prompt
+}
+
+const buildPlanContext = (profile: UserProfile, assumptions: ProjectionAssumptions): PlanContext => {
   const cash = Number(profile.cash) || 0;
-  const brokerage = Number(profile.brokerageBalance) || 0;
-  const roth = Number(profile.rothBalance) || 0;
   const income = Number(profile.annualIncome) || 0;
   const monthly = Number(profile.monthlyContribution) || 0;
-  const age = Number(profile.age) || 30;
-  const retirementAge = Number(profile.retirementAge) || 65;
-
-  const totalCurrentAssets = cash + brokerage + roth;
-
-  const prompt = `
+  const age = Number(profile.age);
+  const retirementAge = Number(profile.retirementAge);
+
+  const netWorth = getNetWorth(profile);
+  const taxSummary = calculateTax(profile);
+
+  const accountLines = profile.accounts.length > 0
+    ? profile.accounts.map(a => {
+        const treatment = TAX_TREATMENT_LABELS[ACCOUNT_TYPE_INFO[a.type].treatment];
+        const label = a.label ? ` "${a.label}"` : '';
+        const owner = profile.partner ? `, owned by ${a.owner === 'partner' ? getMemberName(profile.partner) : OWNER_LABELS[a.owner || 'primary']}` : '';
+        return `       - ${a.type}${label} (${treatment}${owner}): $${getAccountBalance(a)}, contributing $${Number(a.monthlyContribution) || 0}/month`;
+      }).join('\n')
+    : '       - No investment accounts provided.';
+
+  // In household mode each member has their own timeline; joint planning has to respect both.
+  const householdContext = profile.partner
+    ? `
+    - HOUSEHOLD (planning for a couple, goals are shared):
+${getHouseholdMembers(profile).map(m =>
+  `       - ${m.id === 'primary' ? 'Primary client' : getMemberName(m)}: age ${Number(m.age)}, retiring at ${Number(m.retirementAge)} (year ${getRetirementYear(m)}), income $${Number(m.annualIncome) || 0}`
+).join('\n')}`
+    : '';
+
+  const liabilityLines = profile.liabilities.length > 0
+    ? profile.liabilities.map(l =>
+        `       - ${LIABILITY_TYPE_LABELS[l.type]} "${getLiabilityDisplayName(l)}": $${Number(l.balance) || 0} at ${Number(l.apr) || 0}% APR, minimum $${Number(l.minimumPayment) || 0}/month`
+      ).join('\n')
+    : '       - No debts reported.';
+
+  // Prefer structured holdings from broker imports; free text is kept as supplementary notes.
+  const portfolioContext = profile.holdings.length > 0
+    ? `STRUCTURED HOLDINGS (parsed from broker exports, values in USD):
+${formatHoldingsForPrompt(profile.holdings)}
+
+${formatLookThroughForPrompt(analyzeLookThrough(profile.holdings))}
+${profile.currentPortfolio ? `\nAdditional notes from client:\n"${profile.currentPortfolio}"` : ''}`
+    : `"${profile.currentPortfolio || "No existing portfolio data provided."}"`;
+
+  const snapshot = `
     Act as a "Certified Financial Planner (CFP) and Financial Wellness Coach".
     Your philosophy is centered on empowering individuals to build a healthy relationship with money and achieve long-term financial well-being. Your tone is encouraging, educational, empathetic, and clear. You demystify complex topics and focus on actionable, habit-forming advice.
 
     Client's Financial Snapshot:
     - Age: ${age} (Target Retirement: ${retirementAge})
-    - Annual Income: $${income}
+    - Annual Income: $${income}${profile.partner ? ` (primary client; household total $${getHouseholdIncome(profile)})` : ''}${householdContext}
     - FINANCIAL HEALTH PROFILE:
        - Cash / Emergency Fund: $${cash}
-       - Taxable Investments: $${brokerage}
-       - Retirement Accounts (Roth/401k): $${roth}
-    - Total Net Worth Snapshot: $${totalCurrentAssets}
+${accountLines}
+    - LIABILITIES:
+${liabilityLines}
+    - Total Assets: $${netWorth.totalAssets}
+    - Total Liabilities: $${netWorth.totalLiabilities}
+    - Net Worth (assets minus debts): $${netWorth.netWorth}
     - Monthly Savings Rate: $${monthly}
     - Stated Risk Tolerance: ${profile.riskTolerance}
-    - Tax Status: ${profile.taxFilingStatus}
+    - Tax Status: ${FILING_STATUS_LABELS[taxSummary.filingStatus]}, ${taxSummary.marginalRate}% marginal / ${taxSummary.effectiveRate.toFixed(1)}% effective federal rate, ${taxSummary.capitalGainsRate}% on long-term gains (${taxSummary.taxYear} brackets, computed locally)
     - Financial Goals: ${profile.goals.join(', ')}
     - Geographic Focus: ${profile.geographicFocus.join(', ') || 'Global Diversification'}
 
-    CLIENT'S CURRENT INVESTMENTS (Raw Import):
-    "${profile.currentPortfolio || "No existing portfolio data provided."}"
+    CLIENT'S CURRENT INVESTMENTS:
+    ${portfolioContext}`;
 
-    CORE TASKS (Utilize Google Search for current data):
-    
-    1. **Financial Health Summary**: Write an encouraging and clear executive summary titled "Your Financial Wellness Plan". Structure this summary using clear Markdown with the following H3 headings for maximum readability:
-        - ### Your Financial Snapshot & Key Strengths
-        - ### Opportunities for Growth & Improvement
-        - ### A Clear Path Forward
-        Use bullet points or numbered lists. Your goal is to build confidence and provide clarity. This summary MUST be the first part of your response.
+  return { profile, assumptions, projections: projectWealth(profile, assumptions), snapshot };
+};
+
+/** What the other stages concluded, as context for the summary. Failed stages are marked unavailable. */
+const describeFindings = (plan: Partial<InvestmentPlan>): string => {
+  const failed = (section: PlanSection) => plan.sections?.[section]?.status === 'failed';
+  const allocations = failed('allocations') || !plan.allocations?.length
+    ? 'Not available; do not invent one.'
+    : plan.allocations.map(a => `${a.ticker} ${a.percentage}% (${a.type}, ${a.accountType})`).join(', ');
+  const market = failed('research') || !plan.marketAnalysis?.macroOutlook
+    ? 'Not available.'
+    : `${plan.marketAnalysis.macroOutlook} Inflation: ${plan.marketAnalysis.inflationForecast} Rates: ${plan.marketAnalysis.interestRateView}${plan.sectorTrends?.length ? ` Sectors: ${plan.sectorTrends.map(t => `${t.sector} (${t.trend})`).join(', ')}.` : ''}`;
+  const portfolio = plan.portfolioAnalysis
+    ? `Score ${plan.portfolioAnalysis.currentScore}/100. ${plan.portfolioAnalysis.analysis}${plan.portfolioAnalysis.rebalancingOrders?.length ? ` Orders: ${plan.portfolioAnalysis.rebalancingOrders.map(o => `${o.action} ${o.ticker} ${o.amount}`).join('; ')}.` : ''}`
+    : failed('portfolio') ? 'Not available.' : 'No current portfolio was provided.';
+  return `    - Target Allocation: ${allocations}
+    - Market Intelligence: ${market}
+    - Portfolio Health Check: ${portfolio}`;
+};
+
+const buildStagePrompt = (section: PlanSection, ctx: PlanContext, plan: Partial<InvestmentPlan>): string => {
+  const { profile, assumptions, projections } = ctx;
+  const schema = `JSON SCHEMA:
+    ${JSON.stringify(describeSchema(pickSchema(SECTION_FIELDS[section])))}`;
+  const jsonOnly = `OUTPUT FORMAT:
+    - Reply with ONLY a strict JSON block wrapped in \`\`\`json ... \`\`\`. No text before or after it.
+
+    ${schema}`;
+  const team = `You are one of several specialists preparing this client's plan: others research the markets, design the allocation, check the current portfolio and write the summary. Cover ONLY your task below.`;
 
-    2. **Mindful Macro-Economic View**: Explain the current economic environment in simple terms. Focus on what it means for a long-term investor and how to remain disciplined, avoiding fear or greed.
+  switch (section) {
+    case 'research':
+      return `${ctx.snapshot}
 
-    3. **Building Your Wealth Engine**: Recommend a core investment strategy based on the client's profile. Emphasize the principles of low-cost, diversified investing as the most reliable path to wealth creation.
+    ${team}
 
-    4. **Understanding Your Investments**: For each recommended holding, explain its purpose in simple terms.
+    YOUR TASK: Market Intelligence (Utilize Google Search for current data).
+
+    1. **Mindful Macro-Economic View**: Explain the current economic environment in simple terms: the macro outlook, the inflation forecast and the interest rate view. Focus on what it means for a long-term investor and how to remain disciplined, avoiding fear or greed.
+
+    2. **Sector & Thematic Views**: Identify the sectors and themes most relevant to the client's goals and geographic focus. For each, say whether to accumulate, hold or reduce, with recent performance in percent and your reasoning.
+
+    3. **Filings & Corporate Events**: Summarize recent SEC filings or corporate events for securities the client holds, or for broad-market funds suited to their profile if they hold none.
+
+    ${jsonOnly}
+  `;
+    case 'allocations':
+      return `${ctx.snapshot}
+
+    ${team}
+
+    YOUR TASK: Allocation Design (Utilize Google Search for current data).
+
+    1. **Building Your Wealth Engine**: Recommend a core investment strategy based on the client's profile. Emphasize the principles of low-cost, diversified investing as the most reliable path to wealth creation.
+       - Each allocation's "accountType" MUST be one of: ${ACCOUNT_TYPES.map(t => `"${t}"`).join(', ')}, or "Any" if the holding fits in any account. Only use account types the client actually has. Consider each account's tax treatment (taxable, tax-deferred, tax-free) when placing holdings, and remember HSA and 529 funds are earmarked for medical and education expenses.
+       - Percentages must add up to 100.
+
+    2. **Understanding Your Investments**: For each recommended holding, explain its purpose in simple terms.
        - **Why this investment?** What role does it play in your plan (e.g., "This is your engine for growth," or "This helps protect against inflation").
        - **Staying the Course:** Briefly mention current market sentiment or technicals not as a reason to trade, but as an educational point on market volatility. For example: "Markets are currently optimistic on tech, but our goal with this ETF is to hold it for decades, capturing long-term innovation regardless of short-term noise."
 
-    5. **Financial Health Check-Up (CRITICAL)**:
-       - Analyze the client's "Current Investments".
-       - **If no portfolio is provided**: State this clearly. The first "actionableStep" must be "Let's get a full picture! Please import your current portfolio so we can do a complete financial health check-up." The "portfolioAnalysis" field in the final JSON MUST be \`null\`.
-       - **If portfolio data IS provided**:
-         - Assign a "Financial Health Score" (0-100) based on diversification, cost-efficiency, and alignment with their goals.
-         - Provide specific "Rebalancing & Habit Recommendations": e.g., "Your portfolio is healthy but a bit too focused on one area. Let's improve diversification by..." or "A great next step would be to automate your monthly savings."
+    ${jsonOnly}
+  `;
+    case 'portfolio':
+      return `${ctx.snapshot}
+
+    ${team}
 
-    6. **Financial Wellness SWOT & Actionable Steps**:
+    YOUR TASK: Financial Health Check-Up (Utilize Google Search for current prices).
+       - Analyze the client's "Current Investments". When structured holdings are provided, base weights, concentration and rebalancing amounts on those exact quantities and market values.
+       - Assign a "Financial Health Score" (0-100) based on diversification, cost-efficiency, and alignment with their goals.
+       - Use the look-through exposure, not just ticker weights, to judge concentration: overlapping funds and single companies held several times over count against diversification.
+       - When tax lots are listed, prefer selling long-term lots and lots with the smallest gains in taxable accounts, and mention the estimated gain in the SELL order's reason.
+       - Provide specific "Rebalancing & Habit Recommendations": e.g., "Your portfolio is healthy but a bit too focused on one area. Let's improve diversification by..." or "A great next step would be to automate your monthly savings."
+
+    ${jsonOnly}
+  `;
+    case 'summary': {
+      const finalProjection = projections[projections.length - 1];
+      return `${ctx.snapshot}
+
+    THE SPECIALISTS' FINDINGS (already shown to the client; build on them and never contradict them):
+${describeFindings(plan)}
+
+    YOUR TASK: Write the client's plan summary and action plan (Utilize Google Search for current data).
+
+    1. **Financial Health Summary**: Write an encouraging and clear executive summary titled "Your Financial Wellness Plan". Structure this summary using clear Markdown with the following H3 headings for maximum readability:
+        - ### Your Financial Snapshot & Key Strengths
+        - ### Opportunities for Growth & Improvement
+        - ### A Clear Path Forward
+        Use bullet points or numbered lists. Your goal is to build confidence and provide clarity. This summary MUST be the first part of your response.
+
+    2. **Risk Analysis**: Describe the main risks of the target allocation for this client, in plain language.
+
+    3. **Financial Wellness SWOT & Actionable Steps**:
        - Perform a SWOT analysis on the client's financial health.
        - Provide 3-5 clear, encouraging, and actionable steps. The first step should always be the most important habit to build (e.g., "Build your emergency fund to 6 months of expenses.").
+       - ${hasPortfolio(profile) ? 'Draw on the Portfolio Health Check for steps about the current investments.' : `No portfolio was provided. The first "actionableStep" must be "Let's get a full picture! Please import your current portfolio so we can do a complete financial health check-up."`}
+       - Debt with an APR of 8% or more outranks investing beyond any employer match. If the client has such debt, say how much of the Monthly Savings Rate should go to paying it down before investing, and never recommend investing the full amount while it remains.
 
-    7. **Financial Growth Projection**: Calculate a 30-year wealth projection (Conservative 4%, Expected 7%, Aggressive 10%), adjusting for 2.5% long-term average inflation. Frame this as a demonstration of the power of consistent saving and compounding.
+    4. **Financial Growth Projection**: The app has already computed the projection locally (Conservative ${assumptions.conservativeReturn}%, Expected ${assumptions.expectedReturn}%, Aggressive ${assumptions.aggressiveReturn}%, ${assumptions.inflation}% inflation). By ${finalProjection.year}${profile.partner ? ', when the last household member retires' : ` (age ${finalProjection.age})`}, invested assets reach $${finalProjection.expected.toLocaleString()} expected ($${finalProjection.conservative.toLocaleString()} conservative, $${finalProjection.aggressive.toLocaleString()} aggressive), or $${finalProjection.inflationAdjusted.toLocaleString()} in today's dollars, from $${finalProjection.totalContributions.toLocaleString()} of principal. Quote these figures rather than calculating your own, and frame them as a demonstration of the power of consistent saving and compounding. Do not include projections in the JSON.${profile.partner ? `
+       - This is a household: contributions to each member's accounts stop in that member's retirement year, while joint accounts keep receiving contributions until the later retirement. Mention both retirement dates in the summary.` : ''}
 
     OUTPUT FORMAT:
     - Start with the formatted Financial Health Summary.
     - END with a strict JSON block wrapped in \`\`\`json ... \`\`\`. Do not add any text after the JSON block.
-    
-    JSON SCHEMA:
-    {
-      "actionableSteps": ["..."],
-      "swot": { "strengths": ["..."], "weaknesses": ["..."], "opportunities": ["..."], "threats": ["..."] },
-      "allocations": [{ 
-          "ticker": "...", "name": "...", "sector": "...", "percentage": 0, "type": "...", "rationale": "...", "accountType": "...", "dividendYield": 0, "technicalAnalysis": {"summary": "...", "support": "...", "resistance": "...", "indicatorSignal": "..."}, "marketSentiment": {"score": "...", "summary": "...", "analystRating": "..."} 
-      }],
-      "projections": [{"year": 0, "conservative": 0, "expected": 0, "aggressive": 0, "inflationAdjusted": 0, "totalContributions": 0}],
-      "marketAnalysis": {"macroOutlook": "...", "inflationForecast": "...", "interestRateView": "..."},
-      "secEvents": [{"ticker": "...", "type": "...", "date": "...", "summary": "...", "sentiment": "..."}],
-      "sectorTrends": [{"sector": "...", "trend": "...", "performance": 0, "reasoning": "..."}],
-      "portfolioAnalysis": {"currentScore": 0, "analysis": "...", "rebalancingOrders": [{"ticker": "...", "action": "...", "amount": "...", "reason": "..."}]}
-    }
+
+    ${schema}
   `;
-    // FIX: Implement the function to call the Gemini API and parse the response.
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
+    }
+  }
+};
+
+const setSectionState = (plan: Partial<InvestmentPlan>, section: PlanSection, state: PlanSectionState) => {
+  plan.sections = { ...plan.sections, [section]: state };
+  const warnings = Object.values(plan.sections).flatMap(s => s?.warnings || []);
+  plan.dataQualityWarnings = warnings.length > 0 ? warnings : undefined;
+};
+
+/**
+ * Runs one stage and merges its fields into `plan`, reporting streamed fields and status
+ * changes through `emit`. Retryable errors start the stage again after a backoff; once it
+ * gives up (or is cancelled), its fields get empty defaults, its state records the error,
+ * and the error is returned rather than thrown so the other stages carry on.
+ */
+const runSection = async (
+  section: PlanSection,
+  ctx: PlanContext,
+  plan: Partial<InvestmentPlan>,
+  provider: LLMProvider,
+  emit: () => void,
+  signal?: AbortSignal
+): Promise<LLMError | null> => {
+  setSectionState(plan, section, { status: 'running' });
+  emit();
+
+  try {
+    const request = { prompt: buildStagePrompt(section, ctx, plan), schema: pickSchema(SECTION_FIELDS[section]), grounding: true, signal };
+    const output = await withBackoff(() => runStage(provider, request, progress => {
+      const fields = progress.sections.map(([key, value]) => getStreamedSection(key, value)).filter(Boolean);
+      const summaryChanged = section === 'summary' && progress.summary !== plan.summary;
+      if (!summaryChanged && fields.length === 0) return;
+      Object.assign(plan, summaryChanged ? { summary: progress.summary } : {}, ...fields);
+      emit();
+    }), {
+      signal,
+      attempts: MAX_STAGE_ATTEMPTS,
+      onRetry: (error, attempt) => console.warn(`${PLAN_SECTION_LABELS[section]} failed (attempt ${attempt} of ${MAX_STAGE_ATTEMPTS}), retrying:`, error),
     });
 
-    const responseText = response.text;
-    if (!responseText) {
-        throw new Error(
-            'Received an empty response from the AI. The model may be overloaded or the prompt was blocked.'
-        );
-    }
+    const { fields, warnings } = sanitizeSection(section, output.value);
+    Object.assign(plan, fields, section === 'summary' ? { summary: output.summary || "No summary provided." } : {});
+    plan.sources = [...(plan.sources || []), ...output.sources.filter(src => !plan.sources?.some(s => s.url === src.url))];
+    setSectionState(plan, section, { status: 'done', warnings: warnings.length > 0 ? warnings : undefined });
+    emit();
+    return null;
+  } catch (err) {
+    const error = toLLMError(err);
+    if (!(error instanceof CancelledError)) console.error(`${PLAN_SECTION_LABELS[section]} failed:`, error);
+    Object.assign(plan, sanitizeSection(section, {}).fields, section === 'summary' ? { summary: '' } : {});
+    setSectionState(plan, section, { status: 'failed', error: error.message, errorKind: error.kind });
+    emit();
+    return error;
+  }
+};
 
-    const summary = responseText.substring(0, responseText.indexOf('```json')).trim();
-    const jsonBlockMatch = responseText.match(/```json([\s\S]*)```/);
+/**
+ * Generates a plan as a pipeline of stages. Market research, allocation design and the
+ * portfolio check run concurrently, then the summary is written with their results as
+ * context. Each stage fails on its own: the plan comes back with the failed stage's state
+ * set, and only a run where every stage failed throws. Aborting `signal` stops every stage
+ * and throws `CancelledError`; the last progress update still holds whatever had arrived.
+ */
+export async function generateInvestmentStrategy(
+  profile: UserProfile,
+  provider: LLMProvider,
+  assumptions: ProjectionAssumptions = DEFAULT_PROJECTION_ASSUMPTIONS,
+  onProgress?: (partial: Partial<InvestmentPlan>) => void,
+  signal?: AbortSignal
+): Promise<InvestmentPlan> {
+  // The form blocks these too, but the service shouldn't quietly build a plan on invented ages.
+  const profileErrors = validateProfile(profile).filter(i => i.severity === 'error');
+  if (profileErrors.length > 0) {
+    throw new Error(`Profile is incomplete: ${profileErrors.map(i => i.message).join(' ')}`);
+  }
 
-    if (!jsonBlockMatch || !jsonBlockMatch[1]) {
-        console.error('Malformed AI Response:', responseText);
-        throw new Error(
-            'Failed to find a valid JSON block in the AI response. Please try regenerating.'
-        );
-    }
+  const ctx = buildPlanContext(profile, assumptions);
 
-    const jsonString = jsonBlockMatch[1].trim();
-    let parsedJson;
-    try {
-        parsedJson = JSON.parse(jsonString);
-    } catch (e) {
-        console.error('JSON Parsing Error:', e);
-        console.error('Invalid JSON string:', jsonString);
-        throw new Error(
-            'The AI returned a malformed data structure. Please try regenerating.'
-        );
-    }
+  // Locally computed parts are ready before the model says anything.
+  const plan: Partial<InvestmentPlan> = { netWorth: getNetWorth(profile), projections: ctx.projections, projectionAssumptions: assumptions, sources: [] };
+  const emit = () => onProgress?.({ ...plan });
+  emit();
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    const sources: GroundingSource[] = [];
-    if (groundingChunks) {
-        groundingChunks.forEach((chunk: GroundingChunk) => {
-            if (chunk.web?.uri && chunk.web?.title) {
-                sources.push({ url: chunk.web.uri, title: chunk.web.title });
-            }
-        });
-    }
+  // Without any holdings there is nothing to check, so the portfolio stage doesn't run.
+  const sections = PARALLEL_SECTIONS.filter(section => section !== 'portfolio' || hasPortfolio(profile));
+  const errors = await Promise.all(sections.map(section => runSection(section, ctx, plan, provider, emit, signal)));
+  errors.push(await runSection('summary', ctx, plan, provider, emit, signal));
 
-    const sanitizedPlan = validateAndSanitizePlan(parsedJson, summary);
-    sanitizedPlan.sources = sources;
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+  if (errors.every(Boolean)) {
+    throw errors[0];
+  }
+  return plan as InvestmentPlan;
+}
 
-    return sanitizedPlan;
+/**
+ * Runs one stage of an existing plan again, usually after it failed, and returns the
+ * updated plan. A repeated failure, or cancellation through `signal`, is recorded in the
+ * section's state, not thrown.
+ */
+export async function retryPlanSection(
+  plan: InvestmentPlan,
+  section: PlanSection,
+  profile: UserProfile,
+  provider: LLMProvider,
+  onProgress?: (partial: Partial<InvestmentPlan>) => void,
+  signal?: AbortSignal
+): Promise<InvestmentPlan> {
+  const ctx = buildPlanContext(profile, plan.projectionAssumptions || DEFAULT_PROJECTION_ASSUMPTIONS);
+  const next: Partial<InvestmentPlan> = { ...plan };
+  await runSection(section, ctx, next, provider, () => onProgress?.({ ...next }), signal);
+  return next as InvestmentPlan;
 }
 
 // FIX: Add the missing 'createAdvisorChat' function.
-export function createAdvisorChat(plan: InvestmentPlan, apiKey: string, history: Content[]): Chat {
-  const ai = getClient(apiKey);
-
+export function createAdvisorChat(plan: InvestmentPlan, provider: LLMProvider, history: LLMMessage[]): LLMChat {
   const systemInstruction = `
     You are "The Steward," an expert AI Financial Advisor.
     Your role is to provide clarifying, data-driven, and educational answers about the user's generated investment plan.
     You are helpful, encouraging, and an expert in financial markets, portfolio management, and economic principles.
     Your personality is that of a wise, patient, and timeless advisor. Avoid hype and focus on long-term, evidence-based principles.
     You MUST ground your answers in the context of the user's provided plan. Refer to their allocations, goals, and risk profile.
-    You have access to Google Search to provide up-to-the-minute data to support your answers.
+    ${provider.supportsGrounding ? 'You have access to Google Search to provide up-to-the-minute data to support your answers.' : 'You do not have web access; say so when a question needs current market data.'}
     NEVER provide direct financial advice or tell the user to buy/sell a specific security. Instead, educate them on the principles so they can make their own informed decisions.
 
     Here is the user's investment plan for context:
@@ -246,14 +405,11 @@ export function createAdvisorChat(plan: InvestmentPlan, apiKey: string, history:
     ---
   `;
 
-  const chat = ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction,
-      tools: [{ googleSearch: {} }],
-    },
-    history,
-  });
-
-  return chat;
+  const chat = provider.createChat({ system: systemInstruction, history, grounding: true });
+  return {
+    send: (message, signal) => withBackoff(
+      () => withDeadline(CHAT_TIMEOUT_MS, signal, deadline => chat.send(message, deadline)),
+      { signal }
+    ),
+  };
 }
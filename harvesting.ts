@@ -0,0 +1,165 @@
+import { HarvestOpportunity, HarvestScanResult, Holding, TaxSummary, WashSaleConflict } from '../types';
+import { isLongTermHolding } from './portfolioImport';
+import { CAPITAL_LOSS_LIMIT, isShelteredHolding } from './tax';
+
+export const DEFAULT_MIN_HARVEST_LOSS = 500;
+
+/**
+ * Funds that track the same index are treated as substantially identical to each other:
+ * selling one at a loss and buying another within 30 days is a wash sale.
+ */
+const SUBSTANTIALLY_IDENTICAL: string[][] = [
+  ['VOO', 'IVV', 'SPY', 'SPLG'],
+  ['QQQ', 'QQQM'],
+  ['VTI', 'VTSAX'],
+  ['VXUS', 'VTIAX'],
+  ['BND', 'VBTLX'],
+];
+
+/**
+ * Replacement funds with similar exposure but a different index, so the swap keeps the
+ * portfolio invested without being substantially identical. The first entry is suggested.
+ */
+export const ETF_SUBSTITUTES: Record<string, string[]> = {
+  // US total market and large cap
+  VTI: ['ITOT', 'SCHB'],
+  ITOT: ['VTI', 'SCHB'],
+  SCHB: ['VTI', 'ITOT'],
+  VOO: ['SCHX', 'VV'],
+  IVV: ['SCHX', 'VV'],
+  SPY: ['SCHX', 'VV'],
+  SPLG: ['SCHX', 'VV'],
+  SCHX: ['VOO', 'VV'],
+  VV: ['IVV', 'SCHX'],
+  QQQ: ['VGT', 'XLK'],
+  QQQM: ['VGT', 'XLK'],
+  VGT: ['XLK', 'QQQ'],
+  VUG: ['SCHG', 'IWF'],
+  SCHG: ['VUG', 'IWF'],
+  VTV: ['SCHV', 'IWD'],
+  SCHV: ['VTV', 'IWD'],
+  // US small and mid cap
+  VB: ['SCHA', 'IJR'],
+  IJR: ['VB', 'SCHA'],
+  SCHA: ['VB', 'IJR'],
+  VO: ['IJH', 'SCHM'],
+  IJH: ['VO', 'SCHM'],
+  // Dividend
+  SCHD: ['VYM', 'DGRO'],
+  VYM: ['SCHD', 'DGRO'],
+  VIG: ['DGRO', 'SCHD'],
+  DGRO: ['VIG', 'SCHD'],
+  // International
+  VXUS: ['IXUS', 'ACWX'],
+  IXUS: ['VXUS', 'ACWX'],
+  VEA: ['IEFA', 'SCHF'],
+  IEFA: ['VEA', 'SCHF'],
+  SCHF: ['VEA', 'IEFA'],
+  VWO: ['IEMG', 'SCHE'],
+  IEMG: ['VWO', 'SCHE'],
+  // Bonds
+  BND: ['AGG', 'SCHZ'],
+  AGG: ['BND', 'SCHZ'],
+  SCHZ: ['BND', 'AGG'],
+  BNDX: ['IAGG'],
+  IAGG: ['BNDX'],
+  TIP: ['SCHP', 'VTIP'],
+  SCHP: ['TIP', 'VTIP'],
+  // Real estate
+  VNQ: ['SCHH', 'USRT'],
+  SCHH: ['VNQ', 'USRT'],
+};
+
+const WASH_SALE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+const identicalTickers = (ticker: string) =>
+  SUBSTANTIALLY_IDENTICAL.find(group => group.includes(ticker)) || [ticker];
+
+export const getReplacement = (ticker: string) => ETF_SUBSTITUTES[ticker.toUpperCase()]?.[0] || null;
+
+/**
+ * Purchases of the same or a substantially identical security in the 30 days before
+ * `today`, in any account. Buys inside an IRA or Roth count too, and make the loss
+ * permanently disallowed rather than deferred.
+ */
+const findWashSaleConflicts = (ticker: string, holdings: Holding[], excludeDate: string | null, excludeAccount: string, today: Date) => {
+  const tickers = identicalTickers(ticker);
+  const conflicts: WashSaleConflict[] = [];
+  for (const h of holdings) {
+    if (!tickers.includes(h.ticker.toUpperCase())) continue;
+    for (const lot of h.lots || []) {
+      if (lot.purchaseDate === excludeDate && h.account === excludeAccount) continue;
+      const age = today.getTime() - new Date(lot.purchaseDate).getTime();
+      if (age < 0 || age > WASH_SALE_WINDOW_MS) continue;
+      conflicts.push({
+        ticker: h.ticker.toUpperCase(),
+        account: h.account,
+        purchaseDate: lot.purchaseDate,
+        quantity: lot.quantity,
+        permanent: isShelteredHolding(h),
+      });
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Finds lots in taxable accounts whose unrealized loss is at least `minLoss`. Lots are used
+ * when available; otherwise the position's total cost basis is compared as one lot of
+ * unknown age. Tax saved per lot assumes the loss offsets gains of the same term. Without
+ * gains, the losses offset at most $3,000 of ordinary income a year at the marginal rate
+ * (`incomeOffsetSaved`) and the rest carries forward.
+ */
+export const scanHarvestOpportunities = (
+  holdings: Holding[],
+  summary: TaxSummary,
+  minLoss = DEFAULT_MIN_HARVEST_LOSS,
+  today = new Date()
+): HarvestScanResult => {
+  const opportunities: HarvestOpportunity[] = [];
+  let positionsWithoutBasis = 0;
+
+  for (const h of holdings) {
+    if (isShelteredHolding(h) || h.quantity <= 0) continue;
+    const ticker = h.ticker.toUpperCase();
+    const price = h.marketValue / h.quantity;
+
+    const candidates = h.lots && h.lots.length > 0
+      ? h.lots.map(lot => ({ purchaseDate: lot.purchaseDate as string | null, quantity: lot.quantity, costBasis: lot.costBasis }))
+      : h.costBasis !== undefined
+        ? [{ purchaseDate: null, quantity: h.quantity, costBasis: h.costBasis }]
+        : [];
+    if (candidates.length === 0) positionsWithoutBasis++;
+
+    for (const c of candidates) {
+      const marketValue = c.quantity * price;
+      const loss = c.costBasis - marketValue;
+      if (loss < minLoss) continue;
+      const term = c.purchaseDate === null ? 'unknown' : isLongTermHolding(c.purchaseDate, today) ? 'long' : 'short';
+      const rate = term === 'short' ? summary.shortTermGainsRate : summary.capitalGainsRate;
+      opportunities.push({
+        ticker,
+        account: h.account,
+        purchaseDate: c.purchaseDate,
+        quantity: c.quantity,
+        marketValue: Math.round(marketValue),
+        costBasis: Math.round(c.costBasis),
+        loss: Math.round(loss),
+        term,
+        taxSaved: Math.round((loss * rate) / 100),
+        replacement: getReplacement(ticker),
+        washSaleConflicts: findWashSaleConflicts(ticker, holdings, c.purchaseDate, h.account, today),
+      });
+    }
+  }
+
+  opportunities.sort((a, b) => b.loss - a.loss);
+  const totalLoss = opportunities.reduce((sum, o) => sum + o.loss, 0);
+  return {
+    opportunities,
+    totalLoss,
+    totalTaxSaved: opportunities.reduce((sum, o) => sum + o.taxSaved, 0),
+    incomeOffsetSaved: Math.round((Math.min(totalLoss, CAPITAL_LOSS_LIMIT) * summary.marginalRate) / 100),
+    positionsWithoutBasis,
+  };
+};
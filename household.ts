@@ -0,0 +1,71 @@
+import { AccountOwner, HouseholdMember, InvestmentAccount, MemberBreakdown, UserProfile } from '../types';
+import { getAccountBalance, getBalancesByTreatment } from './accounts';
+
+export const createPartner = (): HouseholdMember => ({
+  id: 'partner',
+  name: '',
+  age: '',
+  retirementAge: '',
+  annualIncome: '',
+});
+
+export const OWNER_LABELS: Record<AccountOwner, string> = {
+  primary: 'You',
+  partner: 'Partner',
+  joint: 'Joint',
+};
+
+export const getMemberName = (member: HouseholdMember) =>
+  member.name || OWNER_LABELS[member.id];
+
+/**
+ * The primary member is described by the profile's top-level fields; the partner, when
+ * present, by `profile.partner`. This keeps single-person profiles unchanged.
+ */
+export const getHouseholdMembers = (profile: UserProfile): HouseholdMember[] => {
+  const primary: HouseholdMember = {
+    id: 'primary',
+    name: '',
+    age: profile.age,
+    retirementAge: profile.retirementAge,
+    annualIncome: profile.annualIncome,
+  };
+  return profile.partner ? [primary, profile.partner] : [primary];
+};
+
+export const getAccountOwner = (account: InvestmentAccount): AccountOwner => account.owner || 'primary';
+
+export const getHouseholdIncome = (profile: UserProfile) =>
+  getHouseholdMembers(profile).reduce((sum, m) => sum + (Number(m.annualIncome) || 0), 0);
+
+export const getRetirementYear = (member: HouseholdMember, currentYear = new Date().getFullYear()) =>
+  currentYear + Math.max(0, Number(member.retirementAge) - Number(member.age));
+
+/**
+ * Splits household assets per member. Joint accounts are divided evenly so each
+ * member's share of the household is visible.
+ */
+export const getMemberBreakdown = (profile: UserProfile): MemberBreakdown[] => {
+  const members = getHouseholdMembers(profile);
+  const jointShare = 1 / members.length;
+
+  return members.map(member => {
+    const owned = profile.accounts.filter(a => getAccountOwner(a) === member.id);
+    const joint = profile.accounts.filter(a => getAccountOwner(a) === 'joint');
+    const scaled = [
+      ...owned,
+      ...joint.map(a => ({
+        ...a,
+        balance: getAccountBalance(a) * jointShare,
+        monthlyContribution: (Number(a.monthlyContribution) || 0) * jointShare,
+      })),
+    ];
+    return {
+      member,
+      retirementYear: getRetirementYear(member),
+      totalBalance: scaled.reduce((sum, a) => sum + getAccountBalance(a), 0),
+      monthlyContribution: scaled.reduce((sum, a) => sum + (Number(a.monthlyContribution) || 0), 0),
+      balancesByTreatment: getBalancesByTreatment(scaled),
+    };
+  });
+};
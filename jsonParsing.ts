@@ -0,0 +1,225 @@
+/**
+ * Lenient JSON extraction for model output. Models wrap JSON in markdown fences, leave
+ * trailing commas, split one object over several blocks, or stop mid-object when they run
+ * out of tokens. These helpers recover as much as they safely can.
+ */
+
+export interface ExtractedJson {
+  summary: string; // Prose before the first JSON block
+  value: Record<string, any> | null; // Merged top-level object, or null if nothing parsed
+  truncated: boolean; // Output was cut off and incomplete trailing fields were dropped
+  blockCount: number;
+}
+
+// Caps the number of cut points tried when closing truncated JSON.
+const MAX_TRUNCATION_ATTEMPTS = 200;
+
+const FENCE = /```(?:json|JSON)?[ \t]*\r?\n?([\s\S]*?)(?:```|$)/g;
+
+/** Removes commas that directly precede a closing bracket, ignoring string contents. */
+export const stripTrailingCommas = (text: string): string => {
+  let out = '';
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    if (ch === ',') {
+      let j = i + 1;
+      while (j < text.length && /\s/.test(text[j])) j++;
+      if (text[j] === '}' || text[j] === ']') continue;
+    }
+    out += ch;
+  }
+  return out;
+};
+
+const closers = (stack: string[]) => stack.slice().reverse().map(open => (open === '{' ? '}' : ']')).join('');
+
+/**
+ * Closes JSON that stops part-way through. Tries the text as-is with an unterminated
+ * string closed first, then cuts back to earlier element boundaries until the result
+ * parses, so a half-written field is dropped rather than guessed.
+ */
+export const closeTruncatedJson = (text: string): any | undefined => {
+  const cuts: { index: number; stack: string[] }[] = [];
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      cuts.push({ index: i + 1, stack: [...stack] });
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      cuts.push({ index: i + 1, stack: [...stack] });
+    } else if (ch === ',') {
+      cuts.push({ index: i, stack: [...stack] });
+    }
+  }
+
+  const attempts = [
+    ...(inString ? [text + '"' + closers(stack)] : [text + closers(stack)]),
+    ...cuts.reverse().slice(0, MAX_TRUNCATION_ATTEMPTS).map(c => text.slice(0, c.index) + closers(c.stack)),
+  ];
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(stripTrailingCommas(attempt));
+    } catch {
+      // Try the next boundary.
+    }
+  }
+  return undefined;
+};
+
+const parseBlock = (block: string): { value: any; truncated: boolean } | null => {
+  const start = block.search(/[{[]/);
+  if (start === -1) return null;
+  const body = block.slice(start).trim();
+  try {
+    return { value: JSON.parse(stripTrailingCommas(body)), truncated: false };
+  } catch {
+    const value = closeTruncatedJson(body);
+    return value === undefined ? null : { value, truncated: true };
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Finds the JSON in a model response. Every fenced block is parsed (an unclosed final
+ * fence counts as truncated output) and the objects are merged in order, later keys
+ * winning. Without fences, the text from the first brace is used.
+ */
+export const extractJson = (text: string): ExtractedJson => {
+  const fenceStart = text.indexOf('```');
+  const braceStart = text.indexOf('{');
+  const jsonStart = fenceStart !== -1 ? fenceStart : braceStart !== -1 ? braceStart : text.length;
+  const blocks = fenceStart !== -1
+    ? [...text.matchAll(FENCE)].map(m => m[1])
+    : braceStart !== -1 ? [text.slice(braceStart)] : [];
+  const summary = text.slice(0, jsonStart).trim();
+
+  let value: Record<string, any> | null = null;
+  let truncated = false;
+  let blockCount = 0;
+  for (const block of blocks) {
+    const parsed = parseBlock(block);
+    if (!parsed || !isObject(parsed.value)) continue;
+    value = { ...(value || {}), ...parsed.value };
+    truncated = truncated || parsed.truncated;
+    blockCount++;
+  }
+  return { summary, value, truncated, blockCount };
+};
+
+export interface StreamProgress {
+  summary: string; // Prose received so far, up to the JSON fence
+  sections: [string, unknown][]; // Top-level JSON fields completed by this chunk
+}
+
+/**
+ * Incremental parser for a streamed "prose, then ```json block" response. Each `push`
+ * scans only the new text and returns the summary so far plus any top-level JSON fields
+ * whose values have just closed, so they can be shown before the rest arrives. Only the
+ * first JSON block is followed; `extractJson` on the full text remains the final word.
+ */
+export const createStreamParser = () => {
+  let text = '';
+  let fenceStart = -1;
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let expectKey = false;
+  let key: string | null = null;
+  let valueStart = -1;
+  let done = false;
+
+  // Hold back a partially received fence so it doesn't flash in the summary.
+  const summaryText = () =>
+    fenceStart !== -1 ? text.slice(0, fenceStart).trim() : text.replace(/`{1,3}(j(s(on?)?)?)?$/i, '').trim();
+
+  const commit = (end: number, sections: [string, unknown][]) => {
+    if (key !== null && valueStart !== -1) {
+      try {
+        sections.push([key, JSON.parse(stripTrailingCommas(text.slice(valueStart, end)))]);
+      } catch {
+        // Malformed section; leave it to the final parse and repair.
+      }
+    }
+    key = null;
+    valueStart = -1;
+    expectKey = true;
+  };
+
+  const push = (chunk: string): StreamProgress => {
+    text += chunk;
+    const sections: [string, unknown][] = [];
+
+    if (fenceStart === -1) {
+      fenceStart = text.search(/```json/i);
+      if (fenceStart === -1) return { summary: summaryText(), sections };
+      pos = fenceStart + '```json'.length;
+    }
+
+    for (; pos < text.length && !done; pos++) {
+      const ch = text[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') {
+          inString = false;
+          if (depth === 1 && expectKey) {
+            try {
+              key = JSON.parse(text.slice(stringStart, pos + 1));
+            } catch {
+              key = null;
+            }
+          }
+        }
+        continue;
+      }
+
+      if (depth === 1 && !expectKey && key !== null && valueStart === -1 && !/[\s:]/.test(ch)) valueStart = pos;
+
+      if (ch === '"') {
+        inString = true;
+        stringStart = pos;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+        if (depth === 1) expectKey = true;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) {
+          commit(pos, sections);
+          done = true;
+        }
+      } else if (ch === ',' && depth === 1) {
+        commit(pos, sections);
+      } else if (ch === ':' && depth === 1) {
+        expectKey = false;
+      }
+    }
+    return { summary: summaryText(), sections };
+  };
+
+  return { push };
+};
@@ -0,0 +1,218 @@
+import { LLMErrorKind } from '../types';
+
+/**
+ * Typed failures for language model calls. Providers throw these where they can tell what
+ * went wrong and `toLLMError` classifies the rest, so callers can decide whether to retry,
+ * and the UI what to tell the user, without matching on message text.
+ */
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind = 'unknown';
+  readonly retryable: boolean = false; // A fresh attempt might succeed
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The key is missing, invalid or lacks access to the model. */
+export class AuthError extends LLMError {
+  readonly kind = 'auth';
+}
+
+/** Quota exhausted, too many requests, or the model is overloaded. */
+export class RateLimitError extends LLMError {
+  readonly kind = 'rate_limit';
+  readonly retryable = true;
+
+  constructor(message: string, readonly retryAfterMs?: number, options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+/** The provider refused the prompt or stopped the answer on safety grounds. */
+export class SafetyBlockedError extends LLMError {
+  readonly kind = 'safety';
+}
+
+/** No response, or no new streamed text, within the time limit. */
+export class TimeoutError extends LLMError {
+  readonly kind = 'timeout';
+  readonly retryable = true;
+}
+
+/** The request never completed: offline, DNS, CORS, or a server error. */
+export class NetworkError extends LLMError {
+  readonly kind = 'network';
+  readonly retryable = true;
+}
+
+/** The model answered, but not with anything usable. */
+export class MalformedOutputError extends LLMError {
+  readonly kind = 'malformed';
+  readonly retryable = true;
+}
+
+/** The user cancelled the request. */
+export class CancelledError extends LLMError {
+  readonly kind = 'cancelled';
+
+  constructor(message = 'Cancelled.') {
+    super(message);
+  }
+}
+
+// Shown with the error message. Titles are short enough for a section banner.
+export const LLM_ERROR_HELP: Record<LLMErrorKind, { title: string; remedy: string }> = {
+  auth: {
+    title: 'The AI provider rejected your key',
+    remedy: 'Reset your API key, or choose a different provider, and make sure the key has access to the selected model.',
+  },
+  rate_limit: {
+    title: 'Rate limit or quota reached',
+    remedy: 'Wait a minute and retry. If it keeps happening, check the usage limits and billing for your key.',
+  },
+  safety: {
+    title: 'Blocked by the safety filter',
+    remedy: 'Remove unusual wording from your goals and portfolio notes and try again.',
+  },
+  timeout: {
+    title: 'The AI took too long to respond',
+    remedy: 'The service may be busy. Retry in a moment; local models may need a smaller model or more time.',
+  },
+  network: {
+    title: "Couldn't reach the AI service",
+    remedy: 'Check your internet connection. For a local server, check that it is running and allows requests from this page (CORS).',
+  },
+  malformed: {
+    title: 'The AI returned an unusable answer',
+    remedy: 'Retry. If it keeps happening with a local model, try a larger or more capable one.',
+  },
+  cancelled: {
+    title: 'Cancelled',
+    remedy: 'Retry any section to pick up where you left off.',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    remedy: 'Try again. If it persists, the details above may help.',
+  },
+};
+
+const SAFETY_PATTERN = /safety|blocked|prohibited|content[_ ]filter/i;
+const AUTH_PATTERN = /api[_ ]?key|permission|unauthori[sz]ed|unauthenticated/i;
+
+/** Maps an HTTP status from a provider's API to an error class. */
+export const errorFromStatus = (status: number, message: string, retryAfterMs?: number): LLMError => {
+  if (status === 401 || status === 403 || (status === 400 && AUTH_PATTERN.test(message))) return new AuthError(message);
+  if (status === 429) return new RateLimitError(message, retryAfterMs);
+  // 503 is what Gemini returns when the model is overloaded.
+  if (status === 503) return new RateLimitError(message, retryAfterMs);
+  if (status === 408 || status === 504) return new TimeoutError(message);
+  if (status >= 500) return new NetworkError(message);
+  if (SAFETY_PATTERN.test(message)) return new SafetyBlockedError(message);
+  return new LLMError(message);
+};
+
+/**
+ * Turns anything thrown by a provider call into an `LLMError`: typed errors pass through,
+ * aborts become `CancelledError`, errors carrying an HTTP `status` are mapped by code, and
+ * fetch failures become `NetworkError`.
+ */
+export const toLLMError = (err: unknown): LLMError => {
+  if (err instanceof LLMError) return err;
+  if (!(err instanceof Error)) return new LLMError(String(err));
+  if (err.name === 'AbortError') return new CancelledError();
+  const status = (err as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    // Gemini puts the suggested wait in the error body, e.g. "retryDelay": "32s".
+    const retryDelay = err.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return errorFromStatus(status, err.message, retryDelay ? Number(retryDelay[1]) * 1000 : undefined);
+  }
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(err.message)) {
+    return new NetworkError(err.message, { cause: err });
+  }
+  if (SAFETY_PATTERN.test(err.message)) return new SafetyBlockedError(err.message, { cause: err });
+  return new LLMError(err.message, { cause: err });
+};
+
+// Defaults for `withBackoff`: three tries, waiting up to 1s then up to 2s between them, never more than 30s.
+const DEFAULT_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/** Resolves after `ms`, or rejects with `CancelledError` as soon as `signal` aborts. */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** Exponential backoff with full jitter, honouring a server-provided retry delay when longer. */
+export const getBackoffDelay = (attempt: number, retryAfterMs = 0) =>
+  Math.min(MAX_DELAY_MS, Math.max(retryAfterMs, Math.random() * BASE_DELAY_MS * 2 ** (attempt - 1)));
+
+/**
+ * Runs `fn` with a signal that aborts when `parent` does, or when `keepAlive` hasn't been
+ * called for `timeoutMs` (streams call it on every chunk, so only a stalled stream times
+ * out). Errors from the aborted call come back as `TimeoutError` or `CancelledError`.
+ */
+export const withDeadline = async <T>(
+  timeoutMs: number,
+  parent: AbortSignal | undefined,
+  fn: (signal: AbortSignal, keepAlive: () => void) => Promise<T>
+): Promise<T> => {
+  if (parent?.aborted) throw new CancelledError();
+  const controller = new AbortController();
+  let expired = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      expired = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+  keepAlive();
+  try {
+    return await fn(controller.signal, keepAlive);
+  } catch (err) {
+    if (expired) throw new TimeoutError(`No response from the AI for ${Math.round(timeoutMs / 1000)} seconds.`, { cause: err });
+    if (parent?.aborted) throw new CancelledError();
+    throw toLLMError(err);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Calls `fn` until it succeeds, retrying errors marked `retryable` with exponential backoff
+ * and jitter. Anything else, the final failure, and cancellation are thrown as `LLMError`.
+ */
+export const withBackoff = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  { signal, attempts = DEFAULT_ATTEMPTS, onRetry }: { signal?: AbortSignal; attempts?: number; onRetry?: (error: LLMError, attempt: number) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      const error = signal?.aborted ? new CancelledError() : toLLMError(err);
+      if (!error.retryable || attempt >= attempts) throw error;
+      onRetry?.(error, attempt);
+      await sleep(getBackoffDelay(attempt, error instanceof RateLimitError ? error.retryAfterMs : 0), signal);
+    }
+  }
+};
@@ -0,0 +1,72 @@
+import { LLMProvider, ProviderConfig, ProviderKind } from '../types';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider';
+import { createOpenAiProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openAiProvider';
+import { createFixtureProvider, FIXTURE_MODEL } from './fixtureProvider';
+import { readSecure, removeSecure, writeSecure } from './vault';
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible server',
+  fixture: 'Offline demo',
+};
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: DEFAULT_GEMINI_MODEL,
+  openai: DEFAULT_OPENAI_MODEL,
+  fixture: FIXTURE_MODEL,
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiProvider(config.apiKey, config.model || DEFAULT_GEMINI_MODEL);
+    case 'openai':
+      return createOpenAiProvider(config.baseUrl || DEFAULT_OPENAI_BASE_URL, config.apiKey, config.model || DEFAULT_OPENAI_MODEL);
+    case 'fixture':
+      return createFixtureProvider();
+  }
+};
+
+/**
+ * Checks a provider configuration with a tiny real request. Any error, or a reply
+ * without text, counts as a failure, so a bad key or unreachable server is caught
+ * before the user fills in their profile.
+ */
+export const verifyProvider = async (config: ProviderConfig): Promise<boolean> => {
+  if (config.kind === 'gemini' && !config.apiKey.trim()) return false;
+  try {
+    const result = await createProvider(config).generate({ messages: [{ role: 'user', text: 'validation test' }] });
+    if (result.text.length > 0) return true;
+    console.error("Provider validation failed: The response was malformed or empty.", result);
+    return false;
+  } catch (error) {
+    console.error("Provider validation failed with a network/authentication error:", error);
+    return false;
+  }
+};
+
+const CONFIG_KEY = 'llm_provider';
+const LEGACY_KEY = 'api_key'; // Gemini key saved before other providers existed
+
+export const loadProviderConfig = async (): Promise<ProviderConfig | null> => {
+  const saved = await readSecure(CONFIG_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved);
+    } catch (e) {
+      console.error("Failed to parse provider settings", e);
+    }
+  }
+  const legacyKey = await readSecure(LEGACY_KEY);
+  return legacyKey ? { kind: 'gemini', apiKey: legacyKey } : null;
+};
+
+export const saveProviderConfig = async (config: ProviderConfig) => {
+  await writeSecure(CONFIG_KEY, JSON.stringify(config));
+  removeSecure(LEGACY_KEY);
+};
+
+export const clearProviderConfig = () => {
+  removeSecure(CONFIG_KEY);
+  removeSecure(LEGACY_KEY);
+};
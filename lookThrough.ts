@@ -0,0 +1,166 @@
+import { EffectiveExposure, FundOverlap, Holding, LookThroughResult } from '../types';
+import { aggregateHoldings } from './rebalancer';
+import BUNDLED_CONSTITUENTS from './etfConstituents.json';
+
+export interface ConstituentDataset {
+  asOf: string;
+  names: Record<string, string>;
+  funds: Record<string, { name: string; constituents: Record<string, number> }>;
+  aliases: Record<string, string>; // Funds tracking the same index as a fund in `funds`
+  diversifiedFunds: string[]; // Known funds (bonds, small caps, gold) that aren't expanded
+}
+
+/**
+ * Top constituents of common ETFs and index funds, shipped with the app. To refresh it,
+ * replace etfConstituents.json with newer fact-sheet weights and update `asOf`; a dataset
+ * loaded at runtime can also be passed to `analyzeLookThrough` directly.
+ */
+export const ETF_CONSTITUENTS = BUNDLED_CONSTITUENTS as ConstituentDataset;
+
+// Single-company exposure above this share of the portfolio is flagged.
+export const DEFAULT_CONCENTRATION_LIMIT = 5;
+
+// Fund pairs sharing less than this are not worth reporting.
+const MIN_REPORTED_OVERLAP = 5;
+
+const TOP_POSITIONS = 10;
+
+// Five-letter tickers ending in X are mutual funds and money market funds (FZROX, SPAXX).
+const MUTUAL_FUND_TICKER = /^[A-Z]{4}X$/;
+const FUND_NAME = /\b(fund|funds|etf|index|money market|sweep|target|retirement \d{4}|\d{4} (fund|trust)|ishares|spdr|bond|treasury|municipal)\b/i;
+
+/** A holding the dataset doesn't know that is still a fund by its ticker or description, not a single company. */
+const looksLikeFund = (ticker: string, name?: string) =>
+  MUTUAL_FUND_TICKER.test(ticker) || (!!name && FUND_NAME.test(name));
+
+const resolveFund = (ticker: string, dataset: ConstituentDataset) => {
+  const key = dataset.aliases[ticker] || ticker;
+  return dataset.funds[key] ? key : null;
+};
+
+/** Weight two funds share, counting each common name at the smaller of its two weights. */
+const getOverlap = (a: string, b: string, dataset: ConstituentDataset): FundOverlap => {
+  const fundA = resolveFund(a, dataset)!;
+  const fundB = resolveFund(b, dataset)!;
+  const weightsA = dataset.funds[fundA].constituents;
+  const weightsB = dataset.funds[fundB].constituents;
+  const sharedWeight = (t: string) => Math.min(weightsA[t], weightsB[t]);
+  const shared = Object.keys(weightsA).filter(t => t in weightsB).sort((x, y) => sharedWeight(y) - sharedWeight(x));
+  // Funds on the same index hold the same stocks in the same weights.
+  const overlap = fundA === fundB ? 100 : shared.reduce((sum, t) => sum + sharedWeight(t), 0);
+  return { fundA: a, fundB: b, overlap: Math.round(overlap * 10) / 10, sharedNames: shared };
+};
+
+/**
+ * Expands fund holdings into their top single-stock constituents and merges them with
+ * stocks held directly, so the same company owned through several funds is counted once.
+ * Only the constituents in the dataset are expanded; the rest of each fund is treated as
+ * diversified. Tickers the dataset doesn't know are counted as individual stocks unless
+ * their ticker or description marks them as a fund, in which case they are listed as not
+ * expanded.
+ */
+export const analyzeLookThrough = (
+  holdings: Holding[],
+  concentrationLimit = DEFAULT_CONCENTRATION_LIMIT,
+  dataset: ConstituentDataset = ETF_CONSTITUENTS
+): LookThroughResult => {
+  const positions = [...aggregateHoldings(holdings).values()].filter(p => p.value > 0);
+  const totalValue = positions.reduce((sum, p) => sum + p.value, 0);
+  const diversified = new Set(dataset.diversifiedFunds);
+
+  const exposures = new Map<string, EffectiveExposure>();
+  const exposureFor = (ticker: string, fallbackName?: string) => {
+    const existing = exposures.get(ticker);
+    if (existing) return existing;
+    const created: EffectiveExposure = {
+      ticker,
+      name: dataset.names[ticker] || fallbackName || ticker,
+      direct: 0,
+      viaFunds: 0,
+      total: 0,
+      percent: 0,
+      funds: [],
+    };
+    exposures.set(ticker, created);
+    return created;
+  };
+
+  const expandedFunds: string[] = [];
+  const notExpanded: string[] = [];
+  for (const p of positions) {
+    const fund = resolveFund(p.ticker, dataset);
+    if (fund) {
+      expandedFunds.push(p.ticker);
+      for (const [ticker, weight] of Object.entries(dataset.funds[fund].constituents)) {
+        const exposure = exposureFor(ticker);
+        exposure.viaFunds += (p.value * weight) / 100;
+        exposure.funds.push(p.ticker);
+      }
+      continue;
+    }
+    const name = holdings.find(h => h.ticker.toUpperCase() === p.ticker)?.name;
+    if (diversified.has(p.ticker) || looksLikeFund(p.ticker, name)) {
+      notExpanded.push(p.ticker);
+    } else {
+      exposureFor(p.ticker, name).direct += p.value;
+    }
+  }
+
+  const sorted = [...exposures.values()]
+    .map(e => {
+      const total = e.direct + e.viaFunds;
+      return {
+        ...e,
+        direct: Math.round(e.direct),
+        viaFunds: Math.round(e.viaFunds),
+        total: Math.round(total),
+        percent: totalValue > 0 ? (total / totalValue) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  const overlaps: FundOverlap[] = [];
+  for (let i = 0; i < expandedFunds.length; i++) {
+    for (let j = i + 1; j < expandedFunds.length; j++) {
+      const overlap = getOverlap(expandedFunds[i], expandedFunds[j], dataset);
+      if (overlap.overlap >= MIN_REPORTED_OVERLAP) overlaps.push(overlap);
+    }
+  }
+  overlaps.sort((a, b) => b.overlap - a.overlap);
+
+  return {
+    asOf: dataset.asOf,
+    totalValue,
+    exposures: sorted,
+    overlaps,
+    concentrations: sorted.filter(e => e.percent > concentrationLimit),
+    concentrationLimit,
+    expandedFunds,
+    notExpanded,
+  };
+};
+
+/** Top effective positions for display. */
+export const getTopExposures = (result: LookThroughResult, count = TOP_POSITIONS) => result.exposures.slice(0, count);
+
+const describeSources = (e: EffectiveExposure) =>
+  [e.direct > 0 ? 'direct' : null, ...e.funds].filter(Boolean).join(' + ');
+
+/** Summary of the look-through analysis for the strategy prompt. */
+export const formatLookThroughForPrompt = (result: LookThroughResult): string => {
+  const top = getTopExposures(result)
+    .map(e => `       - ${e.ticker} (${e.name}): ${e.percent.toFixed(1)}% of portfolio, $${e.total} via ${describeSources(e)}`)
+    .join('\n');
+  const overlaps = result.overlaps.length > 0
+    ? result.overlaps.map(o => `${o.fundA}/${o.fundB} ${o.overlap}%`).join(', ')
+    : `none above ${MIN_REPORTED_OVERLAP}%`;
+  const concentrations = result.concentrations.length > 0
+    ? result.concentrations.map(e => `${e.ticker} ${e.percent.toFixed(1)}%`).join(', ')
+    : 'none';
+  return `LOOK-THROUGH EXPOSURE (funds expanded into their top constituents, dataset as of ${result.asOf}, computed locally):
+     Top effective single-company positions:
+${top || '       - None'}
+     Fund overlap (shared weight among top holdings): ${overlaps}
+     Single names above ${result.concentrationLimit}% of the portfolio: ${concentrations}${result.notExpanded.length > 0 ? `
+     Not expanded (funds without constituent data, not counted as single names): ${result.notExpanded.join(', ')}` : ''}`;
+};
@@ -0,0 +1,207 @@
+import { AllocationItem, AssetClassAssumption, MonteCarloPercentiles, MonteCarloResult, UserProfile } from '../types';
+import { getContributionStreams, getProjectionHorizon } from './projection';
+import { getHouseholdIncome } from './household';
+import { getTotalInvested } from './accounts';
+
+export type AssetClass = AllocationItem['type'];
+
+/**
+ * Long-run capital market assumptions per allocation type. Deliberately round numbers:
+ * they are a starting point for "what could happen", not a forecast.
+ */
+export const ASSET_CLASS_ASSUMPTIONS: Record<AssetClass, AssetClassAssumption> = {
+  Stock: { expectedReturn: 8, volatility: 20, marketCorrelation: 0.85 },
+  ETF: { expectedReturn: 7, volatility: 15, marketCorrelation: 1 },
+  Bond: { expectedReturn: 4, volatility: 6, marketCorrelation: 0.1 },
+  REIT: { expectedReturn: 7, volatility: 19, marketCorrelation: 0.7 },
+  Crypto: { expectedReturn: 12, volatility: 65, marketCorrelation: 0.4 },
+};
+
+export const DEFAULT_PATH_COUNT = 5000;
+
+export interface MonteCarloInput {
+  profile: UserProfile;
+  allocations: AllocationItem[];
+  inflation: number; // Percent
+  targetBalance: number; // Today's dollars
+  paths?: number;
+  seed?: number;
+  assumptions?: Record<AssetClass, AssetClassAssumption>;
+}
+
+/**
+ * A default goal for the success probability: enough to fund 70% of today's household
+ * income at a 4% withdrawal rate (25x the annual need), in today's dollars.
+ */
+export const getDefaultTargetBalance = (profile: UserProfile) =>
+  Math.round((getHouseholdIncome(profile) * 0.7 * 25) / 1000) * 1000;
+
+// Small, fast seeded PRNG so the same inputs always give the same fan chart.
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const createNormal = (random: () => number) => () => {
+  // Box-Muller; 1 - random() keeps the log argument in (0, 1].
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/** Weights by asset class, normalised to sum to 1. Unknown types are treated as ETFs. */
+export const getAssetClassWeights = (allocations: AllocationItem[]): Partial<Record<AssetClass, number>> => {
+  const total = allocations.reduce((sum, a) => sum + (Number(a.percentage) || 0), 0);
+  const weights: Partial<Record<AssetClass, number>> = {};
+  if (total <= 0) return { ETF: 1 };
+  for (const a of allocations) {
+    const type: AssetClass = a.type in ASSET_CLASS_ASSUMPTIONS ? a.type : 'ETF';
+    weights[type] = (weights[type] || 0) + (Number(a.percentage) || 0) / total;
+  }
+  return weights;
+};
+
+const percentile = (sorted: Float64Array, p: number) => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+/**
+ * Simulates `paths` independent futures of the invested portfolio until the last household
+ * member retires. Each year every asset class draws a lognormal return that shares a
+ * common market shock (scaled by its `marketCorrelation`), and the portfolio is rebalanced
+ * back to the plan's weights. Contributions follow the same rules as the deterministic
+ * projection and are assumed to arrive mid-year.
+ */
+export const runMonteCarlo = ({
+  profile,
+  allocations,
+  inflation,
+  targetBalance,
+  paths = DEFAULT_PATH_COUNT,
+  seed = 42,
+  assumptions = ASSET_CLASS_ASSUMPTIONS,
+}: MonteCarloInput): MonteCarloResult => {
+  const horizon = getProjectionHorizon(profile);
+  const streams = getContributionStreams(profile);
+  const annualContributions = Array.from({ length: horizon + 1 }, (_, t) =>
+    streams.reduce((sum, s) => sum + (t >= 1 && t <= s.years ? s.monthly * 12 : 0), 0)
+  );
+
+  const weights = getAssetClassWeights(allocations);
+  const classes = (Object.keys(weights) as AssetClass[]).map(type => {
+    const { expectedReturn, volatility, marketCorrelation } = assumptions[type];
+    const mean = expectedReturn / 100;
+    const sd = volatility / 100;
+    // Lognormal parameters that reproduce the arithmetic mean and standard deviation.
+    const sigma = Math.sqrt(Math.log(1 + (sd * sd) / ((1 + mean) * (1 + mean))));
+    return {
+      weight: weights[type] || 0,
+      mu: Math.log(1 + mean) - (sigma * sigma) / 2,
+      sigma,
+      rho: Math.min(1, Math.max(0, marketCorrelation)),
+      mean,
+      sd,
+    };
+  });
+
+  const random = mulberry32(seed);
+  const normal = createNormal(random);
+  const start = getTotalInvested(profile);
+  // balancesByYear[t][path]
+  const balancesByYear = Array.from({ length: horizon + 1 }, () => new Float64Array(paths));
+
+  for (let path = 0; path < paths; path++) {
+    let balance = start;
+    balancesByYear[0][path] = balance;
+    for (let t = 1; t <= horizon; t++) {
+      const market = normal();
+      let growth = 0;
+      for (const c of classes) {
+        const shock = c.rho * market + Math.sqrt(1 - c.rho * c.rho) * normal();
+        growth += c.weight * Math.exp(c.mu + c.sigma * shock);
+      }
+      const contribution = annualContributions[t];
+      balance = (balance + contribution / 2) * growth + contribution / 2;
+      balancesByYear[t][path] = balance;
+    }
+  }
+
+  const startYear = new Date().getFullYear();
+  const startAge = Number(profile.age);
+  const percentiles: MonteCarloPercentiles[] = balancesByYear.map((balances, t) => {
+    const sorted = balances.slice().sort();
+    return {
+      year: startYear + t,
+      age: startAge + t,
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9)),
+    };
+  });
+
+  const deflator = Math.pow(1 + inflation / 100, horizon);
+  const finalBalances = balancesByYear[horizon];
+  let successes = 0;
+  for (let path = 0; path < paths; path++) {
+    if (finalBalances[path] / deflator >= targetBalance) successes++;
+  }
+
+  // Single-factor model: classes are correlated only through the shared market shock.
+  let variance = 0;
+  for (const a of classes) {
+    for (const b of classes) {
+      variance += a.weight * b.weight * a.sd * b.sd * (a === b ? 1 : a.rho * b.rho);
+    }
+  }
+
+  return {
+    paths,
+    percentiles,
+    targetBalance,
+    successProbability: successes / paths,
+    portfolioReturn: classes.reduce((sum, c) => sum + c.weight * c.mean, 0) * 100,
+    portfolioVolatility: Math.sqrt(variance) * 100,
+  };
+};
+
+/**
+ * Runs the simulation in a Web Worker so thousands of paths don't block the UI. Falls back
+ * to the main thread where workers aren't available or the worker script fails to load.
+ * `cancel` stops the worker, leaving `result` unsettled.
+ */
+export const runMonteCarloInWorker = (input: MonteCarloInput): { result: Promise<MonteCarloResult>; cancel: () => void } => {
+  let worker: Worker | null = null;
+  const result = new Promise<MonteCarloResult>((resolve, reject) => {
+    const runHere = () => {
+      try {
+        resolve(runMonteCarlo(input));
+      } catch (e) {
+        reject(e);
+      }
+    };
+    try {
+      worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+      console.error('Monte Carlo worker unavailable, running on the main thread', e);
+      runHere();
+      return;
+    }
+    const current = worker;
+    current.onmessage = (event: MessageEvent<MonteCarloResult>) => {
+      resolve(event.data);
+      current.terminate();
+    };
+    // A script that can't load (blocked, or no module worker support) is reported here rather than by the constructor.
+    current.onerror = (event) => {
+      console.error('Monte Carlo worker failed, running on the main thread', event.message);
+      current.terminate();
+      runHere();
+    };
+    current.postMessage(input);
+  });
+  return { result, cancel: () => worker?.terminate() };
+};
@@ -0,0 +1,14 @@
+import { MonteCarloResult } from '../types';
+import { MonteCarloInput, runMonteCarlo } from './monteCarlo';
+
+// The app is type-checked against the DOM lib, where `self` is a Window; describe just the
+// worker scope this file uses.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<MonteCarloInput>) => void) | null;
+  postMessage: (result: MonteCarloResult) => void;
+};
+
+// Runs one simulation per message; see runMonteCarloInWorker.
+scope.onmessage = (event) => {
+  scope.postMessage(runMonteCarlo(event.data));
+};
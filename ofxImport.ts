@@ -0,0 +1,232 @@
+import { AccountType, Holding, ImportedBalances, PortfolioImportResult } from '../types';
+import { ACCOUNT_TYPE_INFO, inferAccountType } from './accounts';
+
+interface OfxNode {
+  name: string;
+  value?: string;
+  children: OfxNode[];
+}
+
+const POSITION_TAGS = ['POSSTOCK', 'POSMF', 'POSDEBT', 'POSOPT', 'POSOTHER'];
+const SECINFO_TAGS = ['STOCKINFO', 'MFINFO', 'DEBTINFO', 'OPTINFO', 'OTHERINFO'];
+
+/**
+ * Builds a tree from the body of an OFX file. Works for both OFX 1.x (SGML, where
+ * leaf elements are never closed) and OFX 2.x (XML). A tag without a value is an
+ * aggregate only when a matching close tag follows; otherwise it is an empty SGML leaf such
+ * as <MEMO>. Throws with a readable message when the structure is broken, e.g. a truncated
+ * download.
+ */
+const parseOfxTree = (text: string): OfxNode => {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('No <OFX> element found. The file may not be an OFX/QFX statement.');
+  }
+
+  const root: OfxNode = { name: 'ROOT', children: [] };
+  const stack: OfxNode[] = [root];
+  let lastLeaf: OfxNode | null = null;
+  const body = text.slice(start);
+  const tagPattern = /<(\/?)([A-Z0-9.]+)>([^<]*)/gi;
+  let match: RegExpExecArray | null;
+
+  // Position of the last close tag for each name.
+  const lastClose = new Map<string, number>();
+  for (const close of body.matchAll(/<\/([A-Z0-9.]+)>/gi)) {
+    lastClose.set(close[1].toUpperCase(), close.index!);
+  }
+
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [, closing, rawName, rawValue] = match;
+    const name = rawName.toUpperCase();
+    const value = rawValue.trim();
+    const current = stack[stack.length - 1];
+
+    if (closing) {
+      // XML closes leaves explicitly; SGML never does.
+      if (lastLeaf && lastLeaf.name === name) {
+        lastLeaf = null;
+        continue;
+      }
+      const openIdx = stack.map(n => n.name).lastIndexOf(name);
+      if (openIdx <= 0) {
+        throw new Error(`Unexpected closing tag </${name}>.`);
+      }
+      stack.length = openIdx;
+      lastLeaf = null;
+      continue;
+    }
+
+    if (value || (lastClose.get(name) ?? -1) < match.index) {
+      lastLeaf = { name, value, children: [] };
+      current.children.push(lastLeaf);
+    } else {
+      const aggregate: OfxNode = { name, children: [] };
+      current.children.push(aggregate);
+      stack.push(aggregate);
+      lastLeaf = null;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`The file appears truncated: <${stack[stack.length - 1].name}> is never closed.`);
+  }
+  return root;
+};
+
+const findAll = (node: OfxNode, name: string): OfxNode[] => {
+  const found: OfxNode[] = [];
+  for (const child of node.children) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+};
+
+const findFirst = (node: OfxNode | undefined, name: string): OfxNode | undefined =>
+  node ? findAll(node, name)[0] : undefined;
+
+const leafValue = (node: OfxNode | undefined, name: string): string | undefined =>
+  findFirst(node, name)?.value;
+
+const leafNumber = (node: OfxNode | undefined, name: string): number | undefined => {
+  const raw = leafValue(node, name);
+  if (raw === undefined) return undefined;
+  // Some European institutions use a decimal comma.
+  const parsed = parseFloat(raw.replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Maps security ids (usually CUSIPs) to tickers and names from the SECLIST aggregate.
+ */
+const buildSecurityMap = (root: OfxNode) => {
+  const securities = new Map<string, { ticker?: string; name?: string }>();
+  for (const tag of SECINFO_TAGS) {
+    for (const info of findAll(root, tag)) {
+      const id = leafValue(info, 'UNIQUEID');
+      if (id) {
+        securities.set(id, { ticker: leafValue(info, 'TICKER'), name: leafValue(info, 'SECNAME') });
+      }
+    }
+  }
+  return securities;
+};
+
+const classifyInvestmentAccount = (statement: OfxNode, root: OfxNode, acctId: string): AccountType => {
+  // Account info responses, when bundled, state the product type and a description per account.
+  const info = findAll(root, 'INVACCTINFO').find(i => leafValue(i, 'ACCTID') === acctId);
+  const productType = (leafValue(info, 'USPRODUCTTYPE') || '').toUpperCase();
+  const description = `${leafValue(info, 'DESC') || ''} ${leafValue(statement, 'MKTGINFO') || ''}`;
+  const isRoth = /ROTH/i.test(description);
+
+  if (findFirst(statement, 'INV401K') || findFirst(statement, 'INV401KBAL') || productType === '401K' || productType === '403B') {
+    return isRoth ? 'Roth 401k' : 'Traditional 401k';
+  }
+  if (['IRA', 'KEOGH', 'SARSEP', 'SIMPLE'].includes(productType)) {
+    return isRoth ? 'Roth IRA' : 'Traditional IRA';
+  }
+  return inferAccountType(description);
+};
+
+const maskAccount = (acctId: string) => (acctId.length > 4 ? `...${acctId.slice(-4)}` : acctId);
+
+/**
+ * Parses an OFX or QFX statement into holdings and per-account balances.
+ * Investment statements contribute positions (INVPOSLIST) and available cash (INVBAL);
+ * bank statements contribute their ledger balance to cash.
+ */
+export const parseOfx = (text: string, fileName: string): PortfolioImportResult => {
+  const warnings: string[] = [];
+  let root: OfxNode;
+  try {
+    root = parseOfxTree(text);
+  } catch (e) {
+    return {
+      fileName,
+      broker: 'ofx',
+      holdings: [],
+      warnings,
+      error: e instanceof Error ? e.message : 'Malformed OFX file.',
+    };
+  }
+
+  const securities = buildSecurityMap(root);
+  const holdings: Holding[] = [];
+  const balances: ImportedBalances = { cash: [], accounts: [] };
+
+  for (const statement of findAll(root, 'INVSTMTRS')) {
+    const acctFrom = findFirst(statement, 'INVACCTFROM');
+    const acctId = leafValue(acctFrom, 'ACCTID') || 'unknown';
+    const brokerId = leafValue(acctFrom, 'BROKERID') || 'OFX';
+    const accountType = classifyInvestmentAccount(statement, root, acctId);
+    const account = `${brokerId} ${accountType} ${maskAccount(acctId)}`;
+    let accountBalance = 0;
+
+    const positionList = findFirst(statement, 'INVPOSLIST');
+    for (const tag of POSITION_TAGS) {
+      for (const position of positionList ? findAll(positionList, tag) : []) {
+        const id = leafValue(position, 'UNIQUEID') || '';
+        const security = securities.get(id);
+        const units = leafNumber(position, 'UNITS');
+        const price = leafNumber(position, 'UNITPRICE');
+        const marketValue = leafNumber(position, 'MKTVAL') ?? (units !== undefined && price !== undefined ? units * price : undefined);
+        if (units === undefined || marketValue === undefined) {
+          warnings.push(`Skipped position ${security?.ticker || id || '(unknown)'}: missing units or market value.`);
+          continue;
+        }
+        if (!security?.ticker) {
+          warnings.push(`No ticker found for security ${id}; it is listed by its identifier.`);
+        }
+        holdings.push({
+          ticker: (security?.ticker || id || 'UNKNOWN').toUpperCase(),
+          name: security?.name,
+          quantity: units,
+          marketValue,
+          account,
+          accountType,
+          source: 'ofx',
+        });
+        accountBalance += marketValue;
+      }
+    }
+
+    const availableCash = leafNumber(findFirst(statement, 'INVBAL'), 'AVAILCASH') ?? 0;
+    // Cash sitting inside a tax-advantaged account can't be used as an emergency fund.
+    if (ACCOUNT_TYPE_INFO[accountType].treatment === 'taxable') {
+      if (availableCash !== 0) balances.cash.push({ label: account, balance: availableCash });
+    } else {
+      accountBalance += availableCash;
+    }
+    if (accountBalance !== 0) {
+      balances.accounts.push({ type: accountType, label: account, balance: accountBalance });
+    }
+  }
+
+  for (const statement of [...findAll(root, 'STMTRS'), ...findAll(root, 'CCSTMTRS')]) {
+    // Credit card balances are liabilities, not cash.
+    if (statement.name === 'CCSTMTRS') {
+      warnings.push('Credit card statement skipped; only bank and investment accounts are imported.');
+      continue;
+    }
+    const ledger = leafNumber(findFirst(statement, 'LEDGERBAL'), 'BALAMT');
+    const acctId = maskAccount(leafValue(statement, 'ACCTID') || '');
+    if (ledger !== undefined) {
+      balances.cash.push({ label: `${leafValue(statement, 'BANKID') || 'Bank'} ${acctId}`, balance: ledger });
+    } else {
+      warnings.push(`No ledger balance found for bank account ${acctId}.`);
+    }
+  }
+
+  if (holdings.length === 0 && balances.cash.length === 0 && balances.accounts.length === 0) {
+    return {
+      fileName,
+      broker: 'ofx',
+      holdings,
+      warnings,
+      error: 'The file contains no investment positions or account balances.',
+    };
+  }
+
+  return { fileName, broker: 'ofx', holdings, warnings, balances };
+};
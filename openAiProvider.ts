@@ -0,0 +1,123 @@
+import { LLMMessage, LLMProvider, LLMRequest } from '../types';
+import { MalformedOutputError, SafetyBlockedError, errorFromStatus } from './llmErrors';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toMessages = (messages: LLMMessage[], system?: string): ChatCompletionMessage[] => [
+  ...(system ? [{ role: 'system' as const, content: system }] : []),
+  ...messages.map(m => ({ role: m.role === 'model' ? 'assistant' as const : 'user' as const, content: m.text })),
+];
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+};
+
+const checkFinishReason = (reason: unknown) => {
+  if (reason === 'content_filter') throw new SafetyBlockedError('The server filtered the answer (content_filter).');
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a local
+ * Ollama, llama.cpp or vLLM server. These have no web search, so answers are never grounded.
+ */
+export const createOpenAiProvider = (baseUrl = DEFAULT_OPENAI_BASE_URL, apiKey = '', model = DEFAULT_OPENAI_MODEL): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: LLMRequest, stream: boolean) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: toMessages(request.messages, request.system),
+        stream,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromStatus(
+        response.status,
+        `[${response.status} ${response.statusText.toLowerCase()}] ${endpoint}: ${detail.slice(0, 300)}`,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  };
+
+  const generate = async (request: LLMRequest) => {
+    const data = await (await post(request, false)).json();
+    checkFinishReason(data.choices?.[0]?.finish_reason);
+    return { text: data.choices?.[0]?.message?.content || '', sources: [] };
+  };
+
+  return {
+    kind: 'openai',
+    model,
+    supportsGrounding: false,
+    generate,
+    // Server-sent events: one "data: {json}" line per delta, ending with "data: [DONE]".
+    stream: async function* (request) {
+      const response = await post(request, true);
+      if (!response.body) {
+        yield await generate(request);
+        return;
+      }
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+          let choice;
+          try {
+            choice = JSON.parse(payload).choices?.[0];
+          } catch (err) {
+            throw new MalformedOutputError(`Unreadable stream event from ${endpoint}: ${payload.slice(0, 100)}`, { cause: err });
+          }
+          checkFinishReason(choice?.finish_reason);
+          const text = choice?.delta?.content;
+          if (text) yield { text, sources: [] };
+        }
+      }
+    },
+    // The API is stateless, so the chat keeps its own history.
+    createChat: ({ system, history }) => {
+      const messages = [...history];
+      return {
+        send: async (message, signal) => {
+          messages.push({ role: 'user', text: message });
+          try {
+            const reply = await generate({ messages, system, signal });
+            messages.push({ role: 'model', text: reply.text });
+            return reply;
+          } catch (err) {
+            messages.pop();
+            throw err;
+          }
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,124 @@
+import { GroundingSource, LLMMessage, LLMProvider, SchemaError, SchemaNode } from '../types';
+import { applyFieldFixes, canonicalizeEnums, validateSchema } from './planValidation';
+import { createStreamParser, extractJson, StreamProgress } from './jsonParsing';
+import { MalformedOutputError, withDeadline } from './llmErrors';
+
+// Follow-up requests allowed when a stage's JSON fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Errors listed per repair request; anything beyond is picked up by the next attempt.
+const MAX_ERRORS_PER_REPAIR = 40;
+
+// A request fails when the model sends nothing for this long. Grounded answers can search
+// for a while before the first token, and local models can be slow to load.
+const IDLE_TIMEOUT_MS = 120000;
+
+export interface StageRequest {
+  prompt: string;
+  schema: SchemaNode; // Object schema listing the fields this stage writes
+  grounding: boolean;
+  signal?: AbortSignal;
+}
+
+export interface StageOutput {
+  summary: string; // Prose before the JSON block
+  value: Record<string, any>; // The stage's fields only; anything else the model sent is dropped
+  sources: GroundingSource[];
+  warnings: string[];
+}
+
+/**
+ * Builds the follow-up message for a failed parse. With validation errors, the model is
+ * asked for corrected values keyed by JSON path so valid fields are left untouched;
+ * without any parseable JSON, it is asked to resend the whole block.
+ */
+const buildRepairRequest = (errors: SchemaError[] | null): string => {
+  if (!errors) {
+    return `Your previous reply did not contain a parseable JSON block. Reply with ONLY the complete JSON object described by the JSON SCHEMA in my first message. No prose, no markdown.`;
+  }
+  const listed = errors.slice(0, MAX_ERRORS_PER_REPAIR).map(e => `- ${e.path} ${e.message}`).join('\n');
+  return `Some fields in your JSON block are invalid:
+${listed}${errors.length > MAX_ERRORS_PER_REPAIR ? `\n- ...and ${errors.length - MAX_ERRORS_PER_REPAIR} more` : ''}
+
+Reply with ONLY a JSON object whose keys are the JSON paths above and whose values are the corrected values, e.g. {"$.allocations[2].percentage": 12.5}. Follow the JSON SCHEMA from my first message. Do not repeat fields that are already valid.`;
+};
+
+/**
+ * Runs one stage of plan generation: streams the response, reporting progress as the prose
+ * and each top-level field arrive, then parses and validates the JSON against the stage's
+ * schema and asks the model to correct invalid fields a bounded number of times. Enum values
+ * come back in the schema's spelling; fields still invalid after the corrections are
+ * returned as-is with a warning; a response with no usable
+ * JSON at all throws `MalformedOutputError`. Each request times out after a stretch of
+ * silence, and provider errors are thrown as `LLMError`s.
+ */
+export const runStage = async (
+  provider: LLMProvider,
+  request: StageRequest,
+  onProgress?: (progress: StreamProgress) => void
+): Promise<StageOutput> => {
+  const keys = request.schema.kind === 'object' ? Object.keys(request.schema.fields) : [];
+  const parser = createStreamParser();
+  const sources: GroundingSource[] = [];
+  let responseText = '';
+  await withDeadline(IDLE_TIMEOUT_MS, request.signal, async (signal, keepAlive) => {
+    const stream = provider.stream({ messages: [{ role: 'user', text: request.prompt }], grounding: request.grounding, signal });
+    for await (const chunk of stream) {
+      keepAlive();
+      responseText += chunk.text;
+      // Grounding metadata can arrive on several chunks; keep each source once.
+      sources.push(...chunk.sources.filter(src => !sources.some(s => s.url === src.url)));
+      if (!onProgress || !chunk.text) continue;
+      const progress = parser.push(chunk.text);
+      onProgress({ summary: progress.summary, sections: progress.sections.filter(([key]) => keys.includes(key)) });
+    }
+  });
+
+  if (!responseText) {
+    throw new MalformedOutputError('Received an empty response from the AI. The model may be overloaded or the prompt was blocked.');
+  }
+
+  const { summary, value, truncated } = extractJson(responseText);
+  let parsedJson = value;
+  const warnings: string[] = [];
+  if (truncated) {
+    warnings.push('The response was cut off or malformed; fields after the break were dropped.');
+  }
+  if (!parsedJson) console.error('Malformed AI Response:', responseText);
+
+  // Ask the model to correct only what failed validation, a bounded number of times.
+  const transcript: LLMMessage[] = [
+    { role: 'user', text: request.prompt },
+    { role: 'model', text: responseText },
+  ];
+  let errors = parsedJson ? validateSchema(parsedJson, request.schema) : [];
+  for (let attempt = 1; (!parsedJson || errors.length > 0) && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    transcript.push({ role: 'user', text: buildRepairRequest(parsedJson ? errors : null) });
+    const repairText = (await withDeadline(IDLE_TIMEOUT_MS, request.signal, signal => provider.generate({ messages: transcript, json: true, signal }))).text;
+    transcript.push({ role: 'model', text: repairText });
+    const fixes = extractJson(repairText).value;
+    if (!fixes) continue;
+    if (parsedJson) {
+      const { rejected } = applyFieldFixes(parsedJson, fixes, request.schema);
+      if (rejected.length > 0) {
+        console.warn('Ignored corrections outside the schema:', rejected);
+        warnings.push(`Ignored ${rejected.length} ${rejected.length === 1 ? 'correction' : 'corrections'} for fields the plan doesn't have.`);
+      }
+    } else {
+      parsedJson = fixes;
+    }
+    errors = validateSchema(parsedJson, request.schema);
+  }
+
+  if (!parsedJson) {
+    throw new MalformedOutputError('The AI returned a malformed data structure, even after being asked to correct it.');
+  }
+  if (errors.length > 0) {
+    console.warn('Plan fields still invalid after repair:', errors);
+    warnings.push(`${errors.length} ${errors.length === 1 ? 'field' : 'fields'} still failed validation after ${MAX_REPAIR_ATTEMPTS} correction requests and ${errors.length === 1 ? 'was' : 'were'} kept as the AI sent ${errors.length === 1 ? 'it' : 'them'} (${errors.slice(0, 3).map(e => e.path).join(', ')}${errors.length > 3 ? ', ...' : ''}).`);
+  }
+
+  const canonical = canonicalizeEnums(parsedJson, request.schema) as Record<string, any>;
+  const picked = Object.fromEntries(keys.filter(key => key in canonical).map(key => [key, canonical[key]]));
+  return { summary, value: picked, sources, warnings };
+};
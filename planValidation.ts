@@ -0,0 +1,289 @@
+import { AllocationItem, INVESTMENT_PLAN_SCHEMA, InvestmentPlan, MarketSentiment, SchemaError, SchemaNode } from '../types';
+import { normalizeAccountType } from './accounts';
+
+// Totals within this many points of 100 are treated as rounding and left alone.
+const PERCENT_TOLERANCE = 0.5;
+
+// Wording the model uses instead of the allowed values, lower-cased.
+const TYPE_ALIASES: Record<string, AllocationItem['type']> = {
+  stock: 'Stock',
+  stocks: 'Stock',
+  equity: 'Stock',
+  'common stock': 'Stock',
+  etf: 'ETF',
+  fund: 'ETF',
+  'index fund': 'ETF',
+  'mutual fund': 'ETF',
+  bond: 'Bond',
+  bonds: 'Bond',
+  'bond etf': 'Bond',
+  'fixed income': 'Bond',
+  treasury: 'Bond',
+  reit: 'REIT',
+  'real estate': 'REIT',
+  crypto: 'Crypto',
+  cryptocurrency: 'Crypto',
+};
+
+const SENTIMENT_ALIASES: Record<string, MarketSentiment['score']> = {
+  'very bullish': 'Very Bullish',
+  'strongly bullish': 'Very Bullish',
+  'strong buy': 'Very Bullish',
+  bullish: 'Bullish',
+  positive: 'Bullish',
+  'moderately bullish': 'Bullish',
+  buy: 'Bullish',
+  neutral: 'Neutral',
+  mixed: 'Neutral',
+  hold: 'Neutral',
+  bearish: 'Bearish',
+  negative: 'Bearish',
+  'moderately bearish': 'Bearish',
+  sell: 'Bearish',
+  'very bearish': 'Very Bearish',
+  'strongly bearish': 'Very Bearish',
+  'strong sell': 'Very Bearish',
+};
+
+const normalizeKey = (value: unknown) => String(value ?? '').trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+const toPercent = (value: unknown) => {
+  const parsed = typeof value === 'string' ? parseFloat(value.replace('%', '')) : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Checks and repairs the allocation list returned by the model. Entries without a ticker
+ * or a positive percentage are dropped, duplicate tickers are merged, `type` and
+ * `marketSentiment.score` are coerced to their allowed values, and the percentages are
+ * scaled to sum to 100. Every repair adds a warning so the UI can say what was changed.
+ */
+export const sanitizeAllocations = (raw: unknown): { allocations: AllocationItem[]; warnings: string[] } => {
+  const warnings: string[] = [];
+  if (!Array.isArray(raw)) {
+    warnings.push('The plan had no allocation list.');
+    return { allocations: [], warnings };
+  }
+
+  const merged = new Map<string, AllocationItem>();
+  let withoutTicker = 0;
+  for (const a of raw) {
+    if (!a || typeof a !== 'object' || typeof a.ticker !== 'string' || !a.ticker.trim()) {
+      withoutTicker++;
+      continue;
+    }
+    const ticker = a.ticker.trim().toUpperCase();
+
+    const percentage = toPercent(a.percentage);
+    if (percentage === null || percentage <= 0) {
+      warnings.push(`${ticker} had no usable percentage and was left out.`);
+      continue;
+    }
+
+    const existing = merged.get(ticker);
+    if (existing) {
+      existing.percentage += percentage;
+      warnings.push(`${ticker} was listed more than once; the entries were combined.`);
+      continue;
+    }
+
+    let type = TYPE_ALIASES[normalizeKey(a.type)];
+    if (!type) {
+      type = 'ETF';
+      warnings.push(`${ticker} had an unknown type "${a.type ?? ''}"; treated as ETF.`);
+    }
+
+    const sentiment = typeof a.marketSentiment === 'object' && a.marketSentiment ? a.marketSentiment : null;
+    let score = sentiment ? SENTIMENT_ALIASES[normalizeKey(sentiment.score)] : 'Neutral';
+    if (!score) {
+      score = 'Neutral';
+      warnings.push(`${ticker} had an unknown sentiment "${sentiment?.score ?? ''}"; shown as Neutral.`);
+    }
+
+    merged.set(ticker, {
+      ticker,
+      name: a.name || 'N/A',
+      sector: a.sector || 'N/A',
+      percentage,
+      type,
+      rationale: a.rationale || 'No rationale provided.',
+      accountType: normalizeAccountType(a.accountType),
+      dividendYield: toPercent(a.dividendYield) ?? undefined,
+      technicalAnalysis: (typeof a.technicalAnalysis === 'object' && a.technicalAnalysis)
+        ? a.technicalAnalysis
+        : { summary: 'No technical analysis provided.', support: '-', resistance: '-', indicatorSignal: '-' },
+      marketSentiment: sentiment
+        ? { summary: sentiment.summary || 'No sentiment analysis provided.', analystRating: sentiment.analystRating || '-', score }
+        : { score, summary: 'No sentiment analysis provided.', analystRating: '-' },
+    });
+  }
+  if (withoutTicker > 0) {
+    warnings.push(`${withoutTicker} ${withoutTicker === 1 ? 'allocation had' : 'allocations had'} no ticker and ${withoutTicker === 1 ? 'was' : 'were'} left out.`);
+  }
+
+  const allocations = [...merged.values()];
+  if (allocations.length === 0) {
+    if (raw.length > 0) warnings.push('None of the suggested allocations were usable, so no allocation is shown.');
+    return { allocations, warnings };
+  }
+
+  const total = allocations.reduce((sum, a) => sum + a.percentage, 0);
+  if (Math.abs(total - 100) > PERCENT_TOLERANCE) {
+    warnings.push(`Allocations added up to ${Math.round(total * 10) / 10}%; they were scaled to 100%.`);
+    for (const a of allocations) a.percentage = Math.round((a.percentage / total) * 1000) / 10;
+    // Put any rounding remainder on the largest position so the total is exactly 100.
+    const largest = allocations.reduce((max, a) => (a.percentage > max.percentage ? a : max));
+    const remainder = 100 - allocations.reduce((sum, a) => sum + a.percentage, 0);
+    largest.percentage = Math.round((largest.percentage + remainder) * 10) / 10;
+  }
+
+  return { allocations, warnings };
+};
+
+const describeType = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+/**
+ * Checks a parsed value against a schema and returns every mismatch with its JSON path.
+ * Enum values match case-insensitively, and null counts as missing for optional fields.
+ */
+export const validateSchema = (value: unknown, schema: SchemaNode = INVESTMENT_PLAN_SCHEMA, path = '$'): SchemaError[] => {
+  if (value === null && (schema.optional || (schema.kind === 'object' && schema.nullable))) return [];
+  if (value === undefined) return schema.optional ? [] : [{ path, message: 'is missing' }];
+
+  switch (schema.kind) {
+    case 'string':
+      return typeof value === 'string' ? [] : [{ path, message: `should be a string, got ${describeType(value)}` }];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [{ path, message: `should be a number, got ${describeType(value)}` }];
+      if (schema.min !== undefined && value < schema.min) return [{ path, message: `should be at least ${schema.min}, got ${value}` }];
+      if (schema.max !== undefined && value > schema.max) return [{ path, message: `should be at most ${schema.max}, got ${value}` }];
+      return [];
+    case 'enum': {
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : null;
+      return schema.values.some(v => v.toLowerCase() === text)
+        ? []
+        : [{ path, message: `should be one of ${schema.values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}` }];
+    }
+    case 'array':
+      return Array.isArray(value)
+        ? value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`))
+        : [{ path, message: `should be an array, got ${describeType(value)}` }];
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [{ path, message: `should be an object, got ${describeType(value)}` }];
+      }
+      return Object.entries(schema.fields).flatMap(([key, field]) => validateSchema((value as Record<string, unknown>)[key], field, `${path}.${key}`));
+  }
+};
+
+/**
+ * Returns `value` with every enum string replaced by the schema's spelling ("Sell" becomes
+ * "SELL"), since validation accepts any case but the UI compares exactly. Anything that
+ * doesn't match the schema is left for validation to report.
+ */
+export const canonicalizeEnums = (value: unknown, schema: SchemaNode = INVESTMENT_PLAN_SCHEMA): unknown => {
+  switch (schema.kind) {
+    case 'string':
+    case 'number':
+      return value;
+    case 'enum': {
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : null;
+      return schema.values.find(v => v.toLowerCase() === text) ?? value;
+    }
+    case 'array':
+      return Array.isArray(value) ? value.map(item => canonicalizeEnums(item, schema.items)) : value;
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+      return {
+        ...value,
+        ...Object.fromEntries(Object.entries(schema.fields)
+          .filter(([key]) => key in value)
+          .map(([key, field]) => [key, canonicalizeEnums((value as Record<string, unknown>)[key], field)])),
+      };
+  }
+};
+
+/** The plan schema narrowed to the given top-level fields, for stages that write only part of the plan. */
+export const pickSchema = (keys: readonly string[]): SchemaNode => {
+  const fields = INVESTMENT_PLAN_SCHEMA.kind === 'object' ? INVESTMENT_PLAN_SCHEMA.fields : {};
+  return { kind: 'object', fields: Object.fromEntries(keys.filter(key => key in fields).map(key => [key, fields[key]])) };
+};
+
+/** Example value for a schema, used as the JSON template in prompts. */
+export const describeSchema = (schema: SchemaNode = INVESTMENT_PLAN_SCHEMA): unknown => {
+  switch (schema.kind) {
+    case 'string':
+      return '...';
+    case 'number':
+      return 0;
+    case 'enum':
+      return schema.values.join(' | ');
+    case 'array':
+      return [describeSchema(schema.items)];
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.fields).map(([key, field]) => [key, describeSchema(field)]));
+  }
+};
+
+/** Splits "$.allocations[2].percentage" into ["allocations", 2, "percentage"]. */
+const parsePath = (path: string): (string | number)[] =>
+  [...path.replace(/^\$\.?/, '').matchAll(/([^.[\]]+)|\[(\d+)\]/g)].map(m => (m[2] !== undefined ? Number(m[2]) : m[1]));
+
+// Keys that would reach an object's prototype if written to.
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/** True when every segment of `keys` names a field or array index that `schema` describes. */
+const isSchemaPath = (keys: (string | number)[], schema: SchemaNode): boolean => {
+  let node = schema;
+  for (const key of keys) {
+    if (typeof key === 'number') {
+      if (node.kind !== 'array') return false;
+      node = node.items;
+    } else {
+      if (node.kind !== 'object' || UNSAFE_KEYS.has(key) || !Object.prototype.hasOwnProperty.call(node.fields, key)) return false;
+      node = node.fields[key];
+    }
+  }
+  return keys.length > 0;
+};
+
+/**
+ * Writes corrected values into `target` at the given JSON paths, creating objects and
+ * arrays along the way. The paths come from the model, so any that don't follow the
+ * schema's fields and arrays are returned as `rejected` instead of being written.
+ */
+export const applyFieldFixes = (
+  target: Record<string, any>,
+  fixes: Record<string, unknown>,
+  schema: SchemaNode = INVESTMENT_PLAN_SCHEMA
+): { applied: string[]; rejected: string[] } => {
+  const applied: string[] = [];
+  const rejected: string[] = [];
+  for (const [path, value] of Object.entries(fixes)) {
+    const keys = parsePath(path);
+    if (!isSchemaPath(keys, schema)) {
+      rejected.push(path);
+      continue;
+    }
+    let node: any = target;
+    for (let i = 0; i < keys.length - 1; i++) {
+      if (typeof node[keys[i]] !== 'object' || node[keys[i]] === null) node[keys[i]] = typeof keys[i + 1] === 'number' ? [] : {};
+      node = node[keys[i]];
+    }
+    node[keys[keys.length - 1]] = value;
+    applied.push(path);
+  }
+  return { applied, rejected };
+};
+
+/**
+ * Checks one top-level field as it arrives from a streamed response. Allocations are
+ * sanitized as usual; other fields are shown only once they match the schema, and
+ * anything else waits for the final parse and repair.
+ */
+export const getStreamedSection = (key: string, value: unknown): Partial<InvestmentPlan> | null => {
+  const schema = INVESTMENT_PLAN_SCHEMA.kind === 'object' ? INVESTMENT_PLAN_SCHEMA.fields[key] : undefined;
+  if (!schema || value === null || value === undefined) return null;
+  if (key === 'allocations') return { allocations: sanitizeAllocations(value).allocations };
+  return validateSchema(value, schema, `$.${key}`).length === 0 ? { [key]: canonicalizeEnums(value, schema) } : null;
+};
@@ -0,0 +1,450 @@
+import { BrokerSource, Holding, PortfolioImportResult, TaxLot } from '../types';
+import { inferAccountType } from './accounts';
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells, escaped quotes ("")
+ * and both \n and \r\n line endings. Blank lines are kept as empty rows so that
+ * section breaks in multi-account exports (Schwab) can still be detected.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Parses broker-formatted numbers such as "$1,234.56", "+$12.00", "(45.10)" or "12.5%".
+ * Returns undefined for placeholders like "--", "n/a" or empty cells.
+ */
+export const parseBrokerNumber = (value: string | undefined): number | undefined => {
+  if (value == null) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed || /^(--|n\/a|na)$/i.test(trimmed)) return undefined;
+  const isNegative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const cleaned = trimmed.replace(/[$,%()+\s]/g, '').replace(/^-/, '');
+  const parsed = parseFloat(cleaned);
+  if (isNaN(parsed)) return undefined;
+  return isNegative ? -parsed : parsed;
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findColumn = (headers: string[], candidates: string[]): number => {
+  const normalized = headers.map(normalizeHeader);
+  for (const candidate of candidates) {
+    const idx = normalized.indexOf(normalizeHeader(candidate));
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
+
+// Fidelity marks money market sweep funds with trailing asterisks, e.g. "SPAXX**"
+const cleanTicker = (raw: string) => raw.replace(/\*+$/, '').trim().toUpperCase();
+
+const isTickerLike = (raw: string) => /^[A-Z0-9.\-/]{1,12}$/.test(cleanTicker(raw));
+
+/**
+ * Inspects the first rows of a CSV to decide which broker produced it.
+ */
+export const detectBroker = (rows: string[][]): BrokerSource | null => {
+  const head = rows.slice(0, 10).map(r => r.map(normalizeHeader));
+  const hasRow = (...cols: string[]) => head.some(r => cols.every(c => r.includes(normalizeHeader(c))));
+
+  if (rows[0]?.[0]?.startsWith('Positions for')) return 'schwab';
+  if (hasRow('Account Name', 'Symbol', 'Current Value')) return 'fidelity';
+  if (hasRow('Activity Date', 'Instrument', 'Trans Code')) return 'robinhood';
+  if (hasRow('Symbol', 'Market Value', 'Cost Basis')) return 'schwab';
+  if (head.some(r => (r.includes('symbol') || r.includes('ticker')) && (r.includes('quantity') || r.includes('shares')))) {
+    return 'generic';
+  }
+  return null;
+};
+
+const parseFidelity = (rows: string[][], warnings: string[]): Holding[] => {
+  const headerIdx = rows.findIndex(r => findColumn(r, ['Symbol']) !== -1 && findColumn(r, ['Current Value']) !== -1);
+  const headers = rows[headerIdx];
+  const col = {
+    accountName: findColumn(headers, ['Account Name']),
+    accountNumber: findColumn(headers, ['Account Number']),
+    symbol: findColumn(headers, ['Symbol']),
+    description: findColumn(headers, ['Description']),
+    quantity: findColumn(headers, ['Quantity']),
+    value: findColumn(headers, ['Current Value']),
+    costBasis: findColumn(headers, ['Cost Basis Total', 'Cost Basis']),
+  };
+
+  const holdings: Holding[] = [];
+  for (const row of rows.slice(headerIdx + 1)) {
+    const symbol = row[col.symbol];
+    // Fidelity appends legal disclaimers after the data; skip anything that isn't a position.
+    if (!symbol || !isTickerLike(symbol)) continue;
+
+    const marketValue = parseBrokerNumber(row[col.value]);
+    if (marketValue === undefined) {
+      warnings.push(`Skipped ${cleanTicker(symbol)}: no current value found.`);
+      continue;
+    }
+    const accountLabel = [row[col.accountName], row[col.accountNumber]].filter(Boolean).join(' ');
+    holdings.push({
+      ticker: cleanTicker(symbol),
+      name: row[col.description] || undefined,
+      // Money market positions have no quantity; treat $1 NAV as one share per dollar.
+      quantity: parseBrokerNumber(row[col.quantity]) ?? marketValue,
+      marketValue,
+      costBasis: parseBrokerNumber(row[col.costBasis]),
+      account: `Fidelity${accountLabel ? ` - ${accountLabel}` : ''}`,
+      source: 'fidelity',
+    });
+  }
+  return holdings;
+};
+
+const parseSchwab = (rows: string[][], warnings: string[]): Holding[] => {
+  const holdings: Holding[] = [];
+  let account = 'Schwab';
+  let headers: string[] | null = null;
+
+  for (const row of rows) {
+    const first = row[0] || '';
+    if (first.startsWith('Positions for')) {
+      // e.g. "Positions for account Individual ...123 as of 04:15 PM ET, 2024/01/05"
+      const match = first.match(/Positions for account (.+?)(?: as of|$)/);
+      account = `Schwab${match ? ` - ${match[1].trim()}` : ''}`;
+      headers = null;
+      continue;
+    }
+    if (findColumn(row, ['Symbol']) !== -1 && findColumn(row, ['Market Value', 'Mkt Val (Market Value)']) !== -1) {
+      headers = row;
+      continue;
+    }
+    if (!headers || row.every(c => !c)) continue;
+
+    const symbol = row[findColumn(headers, ['Symbol'])];
+    if (!symbol || /^(cash|account total)/i.test(symbol) || !isTickerLike(symbol)) continue;
+
+    const marketValue = parseBrokerNumber(row[findColumn(headers, ['Market Value', 'Mkt Val (Market Value)'])]);
+    const quantity = parseBrokerNumber(row[findColumn(headers, ['Quantity', 'Qty (Quantity)'])]);
+    if (marketValue === undefined || quantity === undefined) {
+      warnings.push(`Skipped ${cleanTicker(symbol)}: missing quantity or market value.`);
+      continue;
+    }
+    holdings.push({
+      ticker: cleanTicker(symbol),
+      name: row[findColumn(headers, ['Description'])] || undefined,
+      quantity,
+      marketValue,
+      costBasis: parseBrokerNumber(row[findColumn(headers, ['Cost Basis'])]),
+      account,
+      source: 'schwab',
+    });
+  }
+  return holdings;
+};
+
+/**
+ * Robinhood only exports account activity, not positions. Positions are rebuilt by
+ * netting buys and sells per instrument, oldest first (exports list the newest activity
+ * first); market value uses the most recent trade price.
+ */
+const parseRobinhood = (rows: string[][], warnings: string[]): Holding[] => {
+  const headerIdx = rows.findIndex(r => findColumn(r, ['Trans Code']) !== -1);
+  const headers = rows[headerIdx];
+  const col = {
+    date: findColumn(headers, ['Activity Date']),
+    instrument: findColumn(headers, ['Instrument']),
+    description: findColumn(headers, ['Description']),
+    code: findColumn(headers, ['Trans Code']),
+    quantity: findColumn(headers, ['Quantity']),
+    price: findColumn(headers, ['Price']),
+  };
+
+  // Sort oldest first; rows on the same day keep their relative order reversed, as the file is newest-first.
+  const activity = rows.slice(headerIdx + 1)
+    .map((row, index) => ({ row, index, date: Date.parse(row[col.date]) || 0 }))
+    .sort((a, b) => a.date - b.date || b.index - a.index);
+
+  const positions = new Map<string, { name?: string; quantity: number; costBasis: number; lastPrice: number; lastDate: number }>();
+  const unmatchedSells = new Set<string>();
+  for (const { row, date } of activity) {
+    const instrument = row[col.instrument];
+    const code = (row[col.code] || '').toUpperCase();
+    if (!instrument || (code !== 'BUY' && code !== 'SELL')) continue;
+
+    const quantity = parseBrokerNumber(row[col.quantity]) ?? 0;
+    const price = parseBrokerNumber(row[col.price]) ?? 0;
+    const ticker = cleanTicker(instrument);
+    const position = positions.get(ticker) || { name: undefined, quantity: 0, costBasis: 0, lastPrice: price, lastDate: 0 };
+
+    if (code === 'BUY') {
+      position.quantity += quantity;
+      position.costBasis += quantity * price;
+    } else {
+      // Shares sold beyond what the file shows being bought were bought before the export's date range.
+      if (quantity > position.quantity + 1e-6) unmatchedSells.add(ticker);
+      const sold = Math.min(quantity, position.quantity);
+      if (sold > 0) {
+        // Reduce basis proportionally (average cost) on sells.
+        const avgCost = position.costBasis / position.quantity;
+        position.quantity -= sold;
+        position.costBasis -= sold * avgCost;
+      }
+    }
+    if (date >= position.lastDate) {
+      position.lastPrice = price;
+      position.lastDate = date;
+    }
+    position.name = position.name || row[col.description]?.split('\n')[0];
+    positions.set(ticker, position);
+  }
+
+  if (positions.size > 0) {
+    warnings.push('Robinhood exports contain activity only; market values are estimated from your most recent trade price.');
+  }
+  if (unmatchedSells.size > 0) {
+    warnings.push(`Sales of ${[...unmatchedSells].join(', ')} exceed the purchases in this file; export the full account history for accurate quantities and cost basis.`);
+  }
+
+  return Array.from(positions.entries())
+    .filter(([, p]) => p.quantity > 1e-6)
+    .map(([ticker, p]): Holding => ({
+      ticker,
+      name: p.name,
+      quantity: p.quantity,
+      marketValue: p.quantity * p.lastPrice,
+      costBasis: Math.max(0, p.costBasis),
+      account: 'Robinhood',
+      source: 'robinhood',
+    }));
+};
+
+const parseGeneric = (rows: string[][], fileName: string, warnings: string[]): Holding[] => {
+  const headerIdx = rows.findIndex(r => findColumn(r, ['Symbol', 'Ticker']) !== -1);
+  const headers = rows[headerIdx];
+  const col = {
+    symbol: findColumn(headers, ['Symbol', 'Ticker']),
+    name: findColumn(headers, ['Description', 'Name', 'Security']),
+    quantity: findColumn(headers, ['Quantity', 'Shares', 'Qty']),
+    value: findColumn(headers, ['Market Value', 'Current Value', 'Value']),
+    price: findColumn(headers, ['Price', 'Last Price']),
+    costBasis: findColumn(headers, ['Cost Basis', 'Cost Basis Total', 'Total Cost']),
+    account: findColumn(headers, ['Account', 'Account Name']),
+  };
+
+  const holdings: Holding[] = [];
+  for (const row of rows.slice(headerIdx + 1)) {
+    const symbol = row[col.symbol];
+    if (!symbol || !isTickerLike(symbol)) continue;
+    const quantity = parseBrokerNumber(row[col.quantity]);
+    const price = parseBrokerNumber(row[col.price]);
+    const marketValue = parseBrokerNumber(row[col.value]) ?? (quantity !== undefined && price !== undefined ? quantity * price : undefined);
+    if (quantity === undefined || marketValue === undefined) {
+      warnings.push(`Skipped ${cleanTicker(symbol)}: missing quantity or value.`);
+      continue;
+    }
+    holdings.push({
+      ticker: cleanTicker(symbol),
+      name: row[col.name] || undefined,
+      quantity,
+      marketValue,
+      costBasis: parseBrokerNumber(row[col.costBasis]),
+      account: row[col.account] || fileName,
+      source: 'generic',
+    });
+  }
+  return holdings;
+};
+
+/**
+ * Detects the broker behind a CSV export and parses it into typed holdings.
+ * Unrecognised files return `broker: null` so the caller can fall back to raw text.
+ */
+export const parseBrokerCsv = (text: string, fileName: string): PortfolioImportResult => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const broker = detectBroker(rows);
+  const warnings: string[] = [];
+
+  if (!broker) {
+    return { fileName, broker: null, holdings: [], warnings: ['Could not recognise the columns in this file.'] };
+  }
+
+  let holdings: Holding[];
+  switch (broker) {
+    case 'fidelity':
+      holdings = parseFidelity(rows, warnings);
+      break;
+    case 'schwab':
+      holdings = parseSchwab(rows, warnings);
+      break;
+    case 'robinhood':
+      holdings = parseRobinhood(rows, warnings);
+      break;
+    default:
+      holdings = parseGeneric(rows, fileName, warnings);
+  }
+
+  if (holdings.length === 0) {
+    warnings.push('No positions were found in this file.');
+  }
+  return {
+    fileName,
+    broker,
+    holdings: holdings.map(h => ({ ...h, accountType: h.accountType || inferAccountType(h.account) })),
+    warnings,
+  };
+};
+
+/**
+ * Total cost basis for a holding. Lots take precedence over the position-level figure.
+ */
+export const getHoldingCostBasis = (holding: Holding): number | undefined =>
+  holding.lots && holding.lots.length > 0
+    ? holding.lots.reduce((sum, lot) => sum + lot.costBasis, 0)
+    : holding.costBasis;
+
+/**
+ * Held for more than one year, so gains and losses are long-term: the holding period starts
+ * the day after purchase, so a sale on the anniversary is still short-term and one on any
+ * later day is long-term. Compares calendar dates in local time; "YYYY-MM-DD" strings are
+ * read as that calendar day rather than UTC midnight.
+ */
+export const isLongTermHolding = (purchaseDate: string, asOf: Date = new Date()): boolean => {
+  const ymd = purchaseDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const purchased = ymd ? new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) : new Date(purchaseDate);
+  const anniversary = new Date(purchased.getFullYear() + 1, purchased.getMonth(), purchased.getDate());
+  const asOfDay = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return asOfDay > anniversary;
+};
+
+/** A lot held for more than one year qualifies for long-term capital gains rates. */
+export const getLotTerm = (lot: TaxLot, asOf: Date = new Date()): 'short' | 'long' =>
+  isLongTermHolding(lot.purchaseDate, asOf) ? 'long' : 'short';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Reads a pasted date as the calendar day it names, as "YYYY-MM-DD". ISO dates pass through
+ * and M/D/Y is read explicitly; anything else is parsed in local time, never shifted to UTC.
+ */
+const toIsoDate = (raw: string): string | undefined => {
+  const text = raw.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const mdy = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})$/);
+  if (mdy) {
+    const year = mdy[3].length === 2 ? 2000 + Number(mdy[3]) : Number(mdy[3]);
+    return `${year}-${pad(Number(mdy[1]))}-${pad(Number(mdy[2]))}`;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Parses rows copied from Excel or Google Sheets (tab separated, or comma separated as a
+ * fallback). A header row is used when present; otherwise columns are read as
+ * Ticker, Quantity, Market Value, Cost Basis, Purchase Date, Account.
+ * Rows sharing a ticker and account that carry purchase dates become tax lots.
+ */
+export const parseSpreadsheetPaste = (text: string): Holding[] => {
+  const delimiter = text.includes('\t') ? '\t' : ',';
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.split(delimiter).map(c => c.trim().replace(/^"|"$/g, '')))
+    .filter(r => r.some(Boolean));
+  if (rows.length === 0) return [];
+
+  const hasHeader = findColumn(rows[0], ['Symbol', 'Ticker']) !== -1;
+  const headers = hasHeader ? rows[0] : [];
+  const pick = (candidates: string[], fallback: number) => (hasHeader ? findColumn(headers, candidates) : fallback);
+  const col = {
+    symbol: pick(['Symbol', 'Ticker'], 0),
+    quantity: pick(['Quantity', 'Shares', 'Qty'], 1),
+    value: pick(['Market Value', 'Current Value', 'Value'], 2),
+    costBasis: pick(['Cost Basis', 'Cost Basis Total', 'Total Cost'], 3),
+    purchaseDate: pick(['Purchase Date', 'Acquired', 'Date Acquired', 'Date'], 4),
+    account: pick(['Account', 'Account Name'], 5),
+  };
+
+  const byKey = new Map<string, Holding>();
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const symbol = row[col.symbol];
+    if (!symbol || !isTickerLike(symbol)) continue;
+    const quantity = parseBrokerNumber(row[col.quantity]) ?? 0;
+    const marketValue = parseBrokerNumber(row[col.value]) ?? 0;
+    const costBasis = parseBrokerNumber(row[col.costBasis]);
+    const rawDate = row[col.purchaseDate];
+    const purchaseDate = rawDate ? toIsoDate(rawDate) : undefined;
+    const account = row[col.account] || 'Manual entry';
+    const ticker = cleanTicker(symbol);
+    const key = `${ticker}|${account}`;
+
+    const existing = byKey.get(key) || { ticker, quantity: 0, marketValue: 0, account, source: 'manual' as BrokerSource };
+    existing.quantity += quantity;
+    existing.marketValue += marketValue;
+    if (purchaseDate && costBasis !== undefined) {
+      existing.lots = [...(existing.lots || []), { purchaseDate, quantity, costBasis }];
+    } else if (costBasis !== undefined) {
+      existing.costBasis = (existing.costBasis || 0) + costBasis;
+    }
+    byKey.set(key, existing);
+  }
+  return Array.from(byKey.values()).map(h => ({ ...h, accountType: inferAccountType(h.account) }));
+};
+
+/**
+ * Renders holdings as a compact table for the AI prompt, with tax lots listed
+ * under each position so the model can reason about realized gains.
+ */
+export const formatHoldingsForPrompt = (holdings: Holding[]): string => {
+  const total = holdings.reduce((sum, h) => sum + h.marketValue, 0);
+  const lines = holdings.flatMap(h => {
+    const weight = total > 0 ? ((h.marketValue / total) * 100).toFixed(1) : '0.0';
+    const costBasis = getHoldingCostBasis(h);
+    const basis = costBasis != null ? `$${costBasis.toFixed(2)}` : 'unknown';
+    const account = h.accountType ? `${h.account} (${h.accountType})` : h.account;
+    const row = `| ${h.ticker} | ${h.quantity} | $${h.marketValue.toFixed(2)} | ${weight}% | ${basis} | ${account} |`;
+    const lots = (h.lots || []).map(lot =>
+      `|   ↳ lot ${lot.purchaseDate} (${getLotTerm(lot)}-term) | ${lot.quantity} | | | $${lot.costBasis.toFixed(2)} | |`
+    );
+    return [row, ...lots];
+  });
+  return [
+    '| Ticker | Quantity | Market Value | Weight | Cost Basis | Account |',
+    '|---|---|---|---|---|---|',
+    ...lines,
+    `Total imported market value: $${total.toFixed(2)}`,
+  ].join('\n');
+};
@@ -0,0 +1,131 @@
+import { HouseholdMember, UserProfile, ValidationIssue } from '../types';
+import { getLiabilityDisplayName } from './debtPlanner';
+import { getAccountDisplayName } from './accounts';
+import { getHoldingCostBasis } from './portfolioImport';
+
+const MIN_AGE = 18;
+const MAX_AGE = 100;
+
+const isBlank = (value: number | string | undefined | null) =>
+  value === undefined || value === null || String(value).trim() === '';
+
+const toNumber = (value: number | string) => Number(value);
+
+/**
+ * Checks a member's ages and income. Used for the primary member (top-level fields)
+ * and, in household mode, for the partner under the "partner." prefix.
+ */
+const validateMember = (member: HouseholdMember, prefix: string, who: string): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const age = toNumber(member.age);
+  const retirementAge = toNumber(member.retirementAge);
+
+  if (isBlank(member.age)) {
+    issues.push({ field: `${prefix}age`, severity: 'error', message: `Enter ${who} current age.`, required: true });
+  } else if (!Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE) {
+    issues.push({ field: `${prefix}age`, severity: 'error', message: `Age must be a whole number between ${MIN_AGE} and ${MAX_AGE}.` });
+  }
+
+  if (isBlank(member.retirementAge)) {
+    issues.push({ field: `${prefix}retirementAge`, severity: 'error', message: `Enter ${who} target retirement age.`, required: true });
+  } else if (!Number.isInteger(retirementAge) || retirementAge > MAX_AGE) {
+    issues.push({ field: `${prefix}retirementAge`, severity: 'error', message: `Retirement age must be a whole number up to ${MAX_AGE}.` });
+  } else if (!isBlank(member.age) && retirementAge <= age) {
+    issues.push({ field: `${prefix}retirementAge`, severity: 'error', message: 'Retirement age must be later than current age.' });
+  } else if (retirementAge < 60) {
+    issues.push({ field: `${prefix}retirementAge`, severity: 'warning', message: 'Retiring before 59½ usually means penalties on early retirement-account withdrawals.' });
+  }
+
+  if (isBlank(member.annualIncome)) {
+    issues.push({ field: `${prefix}annualIncome`, severity: 'error', message: `Enter ${who} annual income (0 if none).`, required: true });
+  } else if (toNumber(member.annualIncome) < 0) {
+    issues.push({ field: `${prefix}annualIncome`, severity: 'error', message: 'Income cannot be negative.' });
+  }
+  return issues;
+};
+
+/**
+ * Validates a profile before it is sent for analysis. Errors describe input the plan
+ * can't be built on (blank or impossible values); warnings flag numbers that are
+ * possible but worth a second look.
+ */
+export const validateProfile = (profile: UserProfile): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [
+    ...validateMember({ id: 'primary', name: '', age: profile.age, retirementAge: profile.retirementAge, annualIncome: profile.annualIncome }, '', 'your'),
+    ...(profile.partner ? validateMember(profile.partner, 'partner.', "your partner's") : []),
+  ];
+
+  if (!isBlank(profile.cash) && toNumber(profile.cash) < 0) {
+    issues.push({ field: 'cash', severity: 'error', message: 'Cash cannot be negative.' });
+  }
+
+  const monthly = toNumber(profile.monthlyContribution) || 0;
+  if (isBlank(profile.monthlyContribution)) {
+    issues.push({ field: 'monthlyContribution', severity: 'error', message: 'Enter how much you can invest each month (0 if nothing).', required: true });
+  } else if (monthly < 0) {
+    issues.push({ field: 'monthlyContribution', severity: 'error', message: 'Monthly contribution cannot be negative.' });
+  } else {
+    const householdIncome = toNumber(profile.annualIncome) + (profile.partner ? toNumber(profile.partner.annualIncome) || 0 : 0);
+    if (householdIncome > 0 && monthly * 12 > householdIncome) {
+      issues.push({ field: 'monthlyContribution', severity: 'warning', message: `Contributions of $${(monthly * 12).toLocaleString()}/yr exceed your income. Is this funded from savings?` });
+    } else if (householdIncome > 0 && monthly * 12 > householdIncome * 0.5) {
+      issues.push({ field: 'monthlyContribution', severity: 'warning', message: `That's a ${Math.round((monthly * 12 / householdIncome) * 100)}% savings rate, which is unusually high. Double-check the figure is monthly.` });
+    } else if (householdIncome === 0 && monthly > 0 && !isBlank(profile.annualIncome)) {
+      issues.push({ field: 'monthlyContribution', severity: 'warning', message: 'You have contributions but no income. The plan will assume they come from savings.' });
+    }
+  }
+
+  let accountContributions = 0;
+  for (const account of profile.accounts) {
+    const name = getAccountDisplayName(account);
+    if (!isBlank(account.balance) && toNumber(account.balance) < 0) {
+      issues.push({ field: `accounts.${account.id}.balance`, severity: 'error', message: `${name}: balance cannot be negative.` });
+    }
+    if (!isBlank(account.monthlyContribution) && toNumber(account.monthlyContribution) < 0) {
+      issues.push({ field: `accounts.${account.id}.monthlyContribution`, severity: 'error', message: `${name}: contribution cannot be negative.` });
+    }
+    accountContributions += toNumber(account.monthlyContribution) || 0;
+  }
+  if (accountContributions > monthly && !isBlank(profile.monthlyContribution)) {
+    issues.push({ field: 'monthlyContribution', severity: 'warning', message: `Your accounts receive $${accountContributions.toLocaleString()}/mo, more than the monthly contribution you entered.` });
+  }
+
+  for (const liability of profile.liabilities) {
+    const name = getLiabilityDisplayName(liability);
+    const balance = toNumber(liability.balance) || 0;
+    const apr = toNumber(liability.apr);
+    const minimum = toNumber(liability.minimumPayment) || 0;
+    if (balance < 0) {
+      issues.push({ field: `liabilities.${liability.id}.balance`, severity: 'error', message: `${name}: balance cannot be negative.` });
+    }
+    if (!isBlank(liability.apr) && (apr < 0 || apr > 100)) {
+      issues.push({ field: `liabilities.${liability.id}.apr`, severity: 'error', message: `${name}: APR must be between 0 and 100.` });
+    } else if (apr > 36) {
+      issues.push({ field: `liabilities.${liability.id}.apr`, severity: 'warning', message: `${name}: ${apr}% APR is unusually high. Check it isn't a monthly rate.` });
+    }
+    if (balance > 0 && minimum <= 0) {
+      issues.push({ field: `liabilities.${liability.id}.minimumPayment`, severity: 'error', message: `${name}: enter the minimum monthly payment.`, required: true });
+    } else if (balance > 0 && minimum <= balance * ((apr || 0) / 100 / 12)) {
+      issues.push({ field: `liabilities.${liability.id}.minimumPayment`, severity: 'warning', message: `${name}: the minimum payment doesn't cover monthly interest, so the balance will grow.` });
+    }
+  }
+
+  profile.holdings.forEach((holding, idx) => {
+    if (!holding.ticker.trim()) {
+      issues.push({ field: `holdings.${idx}.ticker`, severity: 'error', message: `Position ${idx + 1} is missing a ticker.`, required: true });
+    }
+    if (holding.quantity < 0 || holding.marketValue < 0) {
+      issues.push({ field: `holdings.${idx}.quantity`, severity: 'warning', message: `${holding.ticker || `Position ${idx + 1}`}: negative quantity or value (short position?).` });
+    }
+    const costBasis = getHoldingCostBasis(holding);
+    if (costBasis !== undefined && costBasis < 0) {
+      issues.push({ field: `holdings.${idx}.costBasis`, severity: 'error', message: `${holding.ticker}: cost basis cannot be negative.` });
+    }
+  });
+
+  return issues;
+};
+
+export const hasBlockingErrors = (issues: ValidationIssue[]) => issues.some(i => i.severity === 'error');
+
+export const getFieldIssues = (issues: ValidationIssue[], field: string) => issues.filter(i => i.field === field);
@@ -0,0 +1,121 @@
+import { DEFAULT_PROJECTION_ASSUMPTIONS, ProjectionAssumptions, ProjectionData, TaxTreatment, UserProfile } from '../types';
+import { ACCOUNT_TYPE_INFO, getBalancesByTreatment } from './accounts';
+import { getAccountOwner, getHouseholdMembers } from './household';
+import { calculateTax, getBrokerageTaxDrag } from './tax';
+
+export interface ContributionStream {
+  monthly: number;
+  years: number; // Number of years from now that the stream keeps contributing
+  treatment: TaxTreatment;
+}
+
+const toMonthlyRate = (annualPercent: number) => Math.pow(1 + annualPercent / 100, 1 / 12) - 1;
+
+const yearsToRetirement = (age: number | string, retirementAge: number | string) =>
+  Math.max(0, Number(retirementAge) - Number(age));
+
+/**
+ * Years from now until the last household member retires (at least one year so the
+ * chart always has a starting and an ending point).
+ */
+export const getProjectionHorizon = (profile: UserProfile) =>
+  Math.max(1, ...getHouseholdMembers(profile).map(m => yearsToRetirement(m.age, m.retirementAge)));
+
+/**
+ * Contributions into each account stop when the account's owner retires; joint accounts
+ * keep receiving contributions until the last member retires. Any part of the monthly
+ * contribution not assigned to an account is treated the same way as a joint account and
+ * is assumed to go to a brokerage account.
+ */
+export const getContributionStreams = (profile: UserProfile): ContributionStream[] => {
+  const horizon = getProjectionHorizon(profile);
+  const members = getHouseholdMembers(profile);
+  const yearsFor = (ownerId: string) => {
+    const member = members.find(m => m.id === ownerId);
+    return member ? yearsToRetirement(member.age, member.retirementAge) : horizon;
+  };
+
+  const streams = profile.accounts.map(a => ({
+    monthly: Number(a.monthlyContribution) || 0,
+    years: yearsFor(getAccountOwner(a)),
+    treatment: ACCOUNT_TYPE_INFO[a.type].treatment,
+  }));
+  const assigned = streams.reduce((sum, s) => sum + s.monthly, 0);
+  const unassigned = (Number(profile.monthlyContribution) || 0) - assigned;
+  if (unassigned > 0) streams.push({ monthly: unassigned, years: horizon, treatment: 'taxable' });
+  return streams.filter(s => s.monthly > 0 && s.years > 0);
+};
+
+type Scenario = 'conservative' | 'expected' | 'aggressive';
+const SCENARIOS: Scenario[] = ['conservative', 'expected', 'aggressive'];
+
+/**
+ * Projects invested assets year by year until the last household member retires, under
+ * three nominal return scenarios. Returns compound monthly and contributions land at the
+ * end of each month. Brokerage balances grow more slowly by the household's dividend tax
+ * drag (see services/tax); tax-advantaged accounts compound untaxed. Cash is excluded: it
+ * is the liquidity reserve, not invested capital. `inflationAdjusted` is the expected
+ * scenario in today's dollars; `totalContributions` is the starting balance plus
+ * everything contributed so far.
+ */
+export const projectWealth = (
+  profile: UserProfile,
+  assumptions: ProjectionAssumptions = DEFAULT_PROJECTION_ASSUMPTIONS,
+  currentYear = new Date().getFullYear()
+): ProjectionData[] => {
+  const horizon = getProjectionHorizon(profile);
+  const streams = getContributionStreams(profile);
+  const startAge = Number(profile.age);
+  const taxDrag = getBrokerageTaxDrag(calculateTax(profile));
+  const annualReturns: Record<Scenario, number> = {
+    conservative: assumptions.conservativeReturn,
+    expected: assumptions.expectedReturn,
+    aggressive: assumptions.aggressiveReturn,
+  };
+
+  const startBalances = getBalancesByTreatment(profile.accounts);
+  const start = startBalances.taxable + startBalances.tax_deferred + startBalances.tax_free;
+  // Per scenario, the brokerage and the tax-advantaged balances compound separately.
+  const balances = Object.fromEntries(SCENARIOS.map(scenario => [scenario, {
+    taxable: startBalances.taxable,
+    sheltered: startBalances.tax_deferred + startBalances.tax_free,
+    taxableRate: toMonthlyRate(annualReturns[scenario] - taxDrag),
+    shelteredRate: toMonthlyRate(annualReturns[scenario]),
+  }])) as Record<Scenario, { taxable: number; sheltered: number; taxableRate: number; shelteredRate: number }>;
+  const totalFor = (scenario: Scenario) => balances[scenario].taxable + balances[scenario].sheltered;
+
+  let principal = start;
+  const rows: ProjectionData[] = [{
+    year: currentYear,
+    age: startAge,
+    conservative: start,
+    expected: start,
+    aggressive: start,
+    inflationAdjusted: start,
+    totalContributions: start,
+  }];
+
+  for (let t = 1; t <= horizon; t++) {
+    const active = streams.filter(s => t <= s.years);
+    const taxableMonthly = active.filter(s => s.treatment === 'taxable').reduce((sum, s) => sum + s.monthly, 0);
+    const shelteredMonthly = active.filter(s => s.treatment !== 'taxable').reduce((sum, s) => sum + s.monthly, 0);
+    for (const scenario of SCENARIOS) {
+      const b = balances[scenario];
+      for (let month = 0; month < 12; month++) {
+        b.taxable = b.taxable * (1 + b.taxableRate) + taxableMonthly;
+        b.sheltered = b.sheltered * (1 + b.shelteredRate) + shelteredMonthly;
+      }
+    }
+    principal += (taxableMonthly + shelteredMonthly) * 12;
+    rows.push({
+      year: currentYear + t,
+      age: startAge + t,
+      conservative: Math.round(totalFor('conservative')),
+      expected: Math.round(totalFor('expected')),
+      aggressive: Math.round(totalFor('aggressive')),
+      inflationAdjusted: Math.round(totalFor('expected') / Math.pow(1 + assumptions.inflation / 100, t)),
+      totalContributions: Math.round(principal),
+    });
+  }
+  return rows;
+};
@@ -0,0 +1,209 @@
+import {
+  AllocationItem, AllocationWeight, ContributionMonth, ContributionRebalanceOptions, ContributionRebalancePlan, Holding,
+  RebalanceOptions, RebalanceResult, RebalancingOrder,
+} from '../types';
+
+export const DEFAULT_REBALANCE_OPTIONS: RebalanceOptions = {
+  minTradeSize: 100,
+  driftTolerance: 5,
+  cashToInvest: 0,
+};
+
+export interface Position {
+  ticker: string;
+  value: number;
+  quantity: number;
+  price: number | null; // Per share; null for target holdings not yet owned
+}
+
+const formatDollars = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+/** Combines holdings of the same ticker across accounts. */
+export const aggregateHoldings = (holdings: Holding[]): Map<string, Position> => {
+  const positions = new Map<string, Position>();
+  for (const h of holdings) {
+    const ticker = h.ticker.toUpperCase();
+    const existing = positions.get(ticker) || { ticker, value: 0, quantity: 0, price: null };
+    existing.value += h.marketValue;
+    existing.quantity += h.quantity;
+    existing.price = existing.quantity > 0 ? existing.value / existing.quantity : null;
+    positions.set(ticker, existing);
+  }
+  return positions;
+};
+
+/** Target weights by ticker in percent, normalised to sum to 100. */
+export const getTargetWeights = (allocations: AllocationItem[]): Map<string, number> => {
+  const total = allocations.reduce((sum, a) => sum + (Number(a.percentage) || 0), 0);
+  const targets = new Map<string, number>();
+  if (total <= 0) return targets;
+  for (const a of allocations) {
+    const ticker = a.ticker.toUpperCase();
+    targets.set(ticker, (targets.get(ticker) || 0) + ((Number(a.percentage) || 0) / total) * 100);
+  }
+  return targets;
+};
+
+export const formatOrderAmount = (dollars: number, shares?: number) =>
+  `${formatDollars(dollars)}${shares !== undefined ? ` (${shares.toLocaleString('en-US', { maximumFractionDigits: 4 })} shares)` : ''}`;
+
+const toWeights = (values: Map<string, number>, total: number): AllocationWeight[] =>
+  [...values.entries()].map(([ticker, value]) => ({ ticker, value: Math.round(value), percentage: total > 0 ? (value / total) * 100 : 0 }));
+
+const maxDrift = (values: Map<string, number>, targets: Map<string, number>, total: number) =>
+  total > 0
+    ? Math.max(0, ...[...values.entries()].map(([ticker, value]) => Math.abs((value / total) * 100 - (targets.get(ticker) || 0))))
+    : 0;
+
+/**
+ * Computes the trades that bring current holdings back to the plan's target weights.
+ * Only positions that have drifted more than `driftTolerance` points are traded, and those
+ * go all the way back to target. Sales fund the purchases together with `cashToInvest`;
+ * when there isn't enough, every purchase is scaled down by the same factor. Where the
+ * share price is known, trades are rounded to whole shares (down for purchases, so they
+ * stay within the cash available). Trades below `minTradeSize` are dropped.
+ */
+export const calculateRebalance = (
+  holdings: Holding[],
+  allocations: AllocationItem[],
+  options: RebalanceOptions = DEFAULT_REBALANCE_OPTIONS
+): RebalanceResult => {
+  const positions = aggregateHoldings(holdings);
+  const targets = getTargetWeights(allocations);
+  for (const ticker of targets.keys()) {
+    if (!positions.has(ticker)) positions.set(ticker, { ticker, value: 0, quantity: 0, price: null });
+  }
+
+  const cashToInvest = Math.max(0, options.cashToInvest);
+  const totalValue = [...positions.values()].reduce((sum, p) => sum + p.value, 0) + cashToInvest;
+  const beforeValues = new Map([...positions.values()].map(p => [p.ticker, p.value]));
+  const afterValues = new Map(beforeValues);
+  const orders: RebalancingOrder[] = [];
+
+  const describe = (p: Position) => {
+    const current = totalValue > 0 ? (p.value / totalValue) * 100 : 0;
+    return targets.has(p.ticker)
+      ? `${current.toFixed(1)}% now vs. ${(targets.get(p.ticker) || 0).toFixed(1)}% target`
+      : 'Not in the target allocation';
+  };
+
+  const drifted = [...positions.values()].filter(p => {
+    const drift = totalValue > 0 ? (p.value / totalValue) * 100 - (targets.get(p.ticker) || 0) : 0;
+    return Math.abs(drift) > options.driftTolerance;
+  });
+
+  let proceeds = 0;
+  for (const p of drifted) {
+    const excess = p.value - ((targets.get(p.ticker) || 0) / 100) * totalValue;
+    if (excess <= 0) continue;
+    const sellAll = !targets.has(p.ticker);
+    const shares = p.price ? (sellAll ? p.quantity : Math.min(p.quantity, Math.round(excess / p.price))) : undefined;
+    const dollars = shares !== undefined && p.price ? shares * p.price : excess;
+    if (dollars < options.minTradeSize || dollars <= 0) continue;
+    proceeds += dollars;
+    afterValues.set(p.ticker, p.value - dollars);
+    orders.push({ ticker: p.ticker, action: 'SELL', amount: formatOrderAmount(dollars, shares), reason: describe(p), dollars: Math.round(dollars), shares });
+  }
+
+  const wanted = drifted
+    .map(p => ({ position: p, need: ((targets.get(p.ticker) || 0) / 100) * totalValue - p.value }))
+    .filter(w => w.need > 0);
+  const available = proceeds + cashToInvest;
+  const totalNeed = wanted.reduce((sum, w) => sum + w.need, 0);
+  const scale = totalNeed > 0 ? Math.min(1, available / totalNeed) : 0;
+
+  let spent = 0;
+  for (const { position: p, need } of wanted) {
+    const budget = need * scale;
+    const shares = p.price ? Math.floor(budget / p.price) : undefined;
+    const dollars = shares !== undefined && p.price ? shares * p.price : budget;
+    if (dollars < options.minTradeSize || dollars <= 0) continue;
+    spent += dollars;
+    afterValues.set(p.ticker, p.value + dollars);
+    orders.push({ ticker: p.ticker, action: 'BUY', amount: formatOrderAmount(dollars, shares), reason: describe(p), dollars: Math.round(dollars), shares });
+  }
+
+  return {
+    orders,
+    before: toWeights(beforeValues, totalValue),
+    after: toWeights(afterValues, totalValue),
+    targets: [...positions.keys()].map(ticker => ({
+      ticker,
+      value: Math.round(((targets.get(ticker) || 0) / 100) * totalValue),
+      percentage: targets.get(ticker) || 0,
+    })),
+    totalValue: Math.round(totalValue),
+    leftoverCash: Math.round(available - spent),
+    maxDriftBefore: maxDrift(beforeValues, targets, totalValue),
+    maxDriftAfter: maxDrift(afterValues, targets, totalValue),
+  };
+};
+
+// How far ahead to look for the month drift falls inside tolerance, beyond the schedule shown.
+const MAX_CONTRIBUTION_MONTHS = 600;
+
+/**
+ * Steers the portfolio toward its targets with new money only: nothing is sold. Each month
+ * the contribution (plus idle cash in the first month) goes to the positions furthest below
+ * target, in proportion to how far below they are; once every shortfall is filled, the rest
+ * is split by target weight. Prices are held constant, so drift changes only through buying.
+ */
+export const planContributionRebalance = (
+  holdings: Holding[],
+  allocations: AllocationItem[],
+  options: ContributionRebalanceOptions
+): ContributionRebalancePlan => {
+  const targets = getTargetWeights(allocations);
+  const values = new Map([...aggregateHoldings(holdings).values()].map(p => [p.ticker, p.value]));
+  for (const ticker of targets.keys()) {
+    if (!values.has(ticker)) values.set(ticker, 0);
+  }
+  let total = [...values.values()].reduce((sum, v) => sum + v, 0);
+  const maxDriftBefore = maxDrift(values, targets, total);
+
+  const schedule: ContributionMonth[] = [];
+  let after = toWeights(values, total);
+  let monthsToTolerance: number | null = maxDriftBefore <= options.driftTolerance ? 0 : null;
+  const horizon = Math.max(options.months, monthsToTolerance === null ? MAX_CONTRIBUTION_MONTHS : 0);
+
+  for (let month = 1; month <= horizon; month++) {
+    const available = Math.max(0, options.monthlyContribution) + (month === 1 ? Math.max(0, options.idleCash) : 0);
+    if (available <= 0) break;
+    const newTotal = total + available;
+    const deficits = [...targets.entries()]
+      .map(([ticker, weight]) => ({ ticker, deficit: (weight / 100) * newTotal - (values.get(ticker) || 0) }))
+      .filter(d => d.deficit > 0);
+    const totalDeficit = deficits.reduce((sum, d) => sum + d.deficit, 0);
+
+    const buys = new Map<string, number>();
+    if (totalDeficit >= available) {
+      for (const d of deficits) buys.set(d.ticker, (available * d.deficit) / totalDeficit);
+    } else {
+      for (const d of deficits) buys.set(d.ticker, d.deficit);
+      const remainder = available - totalDeficit;
+      for (const [ticker, weight] of targets) buys.set(ticker, (buys.get(ticker) || 0) + (remainder * weight) / 100);
+    }
+
+    for (const [ticker, dollars] of buys) values.set(ticker, (values.get(ticker) || 0) + dollars);
+    total = newTotal;
+    const drift = maxDrift(values, targets, total);
+    if (monthsToTolerance === null && drift <= options.driftTolerance) monthsToTolerance = month;
+
+    if (month <= options.months) {
+      schedule.push({
+        month,
+        buys: [...buys.entries()]
+          .map(([ticker, dollars]) => ({ ticker, dollars: Math.round(dollars) }))
+          .filter(b => b.dollars > 0)
+          .sort((a, b) => b.dollars - a.dollars),
+        invested: Math.round(available),
+        maxDrift: drift,
+      });
+      after = toWeights(values, total);
+    }
+    if (month >= options.months && monthsToTolerance !== null) break;
+  }
+
+  return { schedule, monthsToTolerance, maxDriftBefore, after };
+};
@@ -0,0 +1,167 @@
+import {
+  AccountType, ContributionComparison, ContributionComparisonPoint, ProjectionAssumptions, RothConversionPlan,
+  RothConversionSettings, RothConversionYear, TaxBracket, TaxSummary, UserProfile, WithdrawalBucket,
+} from '../types';
+import { FEDERAL_TAX_TABLES, applyBrackets, getBrokerageTaxDrag } from './tax';
+
+export const DEFAULT_ROTH_CONVERSION_SETTINGS: RothConversionSettings = {
+  targetBracket: 12,
+  otherIncome: 0,
+  endAge: 72,
+};
+
+// Each conversion has its own five-year clock before it can be withdrawn penalty-free, unless
+// the owner is already 59½ by then.
+const CONVERSION_WAIT_YEARS = 5;
+const PENALTY_FREE_AGE = 60; // 59½, rounded up to whole years
+// Share of the Traditional balance assumed to be withdrawn each year in retirement.
+const RETIREMENT_DRAW_RATE = 0.04;
+
+const TRADITIONAL_TYPES: AccountType[] = ['Traditional 401k', 'Traditional IRA'];
+const ROTH_TYPES: AccountType[] = ['Roth 401k', 'Roth IRA'];
+
+const scaleBrackets = (brackets: TaxBracket[], factor: number): TaxBracket[] =>
+  brackets.map(b => ({ rate: b.rate, upTo: b.upTo === null ? null : b.upTo * factor }));
+
+/**
+ * Plans yearly Traditional-to-Roth conversions from the first year of retirement. Each year
+ * converts just enough to fill taxable income up to the top of the target bracket, until
+ * `endAge` or until the Traditional balance is gone. Brackets and the standard deduction are
+ * assumed to rise with inflation; tax is paid from outside the accounts so the full amount
+ * keeps compounding. Withdrawals for living costs are not taken from either account here.
+ */
+export const planRothConversions = (
+  profile: UserProfile,
+  startBuckets: Record<WithdrawalBucket, number>,
+  startYear: number,
+  settings: RothConversionSettings,
+  assumptions: ProjectionAssumptions
+): RothConversionPlan => {
+  const table = FEDERAL_TAX_TABLES[profile.taxFilingStatus];
+  const growth = 1 + assumptions.expectedReturn / 100;
+  const inflation = 1 + assumptions.inflation / 100;
+  const currentYear = new Date().getFullYear();
+  const startAge = Number(profile.age) + (startYear - currentYear);
+  const target = table.ordinary.find(b => b.rate === settings.targetBracket) || table.ordinary[0];
+
+  let traditional = startBuckets.tax_deferred;
+  let roth = startBuckets.tax_free;
+  const years: RothConversionYear[] = [];
+
+  for (let age = startAge; age <= settings.endAge && traditional > 0.5; age++) {
+    const t = age - startAge;
+    const year = startYear + t;
+    const factor = Math.pow(inflation, year - currentYear);
+    const brackets = scaleBrackets(table.ordinary, factor);
+    const deduction = table.standardDeduction * factor;
+    const otherIncome = settings.otherIncome * factor;
+    const bracketTop = target.upTo === null ? Infinity : target.upTo * factor;
+
+    const baseTaxable = Math.max(0, otherIncome - deduction);
+    const room = Math.max(0, bracketTop + deduction - otherIncome);
+    const conversion = Math.min(traditional, room);
+    const tax = applyBrackets(brackets, Math.max(0, otherIncome + conversion - deduction)) - applyBrackets(brackets, baseTaxable);
+
+    traditional = (traditional - conversion) * growth;
+    roth = (roth + conversion) * growth;
+    years.push({
+      year,
+      age,
+      conversion: Math.round(conversion),
+      tax: Math.round(tax),
+      effectiveRate: conversion > 0 ? (tax / conversion) * 100 : 0,
+      traditionalBalance: Math.round(traditional),
+      rothBalance: Math.round(roth),
+      accessibleYear: age >= PENALTY_FREE_AGE ? year : Math.min(year + CONVERSION_WAIT_YEARS, year + (PENALTY_FREE_AGE - age)),
+    });
+  }
+
+  const totalConverted = years.reduce((sum, y) => sum + y.conversion, 0);
+  const totalTax = years.reduce((sum, y) => sum + y.tax, 0);
+  const firstRung = years.find(y => y.conversion > 0);
+  return {
+    startYear,
+    years,
+    totalConverted,
+    totalTax,
+    averageRate: totalConverted > 0 ? (totalTax / totalConverted) * 100 : 0,
+    remainingTraditional: years.length > 0 ? years[years.length - 1].traditionalBalance : Math.round(traditional),
+    bridgeYears: firstRung ? firstRung.accessibleYear - startYear : 0,
+  };
+};
+
+/** Today's annual contributions to Traditional and Roth 401k/IRA accounts. */
+export const getRetirementAccountContributions = (profile: UserProfile) =>
+  profile.accounts
+    .filter(a => TRADITIONAL_TYPES.includes(a.type) || ROTH_TYPES.includes(a.type))
+    .reduce((sum, a) => sum + (Number(a.monthlyContribution) || 0) * 12, 0);
+
+/**
+ * Average federal rate on Traditional withdrawals in retirement, in today's dollars: a 4%
+ * draw on the projected Traditional balance plus any other retirement income, taxed under
+ * today's brackets and standard deduction.
+ */
+export const estimateRetirementTaxRate = (
+  profile: UserProfile,
+  traditionalAtRetirement: number,
+  yearsToRetirement: number,
+  otherIncome: number,
+  assumptions: ProjectionAssumptions
+) => {
+  const table = FEDERAL_TAX_TABLES[profile.taxFilingStatus];
+  const draw = (traditionalAtRetirement / Math.pow(1 + assumptions.inflation / 100, yearsToRetirement)) * RETIREMENT_DRAW_RATE;
+  if (draw <= 0) return 0;
+  const taxOn = (income: number) => applyBrackets(table.ordinary, Math.max(0, income - table.standardDeduction));
+  return ((taxOn(otherIncome + draw) - taxOn(otherIncome)) / draw) * 100;
+};
+
+/**
+ * Compares the after-tax wealth at retirement of putting `annualContribution` into
+ * Traditional versus Roth accounts for the same take-home cost. The Traditional route
+ * invests its tax saving in a brokerage account (growing net of tax drag, with gains taxed
+ * at the end); its balance is then valued after `retirementRate`.
+ */
+export const compareContributionTypes = (
+  profile: UserProfile,
+  summary: TaxSummary,
+  annualContribution: number,
+  retirementRate: number,
+  assumptions: ProjectionAssumptions,
+  currentYear = new Date().getFullYear()
+): ContributionComparison => {
+  const years = Math.max(1, (Number(profile.retirementAge) || 0) - (Number(profile.age) || 0));
+  const growth = 1 + assumptions.expectedReturn / 100;
+  const sideGrowth = 1 + (assumptions.expectedReturn - getBrokerageTaxDrag(summary)) / 100;
+  const currentRate = summary.marginalRate;
+
+  let traditional = 0;
+  let side = 0;
+  let sideBasis = 0;
+  let roth = 0;
+  const afterTaxTraditional = () =>
+    traditional * (1 - retirementRate / 100) + side - (Math.max(0, side - sideBasis) * summary.capitalGainsRate) / 100;
+  const series: ContributionComparisonPoint[] = [];
+
+  for (let t = 1; t <= years; t++) {
+    const saving = (annualContribution * currentRate) / 100;
+    traditional = (traditional + annualContribution) * growth;
+    side = (side + saving) * sideGrowth;
+    sideBasis += saving;
+    roth = (roth + annualContribution) * growth;
+    series.push({
+      year: currentYear + t,
+      age: Number(profile.age) + t,
+      traditional: Math.round(afterTaxTraditional()),
+      roth: Math.round(roth),
+    });
+  }
+
+  return {
+    annualContribution,
+    currentRate,
+    retirementRate,
+    traditionalAfterTax: Math.round(afterTaxTraditional()),
+    rothAfterTax: Math.round(roth),
+    series,
+  };
+};
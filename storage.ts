@@ -0,0 +1,252 @@
+import { DEFAULT_PROFILE, EncryptedPayload, InvestmentPlan, SavedPlan, SavedProfile, UserProfile } from '../types';
+import { canPersist, getStorageMode, isLocked, openJson, sealJson } from './vault';
+
+const DB_NAME = 'steward_ai';
+const DB_VERSION = 2; // IndexedDB object-store layout; bump when stores or indexes change
+
+/**
+ * Version of the record shapes in type.ts. When `UserProfile` or `InvestmentPlan` changes
+ * incompatibly, bump this and add a migration from the previous version below.
+ */
+export const SCHEMA_VERSION = 2;
+
+export type SavedStoreName = 'profiles' | 'plans';
+type StoredRecord = SavedProfile | SavedPlan;
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each receives a record written at
+ * that version and returns it in the shape of the next version.
+ */
+const MIGRATIONS: Record<number, (record: any) => any> = {
+  // 2: projection points carry the primary member's age. Older plans are backfilled from
+  // the age saved with the plan, counting from the first projected year.
+  1: record => {
+    const projections = record.plan?.projections;
+    const startAge = Number(record.profile?.age);
+    if (!Array.isArray(projections) || projections.length === 0 || !Number.isFinite(startAge)) return record;
+    const startYear = Number(projections[0].year);
+    return {
+      ...record,
+      plan: {
+        ...record.plan,
+        projections: projections.map((p: any, i: number) => ({
+          ...p,
+          age: typeof p.age === 'number' ? p.age : startAge + (Number(p.year) - startYear || i),
+        })),
+      },
+    };
+  },
+};
+
+// Fields added to UserProfile later than a record was written fall back to their defaults.
+const normalizeProfile = (profile: Partial<UserProfile>): UserProfile => ({ ...DEFAULT_PROFILE, ...profile });
+
+const migrateRecord = <T extends StoredRecord>(raw: any): T => {
+  let record = raw;
+  let version = Number(raw.schemaVersion) || 1;
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from schema version ${version}`);
+    record = migrate(record);
+    version++;
+  }
+  return { ...record, schemaVersion: SCHEMA_VERSION, profile: normalizeProfile(record.profile) };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB, so profiles cannot be saved.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('profiles')) {
+          db.createObjectStore('profiles', { keyPath: 'id' });
+        }
+        const plans = db.objectStoreNames.contains('plans')
+          ? request.transaction!.objectStore('plans')
+          : db.createObjectStore('plans', { keyPath: 'id' });
+        // Version 1 indexed plans by profileId, which sealed records keep encrypted.
+        if (plans.indexNames.contains('profileId')) plans.deleteIndex('profileId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. storage blocked in private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: SavedStoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// In vault mode a record is stored as its id plus the encrypted record, so names and
+// figures are never on disk in plaintext.
+interface SealedRecord {
+  id: string;
+  sealed: EncryptedPayload;
+}
+
+// Session-only mode keeps records here instead of IndexedDB.
+const memoryStores: Record<SavedStoreName, Map<string, StoredRecord>> = { profiles: new Map(), plans: new Map() };
+
+// Returns null for sealed records while the vault is locked.
+const unseal = async (raw: any): Promise<any | null> => {
+  if (!raw?.sealed) return raw;
+  return isLocked() ? null : openJson((raw as SealedRecord).sealed);
+};
+
+const readAllRaw = (store: SavedStoreName): Promise<any[]> =>
+  canPersist() ? runRequest<any[]>(store, 'readonly', s => s.getAll()) : Promise.resolve([...memoryStores[store].values()]);
+
+// Ids of records the current vault key can't decrypt, per store, as of the last listing.
+const unreadable: Record<SavedStoreName, string[]> = { profiles: [], plans: [] };
+
+/** Number of saved records hidden from the last listings because they couldn't be decrypted. */
+export const getUnreadableCount = () => unreadable.profiles.length + unreadable.plans.length;
+
+// Records that fail to decrypt (sealed under a different vault) are skipped, not fatal.
+const getAll = async <T extends StoredRecord>(store: SavedStoreName): Promise<T[]> => {
+  const failed: string[] = [];
+  const records = await Promise.all((await readAllRaw(store)).map(raw => unseal(raw).catch(err => {
+    console.error(`Failed to decrypt saved record ${raw.id}`, err);
+    failed.push(raw.id);
+    return null;
+  })));
+  unreadable[store] = failed;
+  return records
+    .filter(r => r !== null)
+    .map(r => migrateRecord<T>(r))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+const getOne = async <T extends StoredRecord>(store: SavedStoreName, id: string): Promise<T> => {
+  const raw = canPersist() ? await runRequest<any>(store, 'readonly', s => s.get(id)) : memoryStores[store].get(id);
+  const record = await unseal(raw);
+  if (!record) throw new Error('That saved item no longer exists.');
+  return migrateRecord<T>(record);
+};
+
+const put = async <T extends StoredRecord>(store: SavedStoreName, record: T): Promise<T> => {
+  if (!canPersist()) {
+    memoryStores[store].set(record.id, record);
+    return record;
+  }
+  const stored: StoredRecord | SealedRecord = getStorageMode() === 'vault' ? { id: record.id, sealed: await sealJson(record) } : record;
+  await runRequest(store, 'readwrite', s => s.put(stored));
+  return record;
+};
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const now = () => new Date().toISOString();
+
+export const listProfiles = () => getAll<SavedProfile>('profiles');
+
+export const listPlans = () => getAll<SavedPlan>('plans');
+
+/** Saves a profile under a name. Passing an existing id overwrites that entry. */
+export const saveProfile = async (name: string, profile: UserProfile, id?: string): Promise<SavedProfile> => {
+  const existing = id ? await getOne<SavedProfile>('profiles', id).catch(() => null) : null;
+  const timestamp = now();
+  return put<SavedProfile>('profiles', {
+    id: existing?.id || createId('profile'),
+    name: name.trim() || 'Untitled profile',
+    profile,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: existing?.createdAt || timestamp,
+    updatedAt: timestamp,
+  });
+};
+
+export const savePlan = (name: string, profile: UserProfile, plan: InvestmentPlan, profileId: string | null): Promise<SavedPlan> => {
+  const timestamp = now();
+  return put<SavedPlan>('plans', {
+    id: createId('plan'),
+    name: name.trim() || 'Untitled plan',
+    profileId,
+    profile,
+    plan,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+};
+
+/** Replaces the plan in a history entry, e.g. after a failed section has been regenerated. */
+export const updateSavedPlan = async (id: string, plan: InvestmentPlan): Promise<SavedPlan> => {
+  const record = await getOne<SavedPlan>('plans', id);
+  return put<SavedPlan>('plans', { ...record, plan, updatedAt: now() });
+};
+
+export const renameSaved = async (store: SavedStoreName, id: string, name: string) => {
+  const record = await getOne<StoredRecord>(store, id);
+  return put(store, { ...record, name: name.trim() || record.name, updatedAt: now() });
+};
+
+export const duplicateSaved = async (store: SavedStoreName, id: string) => {
+  const record = await getOne<StoredRecord>(store, id);
+  const timestamp = now();
+  return put(store, {
+    ...record,
+    id: createId(store === 'profiles' ? 'profile' : 'plan'),
+    name: `${record.name} (copy)`,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+};
+
+export const deleteSaved = async (store: SavedStoreName, id: string) => {
+  if (!canPersist()) {
+    memoryStores[store].delete(id);
+    return;
+  }
+  await runRequest(store, 'readwrite', s => s.delete(id));
+};
+
+/** Deletes records sealed under a vault that has been erased; they can never be decrypted again. */
+export const deleteSealedRecords = async () => {
+  for (const store of ['profiles', 'plans'] as SavedStoreName[]) {
+    // Read IndexedDB directly: sealed records are only ever on disk, whatever the current mode.
+    const sealed = (await runRequest<any[]>(store, 'readonly', s => s.getAll())).filter(r => r.sealed);
+    for (const record of sealed) {
+      await runRequest(store, 'readwrite', s => s.delete(record.id));
+    }
+  }
+};
+
+/**
+ * Deletes unencrypted records from IndexedDB, for switching to session-only mode where
+ * nothing readable should stay on disk. Records sealed under a vault are left alone.
+ */
+export const deletePlaintextRecords = async () => {
+  for (const store of ['profiles', 'plans'] as SavedStoreName[]) {
+    const plaintext = (await runRequest<any[]>(store, 'readonly', s => s.getAll())).filter(r => !r.sealed);
+    for (const record of plaintext) {
+      await runRequest(store, 'readwrite', s => s.delete(record.id));
+    }
+  }
+};
+
+/** Encrypts any plaintext records left from before the vault was created. */
+export const resealAll = async () => {
+  if (getStorageMode() !== 'vault') return;
+  for (const store of ['profiles', 'plans'] as SavedStoreName[]) {
+    const plaintext = (await readAllRaw(store)).filter(r => !r.sealed);
+    for (const record of plaintext) {
+      await put(store, record as StoredRecord);
+    }
+  }
+};
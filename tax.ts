@@ -0,0 +1,293 @@
+import {
+  AccountType, ContributionUsage, FederalTaxTable, FilingStatus, Holding, RebalancingOrder, SellTaxEstimate, TaxBracket,
+  TaxSummary, UserProfile,
+} from '../types';
+import { ACCOUNT_TYPE_INFO } from './accounts';
+import { getAccountOwner, getHouseholdIncome, getHouseholdMembers } from './household';
+import { isLongTermHolding } from './portfolioImport';
+
+export const TAX_YEAR = 2026;
+
+export const FILING_STATUS_LABELS: Record<FilingStatus, string> = {
+  single: 'Single',
+  married_joint: 'Married Filing Jointly',
+  head_household: 'Head of Household',
+};
+
+const INDIVIDUAL_LIMITS = {
+  workplacePlan: 24500,
+  workplaceCatchUp: 8000,
+  ira: 7500,
+  iraCatchUp: 1100,
+  hsaCatchUp: 1000,
+};
+
+/**
+ * Federal brackets, standard deductions and contribution limits for {@link TAX_YEAR}.
+ * State and local taxes are not modelled.
+ */
+export const FEDERAL_TAX_TABLES: Record<FilingStatus, FederalTaxTable> = {
+  single: {
+    standardDeduction: 16100,
+    ordinary: [
+      { rate: 10, upTo: 12400 },
+      { rate: 12, upTo: 50400 },
+      { rate: 22, upTo: 105700 },
+      { rate: 24, upTo: 201775 },
+      { rate: 32, upTo: 256225 },
+      { rate: 35, upTo: 640600 },
+      { rate: 37, upTo: null },
+    ],
+    capitalGains: [
+      { rate: 0, upTo: 49450 },
+      { rate: 15, upTo: 545500 },
+      { rate: 20, upTo: null },
+    ],
+    niitThreshold: 200000,
+    contributionLimits: { ...INDIVIDUAL_LIMITS, hsa: 4400 },
+  },
+  married_joint: {
+    standardDeduction: 32200,
+    ordinary: [
+      { rate: 10, upTo: 24800 },
+      { rate: 12, upTo: 100800 },
+      { rate: 22, upTo: 211400 },
+      { rate: 24, upTo: 403550 },
+      { rate: 32, upTo: 512450 },
+      { rate: 35, upTo: 768700 },
+      { rate: 37, upTo: null },
+    ],
+    capitalGains: [
+      { rate: 0, upTo: 98900 },
+      { rate: 15, upTo: 613700 },
+      { rate: 20, upTo: null },
+    ],
+    niitThreshold: 250000,
+    contributionLimits: { ...INDIVIDUAL_LIMITS, hsa: 8750 },
+  },
+  head_household: {
+    standardDeduction: 24150,
+    ordinary: [
+      { rate: 10, upTo: 17700 },
+      { rate: 12, upTo: 67450 },
+      { rate: 22, upTo: 105700 },
+      { rate: 24, upTo: 201750 },
+      { rate: 32, upTo: 256200 },
+      { rate: 35, upTo: 640600 },
+      { rate: 37, upTo: null },
+    ],
+    capitalGains: [
+      { rate: 0, upTo: 66200 },
+      { rate: 15, upTo: 579600 },
+      { rate: 20, upTo: null },
+    ],
+    niitThreshold: 200000,
+    contributionLimits: { ...INDIVIDUAL_LIMITS, hsa: 8750 },
+  },
+};
+
+const NIIT_RATE = 3.8;
+// Capital losses beyond gains can offset at most this much ordinary income per year.
+export const CAPITAL_LOSS_LIMIT = 3000;
+// Typical yield of a broad equity index fund; dividends are taxed every year in a brokerage account.
+export const ASSUMED_DIVIDEND_YIELD = 1.8;
+
+const WORKPLACE_PLANS: AccountType[] = ['Traditional 401k', 'Roth 401k'];
+const IRAS: AccountType[] = ['Traditional IRA', 'Roth IRA'];
+
+const bracketIndex = (brackets: TaxBracket[], income: number) => {
+  const index = brackets.findIndex(b => b.upTo === null || income < b.upTo);
+  return index === -1 ? brackets.length - 1 : index;
+};
+
+/** Tax on `income` under a progressive bracket schedule. */
+export const applyBrackets = (brackets: TaxBracket[], income: number) => {
+  let tax = 0;
+  let floor = 0;
+  for (const bracket of brackets) {
+    if (income <= floor) break;
+    const top = bracket.upTo === null ? income : Math.min(income, bracket.upTo);
+    tax += ((top - floor) * bracket.rate) / 100;
+    floor = bracket.upTo ?? income;
+  }
+  return tax;
+};
+
+/**
+ * Annual contributions per member against their IRS limits. Joint accounts count toward the
+ * primary member, since retirement accounts can't actually be held jointly.
+ */
+export const getContributionUsage = (profile: UserProfile): ContributionUsage[] => {
+  const limits = FEDERAL_TAX_TABLES[profile.taxFilingStatus].contributionLimits;
+  const usage: ContributionUsage[] = [];
+  for (const member of getHouseholdMembers(profile)) {
+    const age = Number(member.age) || 0;
+    const owned = profile.accounts.filter(a => {
+      const owner = getAccountOwner(a);
+      return (owner === 'joint' ? 'primary' : owner) === member.id;
+    });
+    const annual = (types: AccountType[]) =>
+      owned.filter(a => types.includes(a.type)).reduce((sum, a) => sum + (Number(a.monthlyContribution) || 0) * 12, 0);
+
+    const kinds: [ContributionUsage['kind'], AccountType[], AccountType, number][] = [
+      ['workplacePlan', WORKPLACE_PLANS, 'Traditional 401k', limits.workplacePlan + (age >= 50 ? limits.workplaceCatchUp : 0)],
+      ['ira', IRAS, 'Traditional IRA', limits.ira + (age >= 50 ? limits.iraCatchUp : 0)],
+      ['hsa', ['HSA'], 'HSA', limits.hsa + (age >= 55 ? limits.hsaCatchUp : 0)],
+    ];
+    for (const [kind, types, preTaxType, limit] of kinds) {
+      const contributed = annual(types);
+      if (contributed > 0) usage.push({ memberId: member.id, kind, contributed, preTax: annual([preTaxType]), limit });
+    }
+  }
+  return usage;
+};
+
+/**
+ * Pre-tax contributions that reduce taxable income: Traditional 401k and IRA deferrals and
+ * HSA contributions, capped at each member's limit. Traditional IRA deductions are assumed
+ * to be allowed; in practice they phase out for high earners with a workplace plan.
+ */
+const getPreTaxContributions = (profile: UserProfile) =>
+  getContributionUsage(profile).reduce((sum, usage) => sum + Math.min(usage.preTax, usage.limit), 0);
+
+/**
+ * Federal income tax on the household's wages for {@link TAX_YEAR}, using the standard
+ * deduction. Household income is assumed to be filed on one return under the profile's
+ * filing status.
+ */
+export const calculateTax = (profile: UserProfile): TaxSummary => {
+  const table = FEDERAL_TAX_TABLES[profile.taxFilingStatus];
+  const grossIncome = getHouseholdIncome(profile);
+  const preTaxContributions = Math.min(grossIncome, getPreTaxContributions(profile));
+  const taxableIncome = Math.max(0, grossIncome - preTaxContributions - table.standardDeduction);
+  const federalTax = applyBrackets(table.ordinary, taxableIncome);
+
+  const ordinary = table.ordinary[bracketIndex(table.ordinary, taxableIncome)];
+  const gains = table.capitalGains[bracketIndex(table.capitalGains, taxableIncome)];
+  const niit = grossIncome - preTaxContributions > table.niitThreshold ? NIIT_RATE : 0;
+
+  return {
+    taxYear: TAX_YEAR,
+    filingStatus: profile.taxFilingStatus,
+    grossIncome,
+    preTaxContributions,
+    standardDeduction: table.standardDeduction,
+    taxableIncome,
+    federalTax: Math.round(federalTax),
+    marginalRate: ordinary.rate,
+    effectiveRate: grossIncome > 0 ? (federalTax / grossIncome) * 100 : 0,
+    capitalGainsRate: gains.rate + niit,
+    shortTermGainsRate: ordinary.rate + niit,
+    bracketRoom: ordinary.upTo === null ? null : ordinary.upTo - taxableIncome,
+  };
+};
+
+/**
+ * Annual return lost to tax in a brokerage account, in percentage points: the assumed
+ * dividend yield taxed at the qualified-dividend rate. Gains are assumed to be deferred
+ * until sale, so turnover isn't included.
+ */
+export const getBrokerageTaxDrag = (summary: TaxSummary) =>
+  (ASSUMED_DIVIDEND_YIELD * summary.capitalGainsRate) / 100;
+
+/** Held in a tax-advantaged account. Holdings whose account type is unknown count as taxable. */
+export const isShelteredHolding = (holding: Holding) =>
+  holding.accountType !== undefined && ACCOUNT_TYPE_INFO[holding.accountType].treatment !== 'taxable';
+
+/**
+ * Reads a rebalancing amount such as "$5,000", "50 shares" or "25%" (of the position)
+ * as a share count. Returns null when the amount can't be interpreted.
+ */
+const parseSellQuantity = (amount: string, quantity: number, marketValue: number) => {
+  const value = Number(amount.replace(/[^0-9.]/g, ''));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  if (/share/i.test(amount)) return Math.min(quantity, value);
+  if (amount.includes('%')) return (quantity * Math.min(100, value)) / 100;
+  const price = quantity > 0 ? marketValue / quantity : 0;
+  return price > 0 ? Math.min(quantity, value / price) : null;
+};
+
+/**
+ * Estimates federal tax on a SELL order using the profile's holdings. The sale is assumed to
+ * come from taxable positions first (the cautious case), lots are sold oldest first, and
+ * gains are taxed at the household's marginal rates. Returns null when the order isn't a
+ * sell, the ticker isn't held, or the amount can't be read.
+ */
+export const estimateSellTax = (
+  order: RebalancingOrder,
+  holdings: Holding[],
+  summary: TaxSummary,
+  today = new Date()
+): SellTaxEstimate | null => {
+  if (order.action !== 'SELL') return null;
+  const positions = holdings
+    .filter(h => h.ticker.toUpperCase() === order.ticker.toUpperCase())
+    .sort((a, b) => Number(isShelteredHolding(a)) - Number(isShelteredHolding(b)));
+  if (positions.length === 0) return null;
+
+  const quantity = positions.reduce((sum, h) => sum + h.quantity, 0);
+  const marketValue = positions.reduce((sum, h) => sum + h.marketValue, 0);
+  // Orders from the local rebalancer carry exact numbers; the model's orders only have text.
+  let remaining = order.shares !== undefined
+    ? Math.min(quantity, order.shares)
+    : order.dollars !== undefined
+      ? parseSellQuantity(`$${order.dollars}`, quantity, marketValue)
+      : parseSellQuantity(order.amount, quantity, marketValue);
+  if (remaining === null) return null;
+
+  let proceeds = 0;
+  let shortTermGain = 0;
+  let longTermGain = 0;
+  let basisKnown = true;
+  let soldTaxable = false;
+
+  for (const holding of positions) {
+    if (remaining <= 0) break;
+    const sold = Math.min(holding.quantity, remaining);
+    const price = holding.quantity > 0 ? holding.marketValue / holding.quantity : 0;
+    remaining -= sold;
+    proceeds += sold * price;
+    if (isShelteredHolding(holding)) continue;
+    soldTaxable = true;
+
+    if (holding.lots && holding.lots.length > 0) {
+      let toSell = sold;
+      const lots = [...holding.lots].sort((a, b) => a.purchaseDate.localeCompare(b.purchaseDate));
+      for (const lot of lots) {
+        if (toSell <= 0) break;
+        const taken = Math.min(lot.quantity, toSell);
+        toSell -= taken;
+        const gain = taken * price - (lot.costBasis * taken) / lot.quantity;
+        if (isLongTermHolding(lot.purchaseDate, today)) longTermGain += gain;
+        else shortTermGain += gain;
+      }
+    } else if (holding.costBasis !== undefined && holding.quantity > 0) {
+      longTermGain += sold * price - (holding.costBasis * sold) / holding.quantity;
+    } else {
+      basisKnown = false;
+    }
+  }
+
+  // Losses in one holding period offset gains in the other before any rate applies.
+  let tax: number;
+  const net = shortTermGain + longTermGain;
+  if (net < 0) {
+    tax = -(Math.min(-net, CAPITAL_LOSS_LIMIT) * summary.marginalRate) / 100;
+  } else if (shortTermGain < 0) {
+    tax = (net * summary.capitalGainsRate) / 100;
+  } else if (longTermGain < 0) {
+    tax = (net * summary.shortTermGainsRate) / 100;
+  } else {
+    tax = (shortTermGain * summary.shortTermGainsRate + longTermGain * summary.capitalGainsRate) / 100;
+  }
+
+  return {
+    ticker: order.ticker,
+    proceeds: Math.round(proceeds),
+    shortTermGain: Math.round(shortTermGain),
+    longTermGain: Math.round(longTermGain),
+    tax: Math.round(tax),
+    sheltered: !soldTaxable,
+    basisKnown,
+  };
+};
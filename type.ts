@@ -4,8 +4,8 @@ export interface UserProfile {
   annualIncome: number | string;
   // Broken down assets
   cash: number | string;
-  brokerageBalance: number | string;
-  rothBalance: number | string;
+  accounts: InvestmentAccount[];
+  liabilities: Liability[];
   
   monthlyContribution: number | string;
   riskTolerance: 'conservative' | 'moderate' | 'aggressive' | 'growth_maximalist';
@@ -13,6 +13,114 @@ export interface UserProfile {
   goals: string[]; // e.g., "beat_inflation", "dividends", "early_retirement"
   geographicFocus: string[]; // e.g., 'US Focused', 'Europe', 'Emerging Markets'
   currentPortfolio: string; // Raw text or CSV content of current holdings
+  holdings: Holding[]; // Structured positions parsed from broker exports
+  partner: HouseholdMember | null; // Set in household mode; the top-level fields describe the primary member
+}
+
+export type AccountOwner = 'primary' | 'partner' | 'joint';
+
+export interface HouseholdMember {
+  id: Exclude<AccountOwner, 'joint'>;
+  name: string;
+  age: number | string;
+  retirementAge: number | string;
+  annualIncome: number | string;
+}
+
+export interface MemberBreakdown {
+  member: HouseholdMember;
+  retirementYear: number;
+  totalBalance: number;
+  monthlyContribution: number;
+  balancesByTreatment: Record<TaxTreatment, number>;
+}
+
+export interface ValidationIssue {
+  field: string; // Path into the profile, e.g. "retirementAge" or "accounts.<id>.balance"
+  severity: 'error' | 'warning'; // Errors block submission; warnings don't
+  message: string;
+  required?: boolean; // Raised because the field is blank, rather than invalid
+}
+
+export type AccountType =
+  | 'Brokerage'
+  | 'Traditional 401k'
+  | 'Roth 401k'
+  | 'Traditional IRA'
+  | 'Roth IRA'
+  | 'HSA'
+  | '529';
+
+export type TaxTreatment = 'taxable' | 'tax_deferred' | 'tax_free';
+
+export interface InvestmentAccount {
+  id: string;
+  type: AccountType;
+  label: string; // e.g. "Fidelity Roth" or "Employer 401k"
+  balance: number | string;
+  monthlyContribution: number | string;
+  owner?: AccountOwner; // Defaults to the primary member
+}
+
+export type LiabilityType = 'mortgage' | 'student_loan' | 'auto' | 'credit_card';
+
+export interface Liability {
+  id: string;
+  type: LiabilityType;
+  label: string;
+  balance: number | string;
+  apr: number | string; // Annual percentage rate, e.g. 22.9
+  minimumPayment: number | string; // Monthly
+}
+
+export type PayoffStrategy = 'avalanche' | 'snowball';
+
+export interface DebtPayoffPoint {
+  month: number;
+  totalBalance: number;
+}
+
+export interface DebtPayoffResult {
+  strategy: PayoffStrategy | 'minimum';
+  months: number; // Months until every debt is paid off (capped when it never is)
+  totalInterest: number;
+  paidOff: boolean; // False when payments never outpace interest
+  payoffOrder: { id: string; label: string; month: number }[];
+  timeline: DebtPayoffPoint[];
+}
+
+export type BrokerSource = 'fidelity' | 'schwab' | 'robinhood' | 'generic' | 'ofx' | 'manual';
+
+export interface Holding {
+  ticker: string;
+  name?: string;
+  quantity: number;
+  marketValue: number;
+  costBasis?: number; // Total cost basis for the position, if known
+  account: string; // e.g. "Fidelity - Individual ...1234"
+  accountType?: AccountType; // Inferred from the account name when possible
+  source: BrokerSource;
+  lots?: TaxLot[]; // When present, lots are the source of truth for cost basis
+}
+
+export interface TaxLot {
+  purchaseDate: string; // ISO date, e.g. "2021-03-15"
+  quantity: number;
+  costBasis: number; // Total cost for the lot, not per share
+}
+
+export interface PortfolioImportResult {
+  fileName: string;
+  broker: BrokerSource | null; // null when the file could not be recognised
+  holdings: Holding[];
+  warnings: string[];
+  error?: string; // Set when the file was recognised but could not be parsed
+  balances?: ImportedBalances; // Account totals, when the file carries them (OFX)
+}
+
+export interface ImportedBalances {
+  cash: { label: string; balance: number }[]; // Cash per account, so a re-imported statement replaces its own amount
+  accounts: { type: AccountType; label: string; balance: number }[];
 }
 
 export interface TechnicalAnalysis {
@@ -35,14 +143,15 @@ export interface AllocationItem {
   percentage: number;
   type: 'Stock' | 'ETF' | 'Bond' | 'REIT' | 'Crypto';
   rationale: string;
-  accountType: 'Roth IRA' | 'Brokerage' | 'Both';
+  accountType: AccountType | 'Any';
   dividendYield?: number;
   technicalAnalysis: TechnicalAnalysis;
   marketSentiment: MarketSentiment;
 }
 
 export interface ProjectionData {
-  year: number;
+  year: number; // Calendar year
+  age: number; // Primary member's age in that year
   conservative: number;
   expected: number;
   aggressive: number;
@@ -50,6 +159,293 @@ export interface ProjectionData {
   totalContributions: number;
 }
 
+// Annual rates in percent, e.g. 7 for 7%. Returns are nominal.
+export interface ProjectionAssumptions {
+  conservativeReturn: number;
+  expectedReturn: number;
+  aggressiveReturn: number;
+  inflation: number;
+}
+
+export const DEFAULT_PROJECTION_ASSUMPTIONS: ProjectionAssumptions = {
+  conservativeReturn: 4,
+  expectedReturn: 7,
+  aggressiveReturn: 10,
+  inflation: 2.5,
+};
+
+// Annual arithmetic mean return and standard deviation, in percent.
+export interface AssetClassAssumption {
+  expectedReturn: number;
+  volatility: number;
+  marketCorrelation: number; // 0–1, how closely the class moves with the broad stock market
+}
+
+export interface MonteCarloPercentiles {
+  year: number;
+  age: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  percentiles: MonteCarloPercentiles[]; // Nominal dollars
+  targetBalance: number; // Today's dollars
+  successProbability: number; // Share of paths (0–1) whose inflation-adjusted final balance reaches the target
+  portfolioReturn: number; // Weighted expected return of the allocation, percent
+  portfolioVolatility: number;
+}
+
+export type WithdrawalStrategy = 'fixed' | 'guardrails' | 'vpw';
+export type WithdrawalOrder = 'conventional' | 'roth_first' | 'proportional';
+export type WithdrawalBucket = 'cash' | TaxTreatment;
+export type ReturnScenario = 'steady' | 'early_downturn';
+
+export interface WithdrawalSettings {
+  strategy: WithdrawalStrategy;
+  order: WithdrawalOrder;
+  lifeExpectancy: number; // Plan until the last household member reaches this age
+  initialRate: number; // Percent of the portfolio withdrawn in the first year (fixed and guardrails)
+  scenario: ReturnScenario;
+}
+
+export interface WithdrawalYear {
+  year: number;
+  age: number; // Primary member's age
+  withdrawal: number; // Nominal dollars actually withdrawn
+  shortfall: number; // Planned withdrawal the portfolio could not cover
+  balances: Record<WithdrawalBucket, number>; // After the withdrawal and that year's growth
+  totalBalance: number;
+}
+
+export interface WithdrawalResult {
+  strategy: WithdrawalStrategy;
+  years: WithdrawalYear[];
+  depletedYear: number | null; // First year the planned withdrawal could not be met
+  depletedAge: number | null;
+  endingBalance: number;
+  totalWithdrawn: number;
+  initialWithdrawal: number;
+}
+
+export type FilingStatus = UserProfile['taxFilingStatus'];
+
+export interface TaxBracket {
+  rate: number; // Percent
+  upTo: number | null; // Top of the bracket in taxable income; null for the highest bracket
+}
+
+// Annual per-person limits in dollars. HSA limits depend on self-only vs family coverage.
+export interface ContributionLimits {
+  workplacePlan: number; // 401k / 403b / 457 employee deferrals, Traditional and Roth combined
+  workplaceCatchUp: number; // Extra allowed from age 50
+  ira: number; // Traditional and Roth combined
+  iraCatchUp: number;
+  hsa: number;
+  hsaCatchUp: number; // Extra allowed from age 55
+}
+
+export interface FederalTaxTable {
+  standardDeduction: number;
+  ordinary: TaxBracket[];
+  capitalGains: TaxBracket[]; // Long-term gains and qualified dividends
+  niitThreshold: number; // Net investment income tax (3.8%) applies above this income
+  contributionLimits: ContributionLimits;
+}
+
+export interface TaxSummary {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  grossIncome: number;
+  preTaxContributions: number; // Traditional 401k/IRA and HSA contributions, capped at the limits
+  standardDeduction: number;
+  taxableIncome: number;
+  federalTax: number;
+  marginalRate: number; // Percent, on the next dollar of ordinary income
+  effectiveRate: number; // Federal tax as a percent of gross income
+  capitalGainsRate: number; // Long-term gains and qualified dividends, including NIIT where it applies
+  shortTermGainsRate: number;
+  bracketRoom: number | null; // Taxable income left before the next ordinary bracket
+}
+
+export interface ContributionUsage {
+  memberId: HouseholdMember['id'];
+  kind: keyof Pick<ContributionLimits, 'workplacePlan' | 'ira' | 'hsa'>;
+  contributed: number; // Annual
+  preTax: number; // The part of `contributed` going to Traditional accounts or an HSA
+  limit: number; // Including catch-up contributions the member is old enough for
+}
+
+export interface SellTaxEstimate {
+  ticker: string;
+  proceeds: number;
+  shortTermGain: number;
+  longTermGain: number; // Gains without lot dates are assumed to be long-term
+  tax: number; // Negative when the sale realizes a net loss that offsets other income
+  sheltered: boolean; // The position is held only in tax-advantaged accounts
+  basisKnown: boolean;
+}
+
+export interface RothConversionSettings {
+  targetBracket: number; // Convert enough each year to fill ordinary income up to the top of this bracket (percent)
+  otherIncome: number; // Taxable income in retirement besides conversions, today's dollars (pension, part-time work)
+  endAge: number; // Last age at which to convert; required minimum distributions start at 73
+}
+
+export interface RothConversionYear {
+  year: number;
+  age: number; // Primary member's age
+  conversion: number; // Nominal dollars moved from Traditional to Roth at the start of the year
+  tax: number; // Federal tax caused by the conversion, paid from outside the accounts
+  effectiveRate: number; // Tax as a percent of the conversion
+  traditionalBalance: number; // End of year
+  rothBalance: number;
+  accessibleYear: number; // First year the converted amount can be withdrawn without penalty
+}
+
+export interface RothConversionPlan {
+  startYear: number;
+  years: RothConversionYear[];
+  totalConverted: number;
+  totalTax: number;
+  averageRate: number; // Percent
+  remainingTraditional: number; // Left to convert when the ladder ends
+  bridgeYears: number; // Years of spending that must come from cash or brokerage before the first rung is reachable
+}
+
+export interface ContributionComparisonPoint {
+  year: number;
+  age: number;
+  traditional: number; // After-tax value if contributions had gone to Traditional accounts
+  roth: number;
+}
+
+export interface ContributionComparison {
+  annualContribution: number;
+  currentRate: number; // Marginal rate the Traditional deduction saves today
+  retirementRate: number; // Average rate expected on Traditional withdrawals
+  traditionalAfterTax: number; // At retirement, nominal
+  rothAfterTax: number;
+  series: ContributionComparisonPoint[];
+}
+
+export interface ContributionRebalanceOptions {
+  monthlyContribution: number; // New money each month
+  idleCash: number; // Invested in the first month
+  months: number; // Length of the schedule to show
+  driftTolerance: number; // Percentage points
+}
+
+export interface ContributionBuy {
+  ticker: string;
+  dollars: number;
+}
+
+export interface ContributionMonth {
+  month: number; // 1 = next contribution
+  buys: ContributionBuy[];
+  invested: number;
+  maxDrift: number; // Largest absolute drift after this month's buys, percentage points
+}
+
+export interface ContributionRebalancePlan {
+  schedule: ContributionMonth[];
+  monthsToTolerance: number | null; // First month every position is inside tolerance; null if not within the search window
+  maxDriftBefore: number;
+  after: AllocationWeight[]; // At the end of the schedule
+}
+
+export interface WashSaleConflict {
+  ticker: string;
+  account: string;
+  purchaseDate: string;
+  quantity: number;
+  permanent: boolean; // Bought in an IRA or Roth: the disallowed loss can never be recovered
+}
+
+export interface HarvestOpportunity {
+  ticker: string;
+  account: string;
+  purchaseDate: string | null; // null when the position has a total cost basis but no lots
+  quantity: number;
+  marketValue: number;
+  costBasis: number;
+  loss: number; // Positive dollars
+  term: 'short' | 'long' | 'unknown';
+  taxSaved: number; // If the loss offsets gains taxed at the same term's rate
+  replacement: string | null; // Similar but not substantially identical fund, when one is known
+  washSaleConflicts: WashSaleConflict[];
+}
+
+export interface HarvestScanResult {
+  opportunities: HarvestOpportunity[];
+  totalLoss: number;
+  totalTaxSaved: number; // If every loss offsets gains of the same term
+  incomeOffsetSaved: number; // This year's saving with no gains to offset: up to $3,000 of ordinary income
+  positionsWithoutBasis: number; // Taxable positions that couldn't be checked
+}
+
+export interface LocatedHolding {
+  ticker: string;
+  dollars: number;
+  percentage: number; // Of the account
+}
+
+export interface AccountLocation {
+  accountId: string;
+  label: string;
+  type: AccountType;
+  balance: number;
+  holdings: LocatedHolding[];
+}
+
+export interface AssetTaxCost {
+  ticker: string;
+  yield: number; // Percent, from the plan or a default for the asset type
+  taxRate: number; // Percent applied to that yield in a taxable account
+  dragRate: number; // Percentage points of return lost per year when held in a taxable account
+}
+
+export interface AssetLocationResult {
+  accounts: AccountLocation[];
+  costs: AssetTaxCost[];
+  totalValue: number;
+  naiveDrag: number; // Annual dollars lost to tax if every account held the same mix
+  optimizedDrag: number;
+  annualSavings: number;
+}
+
+// Single-company exposure after expanding funds into their top constituents (services/lookThrough).
+export interface EffectiveExposure {
+  ticker: string;
+  name: string;
+  direct: number; // Dollars held as the stock itself
+  viaFunds: number; // Dollars held through funds
+  total: number;
+  percent: number; // Of the whole portfolio
+  funds: string[]; // Held tickers that contribute exposure
+}
+
+export interface FundOverlap {
+  fundA: string;
+  fundB: string;
+  overlap: number; // Percent of weight the two funds share, counting each name at the lower weight
+  sharedNames: string[];
+}
+
+export interface LookThroughResult {
+  asOf: string; // Date of the constituent dataset
+  totalValue: number;
+  exposures: EffectiveExposure[]; // Sorted largest first
+  overlaps: FundOverlap[];
+  concentrations: EffectiveExposure[]; // Names above the concentration limit
+  concentrationLimit: number; // Percent
+  expandedFunds: string[];
+  notExpanded: string[]; // Funds without constituent data, held as a single line
+}
+
 export interface GroundingSource {
   title: string;
   url: string;
@@ -81,6 +477,31 @@ export interface RebalancingOrder {
   action: 'BUY' | 'SELL' | 'HOLD';
   amount: string; // e.g. "$5,000" or "50 shares"
   reason: string;
+  dollars?: number; // Exact trade value; set by the local rebalancer, not the model
+  shares?: number; // Whole shares, when the price is known from holdings
+}
+
+export interface RebalanceOptions {
+  minTradeSize: number; // Dollars; smaller trades are skipped
+  driftTolerance: number; // Percentage points a position may drift from its target before it is traded
+  cashToInvest: number; // New money available for buys on top of sale proceeds
+}
+
+export interface AllocationWeight {
+  ticker: string;
+  value: number;
+  percentage: number; // Of the rebalanced total
+}
+
+export interface RebalanceResult {
+  orders: RebalancingOrder[];
+  before: AllocationWeight[];
+  after: AllocationWeight[];
+  targets: AllocationWeight[];
+  totalValue: number; // Holdings plus cash to invest
+  leftoverCash: number; // Not spent because of rounding, the minimum trade size or positions inside tolerance
+  maxDriftBefore: number; // Largest absolute drift from target, percentage points
+  maxDriftAfter: number;
 }
 
 export interface PortfolioAnalysis {
@@ -102,6 +523,12 @@ export interface ChatMessage {
     sources?: GroundingSource[];
 }
 
+export interface NetWorthSummary {
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+}
+
 export interface InvestmentPlan {
   summary: string;
   riskAnalysis: string;
@@ -114,6 +541,175 @@ export interface InvestmentPlan {
   secEvents: SecEvent[];
   sectorTrends: SectorTrend[];
   portfolioAnalysis?: PortfolioAnalysis;
+  netWorth?: NetWorthSummary; // Computed locally from the profile, not by the model
+  projectionAssumptions?: ProjectionAssumptions; // Used to compute `projections` locally
+  dataQualityWarnings?: string[]; // Repairs made to the model's output during validation
+  sections?: Partial<Record<PlanSection, PlanSectionState>>; // Per-stage status; missing on plans saved before staged generation
+}
+
+// Plan generation runs as separate stages (see services/geminiService), each writing its own
+// fields. A failed stage leaves the rest of the plan intact and can be retried on its own.
+export type PlanSection = 'research' | 'allocations' | 'portfolio' | 'summary';
+
+export interface PlanSectionState {
+  status: 'running' | 'done' | 'failed';
+  error?: string; // Why the stage failed
+  errorKind?: LLMErrorKind; // Picks the remediation shown with the error
+  warnings?: string[]; // Repairs made to this stage's output; merged into `dataQualityWarnings`
+}
+
+// Runtime description of the JSON the model returns. `INVESTMENT_PLAN_SCHEMA` is the single
+// source for both the prompt's JSON template and validation (see services/planValidation).
+export type SchemaNode =
+  | { kind: 'string'; optional?: boolean }
+  | { kind: 'number'; optional?: boolean; min?: number; max?: number }
+  | { kind: 'enum'; values: readonly string[]; optional?: boolean }
+  | { kind: 'array'; items: SchemaNode; optional?: boolean }
+  | { kind: 'object'; fields: Record<string, SchemaNode>; optional?: boolean; nullable?: boolean };
+
+export interface SchemaError {
+  path: string; // JSON path, e.g. "$.allocations[2].percentage"
+  message: string;
+}
+
+const str: SchemaNode = { kind: 'string' };
+const strList: SchemaNode = { kind: 'array', items: str };
+
+// The parts of `InvestmentPlan` the model writes; summary, projections, sources and net worth are filled in locally.
+export const INVESTMENT_PLAN_SCHEMA: SchemaNode = {
+  kind: 'object',
+  fields: {
+    riskAnalysis: { kind: 'string', optional: true },
+    actionableSteps: strList,
+    swot: { kind: 'object', fields: { strengths: strList, weaknesses: strList, opportunities: strList, threats: strList } },
+    allocations: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          ticker: str,
+          name: str,
+          sector: str,
+          percentage: { kind: 'number', min: 0, max: 100 },
+          type: { kind: 'enum', values: ['Stock', 'ETF', 'Bond', 'REIT', 'Crypto'] },
+          rationale: str,
+          accountType: str,
+          dividendYield: { kind: 'number', optional: true, min: 0 },
+          technicalAnalysis: { kind: 'object', fields: { summary: str, support: str, resistance: str, indicatorSignal: str } },
+          marketSentiment: {
+            kind: 'object',
+            fields: {
+              score: { kind: 'enum', values: ['Very Bullish', 'Bullish', 'Neutral', 'Bearish', 'Very Bearish'] },
+              summary: str,
+              analystRating: str,
+            },
+          },
+        },
+      },
+    },
+    marketAnalysis: { kind: 'object', fields: { macroOutlook: str, inflationForecast: str, interestRateView: str } },
+    secEvents: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: { ticker: str, type: str, date: str, summary: str, sentiment: { kind: 'enum', values: ['positive', 'negative', 'neutral'] } },
+      },
+    },
+    sectorTrends: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: { sector: str, trend: { kind: 'enum', values: ['accumulate', 'hold', 'reduce'] }, performance: { kind: 'number' }, reasoning: str },
+      },
+    },
+    portfolioAnalysis: {
+      kind: 'object',
+      optional: true,
+      nullable: true,
+      fields: {
+        currentScore: { kind: 'number', min: 0, max: 100 },
+        analysis: str,
+        rebalancingOrders: {
+          kind: 'array',
+          items: { kind: 'object', fields: { ticker: str, action: { kind: 'enum', values: ['BUY', 'SELL', 'HOLD'] }, amount: str, reason: str } },
+        },
+      },
+    },
+  },
+};
+
+// Language model backends (see services/llmProvider).
+export type ProviderKind = 'gemini' | 'openai' | 'fixture';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey: string; // Empty for the fixture provider and keyless local servers
+  baseUrl?: string; // OpenAI-compatible servers, e.g. "http://localhost:11434/v1"
+  model?: string; // Overrides the provider's default model
+}
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[]; // Conversation so far, ending with the user's turn
+  system?: string;
+  grounding?: boolean; // Allow web search where the provider supports it
+  json?: boolean; // Ask for a bare JSON reply
+  signal?: AbortSignal; // Aborts the request, e.g. when the user cancels or a deadline passes
+}
+
+export interface LLMResponse {
+  text: string;
+  sources: GroundingSource[]; // Web pages the answer was grounded on, if any
+}
+
+export interface LLMChat {
+  send: (message: string, signal?: AbortSignal) => Promise<LLMResponse>;
+}
+
+export interface LLMProvider {
+  kind: ProviderKind;
+  model: string;
+  supportsGrounding: boolean;
+  generate: (request: LLMRequest) => Promise<LLMResponse>;
+  stream: (request: LLMRequest) => AsyncIterable<LLMResponse>; // Each item holds only the new text and sources
+  createChat: (options: { system: string; history: LLMMessage[]; grounding?: boolean }) => LLMChat;
+}
+
+// Failure categories for language model calls (see services/llmErrors).
+export type LLMErrorKind = 'auth' | 'rate_limit' | 'safety' | 'timeout' | 'network' | 'malformed' | 'cancelled' | 'unknown';
+
+// How the API key, saved profiles and chat history are kept on this device (see services/vault).
+export type StorageMode = 'plain' | 'vault' | 'session';
+
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+// Records kept in the browser's IndexedDB. `schemaVersion` is the version of the record
+// shape when it was written, so older records can be migrated after this file changes.
+export interface SavedProfile {
+  id: string;
+  name: string;
+  profile: UserProfile;
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+export interface SavedPlan {
+  id: string;
+  name: string;
+  profileId: string | null; // Saved profile the plan was generated from, if any
+  profile: UserProfile; // Snapshot of the inputs at generation time
+  plan: InvestmentPlan;
+  schemaVersion: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export const DEFAULT_PROFILE: UserProfile = {
@@ -121,12 +717,17 @@ export const DEFAULT_PROFILE: UserProfile = {
   retirementAge: '',
   annualIncome: '',
   cash: '',
-  brokerageBalance: '',
-  rothBalance: '',
+  accounts: [
+    { id: 'default-brokerage', type: 'Brokerage', label: '', balance: '', monthlyContribution: '' },
+    { id: 'default-roth', type: 'Roth IRA', label: '', balance: '', monthlyContribution: '' },
+  ],
+  liabilities: [],
   monthlyContribution: '',
   riskTolerance: 'moderate',
   taxFilingStatus: 'single',
   goals: [],
   geographicFocus: [],
   currentPortfolio: '',
+  holdings: [],
+  partner: null,
 };
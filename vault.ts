@@ -0,0 +1,190 @@
+import { EncryptedPayload, StorageMode } from '../types';
+
+/**
+ * Local vault for the API key, saved profiles and chat history.
+ *
+ * - 'plain':   values are written to localStorage/IndexedDB as-is (the original behaviour).
+ * - 'vault':   values are encrypted with AES-GCM under a key derived from the user's
+ *              passphrase (PBKDF2-SHA256). The derived key only lives in memory, so the
+ *              app has to be unlocked after a reload or an auto-lock.
+ * - 'session': nothing is written to disk; everything is lost when the tab closes.
+ *              Switching to it removes whatever unencrypted data earlier modes saved.
+ */
+
+const MODE_KEY = 'steward_ai_storage_mode';
+const VAULT_META_KEY = 'steward_ai_vault';
+const SEALED_PREFIX = 'vault:';
+const PBKDF2_ITERATIONS = 310000;
+
+// Encrypted with the derived key so a wrong passphrase is detected before any data is touched.
+const VERIFIER_TEXT = 'steward-ai-vault';
+
+/** Minutes without mouse or keyboard activity before an unlocked vault locks itself. */
+export const AUTO_LOCK_MINUTES = 15;
+
+interface VaultMeta {
+  salt: string; // base64
+  iterations: number;
+  verifier: EncryptedPayload;
+}
+
+let mode: StorageMode = (() => {
+  try {
+    const stored = localStorage.getItem(MODE_KEY);
+    return stored === 'vault' || stored === 'session' ? stored : 'plain';
+  } catch {
+    return 'plain';
+  }
+})();
+let vaultKey: CryptoKey | null = null;
+const sessionValues = new Map<string, string>();
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Chunked so large records (full plans, long chats) don't exceed the argument limit of fromCharCode.
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const readMeta = (): VaultMeta | null => {
+  const raw = localStorage.getItem(VAULT_META_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptWith = async (key: CryptoKey, plaintext: string): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptWith = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return decoder.decode(data);
+};
+
+const requireKey = () => {
+  if (!vaultKey) throw new Error('The vault is locked. Unlock it with your passphrase first.');
+  return vaultKey;
+};
+
+export const getStorageMode = () => mode;
+
+export const hasVault = () => readMeta() !== null;
+
+export const isLocked = () => mode === 'vault' && vaultKey === null;
+
+/** True when saved data may be written to disk (anything but session-only mode). */
+export const canPersist = () => mode !== 'session';
+
+export const setStorageMode = (next: StorageMode) => {
+  mode = next;
+  localStorage.setItem(MODE_KEY, next);
+  if (next !== 'vault') vaultKey = null;
+};
+
+/** Creates a new vault, replacing any existing one. Data sealed under the old vault becomes unreadable. */
+export const createVault = async (passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const meta: VaultMeta = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier: await encryptWith(key, VERIFIER_TEXT) };
+  localStorage.setItem(VAULT_META_KEY, JSON.stringify(meta));
+  vaultKey = key;
+  setStorageMode('vault');
+};
+
+export const unlockVault = async (passphrase: string) => {
+  const meta = readMeta();
+  if (!meta) throw new Error('No vault has been set up on this device.');
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await decryptWith(key, meta.verifier) !== VERIFIER_TEXT) throw new Error();
+  } catch {
+    throw new Error('Incorrect passphrase.');
+  }
+  vaultKey = key;
+  setStorageMode('vault');
+};
+
+export const lockVault = () => {
+  vaultKey = null;
+};
+
+/** Removes the vault metadata. Anything still sealed under it can no longer be decrypted. */
+export const destroyVault = () => {
+  localStorage.removeItem(VAULT_META_KEY);
+  vaultKey = null;
+  if (mode === 'vault') setStorageMode('plain');
+};
+
+export const sealJson = async (value: unknown): Promise<EncryptedPayload> =>
+  encryptWith(requireKey(), JSON.stringify(value));
+
+export const openJson = async <T>(payload: EncryptedPayload): Promise<T> =>
+  JSON.parse(await decryptWith(requireKey(), payload));
+
+const storageKey = (name: string) => `steward_ai_${name}`;
+
+/**
+ * Reads a small value (API key, chat history) according to the storage mode. Returns null
+ * when nothing is stored or when it is sealed and the vault is locked.
+ */
+export const readSecure = async (name: string): Promise<string | null> => {
+  if (mode === 'session') return sessionValues.get(name) ?? null;
+  const raw = localStorage.getItem(storageKey(name));
+  if (raw === null || !raw.startsWith(SEALED_PREFIX)) return raw;
+  if (!vaultKey) return null;
+  try {
+    return await decryptWith(vaultKey, JSON.parse(raw.slice(SEALED_PREFIX.length)));
+  } catch (e) {
+    console.error(`Failed to decrypt ${name}`, e);
+    return null;
+  }
+};
+
+export const writeSecure = async (name: string, value: string) => {
+  if (mode === 'session') {
+    sessionValues.set(name, value);
+    return;
+  }
+  const stored = mode === 'vault' ? SEALED_PREFIX + JSON.stringify(await encryptWith(requireKey(), value)) : value;
+  localStorage.setItem(storageKey(name), stored);
+};
+
+export const removeSecure = (name: string) => {
+  sessionValues.delete(name);
+  localStorage.removeItem(storageKey(name));
+};
+
+/** Removes every unencrypted value (API key, chat history) from localStorage, e.g. when switching to session-only mode. */
+export const removePlaintextValues = () => {
+  const names = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    .filter((key): key is string => key !== null && key.startsWith(storageKey('')) && key !== MODE_KEY && key !== VAULT_META_KEY);
+  for (const key of names) {
+    if (!localStorage.getItem(key)?.startsWith(SEALED_PREFIX)) localStorage.removeItem(key);
+  }
+};
+
+/** Re-writes a plaintext value in the current mode, e.g. encrypting it after a vault is created. */
+export const resealSecure = async (name: string) => {
+  const raw = localStorage.getItem(storageKey(name));
+  if (raw !== null && !raw.startsWith(SEALED_PREFIX) && mode === 'vault') {
+    await writeSecure(name, raw);
+  }
+};
@@ -0,0 +1,219 @@
+import {
+  ProjectionAssumptions, ProjectionData, UserProfile, WithdrawalBucket, WithdrawalOrder,
+  WithdrawalResult, WithdrawalSettings, WithdrawalStrategy, WithdrawalYear,
+} from '../types';
+import { ACCOUNT_TYPE_INFO, getAccountBalance } from './accounts';
+import { getHouseholdMembers } from './household';
+import { getProjectionHorizon } from './projection';
+
+export const WITHDRAWAL_STRATEGY_LABELS: Record<WithdrawalStrategy, string> = {
+  fixed: '4% Rule',
+  guardrails: 'Guardrails',
+  vpw: 'Variable (VPW)',
+};
+
+export const WITHDRAWAL_STRATEGY_DESCRIPTIONS: Record<WithdrawalStrategy, string> = {
+  fixed: 'Withdraw a fixed share of the starting portfolio, then raise it with inflation every year regardless of markets.',
+  guardrails: 'Guyton-Klinger: start higher, skip inflation raises after losing years, cut 10% when the withdrawal rate drifts 20% above its start and raise 10% when it drifts 20% below.',
+  vpw: 'Variable percentage withdrawal: each year take the amount that would spread the current balance evenly over the years left. Never runs out, but income moves with markets.',
+};
+
+export const WITHDRAWAL_ORDER_LABELS: Record<WithdrawalOrder, string> = {
+  conventional: 'Cash → Brokerage → Traditional → Roth',
+  roth_first: 'Cash → Brokerage → Roth → Traditional',
+  proportional: 'Cash first, then pro-rata',
+};
+
+export const BUCKET_LABELS: Record<WithdrawalBucket, string> = {
+  cash: 'Cash',
+  taxable: 'Brokerage',
+  tax_deferred: 'Traditional',
+  tax_free: 'Roth / HSA',
+};
+
+export const DEFAULT_WITHDRAWAL_SETTINGS: WithdrawalSettings = {
+  strategy: 'fixed',
+  order: 'conventional',
+  lifeExpectancy: 95,
+  initialRate: 4,
+  scenario: 'steady',
+};
+
+// Guyton-Klinger guardrails, relative to the initial withdrawal rate.
+const GUARDRAIL_BAND = 0.2;
+const GUARDRAIL_ADJUSTMENT = 0.1;
+// The capital-preservation cut is not applied in the last 15 years of the plan.
+const GUARDRAIL_FINAL_YEARS = 15;
+
+// Stress scenario: two bad years right at retirement, when sequence risk is greatest.
+const EARLY_DOWNTURN_RETURNS = [-0.2, -0.1];
+
+const BUCKET_ORDERS: Record<Exclude<WithdrawalOrder, 'proportional'>, WithdrawalBucket[]> = {
+  conventional: ['cash', 'taxable', 'tax_deferred', 'tax_free'],
+  roth_first: ['cash', 'taxable', 'tax_free', 'tax_deferred'],
+};
+
+const emptyBuckets = (): Record<WithdrawalBucket, number> => ({ cash: 0, taxable: 0, tax_deferred: 0, tax_free: 0 });
+
+const sumBuckets = (buckets: Record<WithdrawalBucket, number>) =>
+  buckets.cash + buckets.taxable + buckets.tax_deferred + buckets.tax_free;
+
+/**
+ * Estimates balances by bucket on the first day of retirement. The expected-scenario
+ * projection is split by tax treatment in proportion to each account's balance plus the
+ * contributions it will receive; contributions not assigned to an account are treated as
+ * brokerage savings. Cash is assumed to keep pace with inflation.
+ */
+export const getRetirementBuckets = (
+  profile: UserProfile,
+  projections: ProjectionData[],
+  assumptions: ProjectionAssumptions
+): Record<WithdrawalBucket, number> => {
+  const horizon = getProjectionHorizon(profile);
+  const invested = projections.length > 0 ? projections[projections.length - 1].expected : 0;
+  const weights = emptyBuckets();
+  let assigned = 0;
+  for (const account of profile.accounts) {
+    const monthly = Number(account.monthlyContribution) || 0;
+    assigned += monthly;
+    weights[ACCOUNT_TYPE_INFO[account.type].treatment] += getAccountBalance(account) + monthly * 12 * horizon;
+  }
+  weights.taxable += Math.max(0, (Number(profile.monthlyContribution) || 0) - assigned) * 12 * horizon;
+
+  const totalWeight = sumBuckets(weights);
+  const buckets = emptyBuckets();
+  for (const bucket of ['taxable', 'tax_deferred', 'tax_free'] as WithdrawalBucket[]) {
+    buckets[bucket] = totalWeight > 0 ? (invested * weights[bucket]) / totalWeight : bucket === 'taxable' ? invested : 0;
+  }
+  buckets.cash = (Number(profile.cash) || 0) * Math.pow(1 + assumptions.inflation / 100, horizon);
+  return buckets;
+};
+
+/** Years from the start of retirement until the last household member reaches `lifeExpectancy`. */
+export const getRetirementYears = (profile: UserProfile, lifeExpectancy: number) => {
+  const horizon = getProjectionHorizon(profile);
+  return Math.max(1, ...getHouseholdMembers(profile).map(m => lifeExpectancy - (Number(m.age) + horizon)));
+};
+
+/** Takes `amount` from the buckets in the chosen order and returns what was actually withdrawn. */
+const withdrawFromBuckets = (buckets: Record<WithdrawalBucket, number>, amount: number, order: WithdrawalOrder) => {
+  let remaining = amount;
+  const fromCash = Math.min(buckets.cash, remaining);
+  buckets.cash -= fromCash;
+  remaining -= fromCash;
+
+  if (order === 'proportional') {
+    const invested = buckets.taxable + buckets.tax_deferred + buckets.tax_free;
+    const taken = Math.min(invested, remaining);
+    if (invested > 0) {
+      for (const bucket of ['taxable', 'tax_deferred', 'tax_free'] as WithdrawalBucket[]) {
+        buckets[bucket] -= (taken * buckets[bucket]) / invested;
+      }
+    }
+    remaining -= taken;
+  } else {
+    for (const bucket of BUCKET_ORDERS[order]) {
+      const taken = Math.min(buckets[bucket], remaining);
+      buckets[bucket] -= taken;
+      remaining -= taken;
+    }
+  }
+  return amount - remaining;
+};
+
+/**
+ * Simulates retirement year by year. Each year the strategy sets the planned withdrawal,
+ * which is taken at the start of the year in the chosen bucket order; the rest of the
+ * portfolio then earns the expected return (or the stress sequence) while cash keeps pace
+ * with inflation. All amounts are nominal.
+ */
+export const simulateWithdrawals = (
+  profile: UserProfile,
+  startBuckets: Record<WithdrawalBucket, number>,
+  startYear: number,
+  settings: WithdrawalSettings,
+  assumptions: ProjectionAssumptions
+): WithdrawalResult => {
+  const years = getRetirementYears(profile, settings.lifeExpectancy);
+  const startAge = Number(profile.age) + getProjectionHorizon(profile);
+  const inflation = assumptions.inflation / 100;
+  const expectedReturn = assumptions.expectedReturn / 100;
+  const realReturn = (1 + expectedReturn) / (1 + inflation) - 1;
+  const initialRate = settings.initialRate / 100;
+
+  const buckets = { ...startBuckets };
+  const rows: WithdrawalYear[] = [];
+  let planned = 0;
+  let previousReturn = 0;
+  let depletedYear: number | null = null;
+  let depletedAge: number | null = null;
+  let totalWithdrawn = 0;
+  let initialWithdrawal = 0;
+
+  for (let t = 0; t < years; t++) {
+    const balance = sumBuckets(buckets);
+    const yearsLeft = years - t;
+
+    if (settings.strategy === 'vpw') {
+      // Level payment that would exhaust the balance over the remaining years at the real return.
+      const rate = Math.abs(realReturn) < 1e-9 ? 1 / yearsLeft : realReturn / (1 - Math.pow(1 + realReturn, -yearsLeft));
+      planned = balance * rate;
+    } else if (t === 0) {
+      planned = balance * initialRate;
+    } else if (settings.strategy === 'fixed') {
+      planned *= 1 + inflation;
+    } else {
+      const currentRate = balance > 0 ? planned / balance : Infinity;
+      // Guyton-Klinger: no inflation raise after a losing year if the rate is already above where it started.
+      if (!(previousReturn < 0 && currentRate > initialRate)) planned *= 1 + inflation;
+      const rate = balance > 0 ? planned / balance : Infinity;
+      if (rate > initialRate * (1 + GUARDRAIL_BAND) && yearsLeft > GUARDRAIL_FINAL_YEARS) {
+        planned *= 1 - GUARDRAIL_ADJUSTMENT;
+      } else if (rate < initialRate * (1 - GUARDRAIL_BAND)) {
+        planned *= 1 + GUARDRAIL_ADJUSTMENT;
+      }
+    }
+    if (t === 0) initialWithdrawal = planned;
+
+    const withdrawn = withdrawFromBuckets(buckets, planned, settings.order);
+    totalWithdrawn += withdrawn;
+    const shortfall = Math.max(0, planned - withdrawn);
+    if (shortfall > 0.5 && depletedYear === null) {
+      depletedYear = startYear + t;
+      depletedAge = startAge + t;
+    }
+
+    const marketReturn = settings.scenario === 'early_downturn' && t < EARLY_DOWNTURN_RETURNS.length
+      ? EARLY_DOWNTURN_RETURNS[t]
+      : expectedReturn;
+    buckets.taxable *= 1 + marketReturn;
+    buckets.tax_deferred *= 1 + marketReturn;
+    buckets.tax_free *= 1 + marketReturn;
+    buckets.cash *= 1 + inflation;
+    previousReturn = marketReturn;
+
+    rows.push({
+      year: startYear + t,
+      age: startAge + t,
+      withdrawal: Math.round(withdrawn),
+      shortfall: Math.round(shortfall),
+      balances: {
+        cash: Math.round(buckets.cash),
+        taxable: Math.round(buckets.taxable),
+        tax_deferred: Math.round(buckets.tax_deferred),
+        tax_free: Math.round(buckets.tax_free),
+      },
+      totalBalance: Math.round(sumBuckets(buckets)),
+    });
+  }
+
+  return {
+    strategy: settings.strategy,
+    years: rows,
+    depletedYear,
+    depletedAge,
+    endingBalance: rows.length > 0 ? rows[rows.length - 1].totalBalance : 0,
+    totalWithdrawn: Math.round(totalWithdrawn),
+    initialWithdrawal: Math.round(initialWithdrawal),
+  };
+};